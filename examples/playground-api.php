@@ -6,13 +6,19 @@
  * Supports: OpenAI, Anthropic, Ollama (local)
  * Features:
  * - Separate brain (chat) and embedding models
- * - File upload for custom log files
+ * - File upload for custom log files, with chunked and resumable uploads for large files
  * - LogFileIndexer for processing uploaded logs
+ * - Streaming chat answers (Server-Sent Events) with `"stream": true`
+ * - Background indexing with real progress, polled through /init-status
  * - API keys are passed per-request and never stored on the server.
  *
  * Usage:
  *   cd /path/to/ai-log-inspector-agent
- *   php -S localhost:8080 examples/playground-api.php
+ *   PHP_CLI_SERVER_WORKERS=4 php -S localhost:8080 examples/playground-api.php
+ *
+ * With a single worker the built-in server still works, but /init-status
+ * requests wait until indexing is finished instead of reporting progress
+ * (the playground waits up to 300s for each of them).
  */
 
 declare(strict_types=1);
@@ -20,21 +26,38 @@ declare(strict_types=1);
 require_once __DIR__ . '/../vendor/autoload.php';
 
 use Hakam\AiLogInspector\Chat\LogInspectorChatFactory;
+use Hakam\AiLogInspector\Chat\SessionMessageStore;
 use Hakam\AiLogInspector\Enum\PlatformEnum;
 use Hakam\AiLogInspector\Indexer\LogFileIndexer;
 use Hakam\AiLogInspector\Platform\LogDocumentPlatformFactory;
 use Hakam\AiLogInspector\Platform\LogDocumentPlatformInterface;
+use Hakam\AiLogInspector\Platform\OllamaModelDiscovery;
+use Hakam\AiLogInspector\Platform\PlatformCatalog;
+use Hakam\AiLogInspector\Platform\TokenUsageTracker;
 use Hakam\AiLogInspector\Store\VectorLogDocumentStore;
 use Hakam\AiLogInspector\Tool\LogSearchTool;
 use Hakam\AiLogInspector\Tool\RequestContextTool;
+use Hakam\AiLogInspector\Tool\ToolCallRecorder;
 use Hakam\AiLogInspector\Retriever\LogRetriever;
 use Symfony\AI\Store\Bridge\Cache\Store as CacheStore;
 use Symfony\AI\Store\Document\Metadata;
 use Symfony\AI\Store\Document\VectorDocument;
+use Symfony\AI\Store\StoreInterface;
 use Symfony\AI\Platform\Vector\Vector;
 use Symfony\Component\Cache\Adapter\FilesystemAdapter;
 use Symfony\Component\Uid\Uuid;
 
+// Chunked uploads: the client slices files in chunks of at most this size
+const MAX_CHUNK_SIZE = 8 * 1024 * 1024;
+
+// Paging of GET /logs
+const DEFAULT_LOGS_PAGE_SIZE = 200;
+const MAX_LOGS_PAGE_SIZE = 1000;
+const MAX_HISTOGRAM_BUCKETS = 200;
+
+// Log lines sent to POST /analyze
+const MAX_ANALYZE_LOGS = 50;
+
 // Configuration
 $sessionDir = getenv('SESSION_DIR') ?: sys_get_temp_dir() . '/playground-sessions';
 $uploadDir = getenv('UPLOAD_DIR') ?: sys_get_temp_dir() . '/playground-uploads';
@@ -69,10 +92,12 @@ if (php_sapi_name() !== 'cli' || isset($_SERVER['REQUEST_URI'])) {
     $method = $_SERVER['REQUEST_METHOD'];
     $path = parse_url($_SERVER['REQUEST_URI'], PHP_URL_PATH);
 
-    // Handle multipart form data for file upload
+    // Handle multipart form data for file upload; chunk bodies are raw bytes
     $input = [];
     if ($path === '/upload' && $method === 'POST') {
         $input = $_POST;
+    } elseif ($path === '/upload/chunk') {
+        $input = $_GET;
     } else {
         $input = json_decode(file_get_contents('php://input'), true) ?? [];
     }
@@ -85,10 +110,15 @@ if (php_sapi_name() !== 'cli' || isset($_SERVER['REQUEST_URI'])) {
                     'storage' => 'in-memory',
                     'supported_platforms' => ['openai', 'anthropic', 'ollama'],
                     'message' => 'API key required per request (not stored)',
-                    'features' => ['brain_model', 'embedding_model', 'file_upload'],
+                    'features' => ['brain_model', 'embedding_model', 'file_upload', 'chat_stream', 'init_progress', 'chunked_upload', 'request_trace', 'history', 'tool_calls', 'multi_source', 'platform_catalog', 'compare', 'token_usage', 'analyze'],
                 ]);
                 break;
 
+            case $method === 'GET' && $path === '/platforms':
+                // Platforms and models to build the configuration screen from
+                echo json_encode(buildPlatformCatalog($_GET['ollama_host'] ?? 'http://localhost:11434'));
+                break;
+
             case $method === 'POST' && $path === '/init':
                 // Initialize logs in store
                 $sessionId = $input['session_id'] ?? 'default';
@@ -116,26 +146,40 @@ if (php_sapi_name() !== 'cli' || isset($_SERVER['REQUEST_URI'])) {
 
                 error_log("=== INIT REQUEST ===");
                 error_log("[init] session={$sessionId} platform={$platform} brain={$brainModel} embedding={$embeddingModel}");
-                $logs = loadSampleLogs();
-                error_log("[init] Loaded " . count($logs) . " sample logs");
-                // Pre-index logs into cache using the embedding model when available
-                indexLogsInCache($logs, $sessionId, $platform, $embeddingModel, $apiKey, $ollamaHost);
-                cacheLogsData($logs, $sessionId);
-                error_log("[init] Logs indexed and cached for session={$sessionId}");
                 $statusFile = $sessionDir . '/' . $sessionId . '-init.json';
-                $result = [
-                    'initialized' => true,
-                    'status' => 'ready',
-                    'message' => 'Ready! ' . count($logs) . ' logs cached.',
-                    'progress' => 100,
-                    'logs_count' => count($logs),
+                $baseStatus = [
                     'storage' => 'in-memory',
                     'session_id' => $sessionId,
                     'brain_model' => $brainModel,
                     'embedding_model' => $embeddingModel,
                 ];
-                file_put_contents($statusFile, json_encode($result));
-                echo json_encode($result);
+                $reportProgress = createProgressReporter($statusFile, $baseStatus);
+                $reportProgress('parsing', 0, 0, 'Loading sample logs...');
+
+                // Answer right away; the client polls /init-status while indexing runs
+                finishResponse(readInitStatus($statusFile));
+
+                try {
+                    $logs = loadSampleLogs($reportProgress);
+                    error_log("[init] Loaded " . count($logs) . " sample logs");
+                    // Pre-index logs into cache using the embedding model when available
+                    $tracker = new TokenUsageTracker();
+                    indexLogsInCache($logs, $sessionId, $platform, $embeddingModel, $apiKey, $ollamaHost, $reportProgress, $tracker);
+                    cacheLogsData($logs, $sessionId);
+                    error_log("[init] Logs indexed and cached for session={$sessionId}");
+                    writeInitStatus($statusFile, $baseStatus + [
+                        'initialized' => true,
+                        'status' => 'ready',
+                        'message' => 'Ready! ' . count($logs) . ' logs cached.',
+                        'progress' => 100,
+                        'logs_count' => count($logs),
+                        'usage' => $tracker->getUsage(),
+                        'phase' => 'done',
+                    ]);
+                } catch (Throwable $e) {
+                    error_log("[init] Indexing failed: " . $e->getMessage());
+                    writeFailedStatus($statusFile, $baseStatus, $e);
+                }
                 break;
 
             case $method === 'POST' && $path === '/upload':
@@ -162,6 +206,7 @@ if (php_sapi_name() !== 'cli' || isset($_SERVER['REQUEST_URI'])) {
 
                 $uploadedFile = $_FILES['file'];
                 $targetPath = $uploadDir . '/' . $sessionId . '-' . basename($uploadedFile['name']);
+                $source = $input['source'] ?? basename($uploadedFile['name']);
 
                 if (!move_uploaded_file($uploadedFile['tmp_name'], $targetPath)) {
                     http_response_code(500);
@@ -169,26 +214,104 @@ if (php_sapi_name() !== 'cli' || isset($_SERVER['REQUEST_URI'])) {
                     break;
                 }
 
-                try {
-                    $result = processUploadedFile(
-                        $targetPath,
-                        $sessionId,
-                        $platform,
-                        $brainModel,
-                        $embeddingModel,
-                        $apiKey,
-                        $ollamaHost,
-                        $sessionDir
-                    );
-                    echo json_encode($result);
-                } catch (Throwable $e) {
-                    http_response_code(500);
+                startUploadIndexing(
+                    $targetPath,
+                    $sessionId,
+                    $platform,
+                    $brainModel,
+                    $embeddingModel,
+                    $apiKey,
+                    $ollamaHost,
+                    $sessionDir,
+                    $source,
+                    filter_var($input['append'] ?? false, FILTER_VALIDATE_BOOLEAN)
+                );
+                break;
+
+            case $method === 'GET' && $path === '/upload/status':
+                $uploadId = sanitizeUploadId($_GET['upload_id'] ?? '');
+                echo json_encode(getChunkedUploadStatus($uploadDir, $uploadId));
+                break;
+
+            case $method === 'POST' && $path === '/upload/chunk':
+                // Raw chunk body; metadata travels in the query string
+                $uploadId = sanitizeUploadId($_GET['upload_id'] ?? '');
+                $index = (int) ($_GET['index'] ?? -1);
+                $totalChunks = (int) ($_GET['total'] ?? 0);
+
+                if ($uploadId === '' || $index < 0 || $index >= $totalChunks) {
+                    http_response_code(400);
+                    echo json_encode(['error' => 'upload_id, index and total are required']);
+                    break;
+                }
+
+                $chunk = file_get_contents('php://input');
+                if ($chunk === false || $chunk === '' || strlen($chunk) > MAX_CHUNK_SIZE) {
+                    http_response_code(400);
+                    echo json_encode(['error' => 'Chunk must be between 1 byte and ' . MAX_CHUNK_SIZE . ' bytes']);
+                    break;
+                }
+
+                $chunkDir = $uploadDir . '/' . $uploadId . '.chunks';
+                if (!is_dir($chunkDir)) {
+                    mkdir($chunkDir, 0755, true);
+                }
+                // Write then rename, so an interrupted request never leaves a truncated chunk behind
+                $chunkFile = $chunkDir . '/' . $index . '.part';
+                file_put_contents($chunkFile . '.tmp', $chunk);
+                rename($chunkFile . '.tmp', $chunkFile);
+
+                echo json_encode(getChunkedUploadStatus($uploadDir, $uploadId));
+                break;
+
+            case $method === 'POST' && $path === '/upload/complete':
+                $sessionId = $input['session_id'] ?? 'default';
+                $uploadId = sanitizeUploadId($input['upload_id'] ?? '');
+                $fileName = basename($input['file_name'] ?? 'upload.log');
+                $totalChunks = (int) ($input['total_chunks'] ?? 0);
+                $fileSize = (int) ($input['file_size'] ?? 0);
+                $platform = $input['platform'] ?? 'openai';
+                $brainModel = $input['brain_model'] ?? 'gpt-4o-mini';
+                $embeddingModel = $input['embedding_model'] ?? 'text-embedding-3-small';
+                $apiKey = $input['api_key'] ?? '';
+                $ollamaHost = $input['ollama_host'] ?? 'http://localhost:11434';
+
+                if ($platform !== 'ollama' && empty($apiKey)) {
+                    http_response_code(400);
+                    echo json_encode(['error' => 'API key is required']);
+                    break;
+                }
+
+                $targetPath = $uploadDir . '/' . $sessionId . '-' . $fileName;
+                $source = $input['source'] ?? $fileName;
+                $missing = assembleChunkedUpload($uploadDir, $uploadId, $totalChunks, $fileSize, $targetPath);
+                if ($missing !== []) {
+                    http_response_code(409);
                     echo json_encode([
-                        'error' => 'Failed to process log file: ' . $e->getMessage(),
-                        'file' => basename($e->getFile()),
-                        'line' => $e->getLine(),
+                        'error' => 'Upload is incomplete: ' . count($missing) . ' chunk(s) missing',
+                        'missing_chunks' => $missing,
                     ]);
+                    break;
                 }
+
+                startUploadIndexing(
+                    $targetPath,
+                    $sessionId,
+                    $platform,
+                    $brainModel,
+                    $embeddingModel,
+                    $apiKey,
+                    $ollamaHost,
+                    $sessionDir,
+                    $source,
+                    filter_var($input['append'] ?? false, FILTER_VALIDATE_BOOLEAN)
+                );
+                break;
+
+            case $method === 'POST' && $path === '/upload/abort':
+                $uploadId = sanitizeUploadId($input['upload_id'] ?? '');
+                removeChunkedUpload($uploadDir, $uploadId);
+                echo json_encode(['status' => 'ok', 'message' => 'Upload cancelled']);
                 break;
 
             case $method === 'GET' && $path === '/init-status':
@@ -210,16 +333,83 @@ if (php_sapi_name() !== 'cli' || isset($_SERVER['REQUEST_URI'])) {
                 break;
 
             case $method === 'GET' && $path === '/logs':
-                $sessionId = $_GET['session_id'] ?? 'default';
-                $sessionLogsFile = $sessionDir . '/' . $sessionId . '-logs.json';
+                $logs = loadSessionLogs($sessionDir, $_GET['session_id'] ?? 'default');
 
-                // Check for session-specific logs (from upload)
-                if (file_exists($sessionLogsFile)) {
-                    $logs = json_decode(file_get_contents($sessionLogsFile), true) ?? [];
-                } else {
-                    $logs = loadSampleLogs();
+                $offset = max(0, (int) ($_GET['offset'] ?? 0));
+                $limit = min(MAX_LOGS_PAGE_SIZE, max(1, (int) ($_GET['limit'] ?? DEFAULT_LOGS_PAGE_SIZE)));
+                $filtered = filterLogs($logs, $_GET);
+                $page = array_slice($filtered, $offset, $limit);
+                $histogramBuckets = min(MAX_HISTOGRAM_BUCKETS, (int) ($_GET['histogram'] ?? 0));
+
+                echo json_encode([
+                    'logs' => $page,
+                    'count' => count($page),
+                    'total' => count($logs),
+                    'filtered' => count($filtered),
+                    'offset' => $offset,
+                    'limit' => $limit,
+                    'facets' => [
+                        'levels' => countBy($logs, 'level'),
+                        'categories' => countBy($logs, 'category'),
+                        'sources' => countBy($logs, 'source'),
+                    ],
+                    'histogram' => $histogramBuckets > 0
+                        ? buildLogHistogram($filtered, $histogramBuckets, $_GET['from'] ?? null, $_GET['to'] ?? null)
+                        : null,
+                ]);
+                break;
+
+            case $method === 'GET' && $path === '/logs/around':
+                // A log entry with the lines around it in the same file
+                $logs = loadSessionLogs($sessionDir, $_GET['session_id'] ?? 'default');
+                $radius = min(50, max(0, (int) ($_GET['radius'] ?? 5)));
+                $neighbours = findLogNeighbours($logs, $_GET['id'] ?? '', $radius);
+
+                if ($neighbours === null) {
+                    http_response_code(404);
+                    echo json_encode(['error' => 'Log not found: ' . ($_GET['id'] ?? '')]);
+                    break;
+                }
+                echo json_encode($neighbours);
+                break;
+
+            case $method === 'POST' && $path === '/trace':
+                // Structured request trace, from the same lookup as the request_context tool
+                $sessionId = $input['session_id'] ?? 'default';
+                $identifier = trim($input['identifier'] ?? '');
+                $platform = $input['platform'] ?? 'openai';
+                $brainModel = $input['brain_model'] ?? 'gpt-4o-mini';
+                $embeddingModel = $input['embedding_model'] ?? 'text-embedding-3-small';
+                $apiKey = $input['api_key'] ?? '';
+                $ollamaHost = $input['ollama_host'] ?? 'http://localhost:11434';
+
+                if ($identifier === '') {
+                    http_response_code(400);
+                    echo json_encode(['error' => 'Identifier is required']);
+                    break;
+                }
+
+                if ($platform !== 'ollama' && empty($apiKey)) {
+                    http_response_code(400);
+                    echo json_encode(['error' => 'API key is required']);
+                    break;
                 }
-                echo json_encode(['logs' => $logs, 'count' => count($logs)]);
+
+                $startTime = microtime(true);
+                $context = createToolContext(
+                    $sessionId,
+                    $platform,
+                    $brainModel,
+                    $embeddingModel,
+                    $apiKey,
+                    $ollamaHost,
+                    $sessionDir
+                );
+                $tool = new RequestContextTool($context['store'], $context['retriever'], $context['platform']);
+                $trace = $tool->trace($identifier);
+                error_log("[trace] identifier={$identifier} steps=" . count($trace['steps']) . " method={$trace['search_method']}");
+
+                echo json_encode($trace + ['duration_ms' => (int) round((microtime(true) - $startTime) * 1000)]);
                 break;
 
             case $method === 'POST' && $path === '/chat':
@@ -243,6 +433,20 @@ if (php_sapi_name() !== 'cli' || isset($_SERVER['REQUEST_URI'])) {
                     break;
                 }
 
+                if (!empty($input['stream'])) {
+                    handleChatStream(
+                        $sessionId,
+                        $question,
+                        $platform,
+                        $brainModel,
+                        $embeddingModel,
+                        $apiKey,
+                        $ollamaHost,
+                        $sessionDir
+                    );
+                    break;
+                }
+
                 $response = handleChat(
                     $sessionId,
                     $question,
@@ -256,6 +460,86 @@ if (php_sapi_name() !== 'cli' || isset($_SERVER['REQUEST_URI'])) {
                 echo json_encode($response);
                 break;
 
+            case $method === 'POST' && $path === '/compare':
+                // One candidate of a comparison: the candidate's brain model answers
+                // with the session's index, built with the session's own embedding config
+                $sessionId = $input['session_id'] ?? 'default';
+                $question = $input['question'] ?? '';
+                $candidate = is_array($input['candidate'] ?? null) ? $input['candidate'] : [];
+                $candidatePlatform = $candidate['platform'] ?? '';
+                $candidateApiKey = $candidate['api_key'] ?? '';
+
+                if (empty($question) || empty($candidate['brain_model']) || !in_array($candidatePlatform, ['openai', 'anthropic', 'ollama'], true)) {
+                    http_response_code(400);
+                    echo json_encode(['error' => 'Question, candidate platform and brain_model are required']);
+                    break;
+                }
+
+                if ($candidatePlatform !== 'ollama' && empty($candidateApiKey)) {
+                    http_response_code(400);
+                    echo json_encode(['error' => "API key is required for {$candidatePlatform}"]);
+                    break;
+                }
+
+                echo json_encode(handleCompare(
+                    $sessionId,
+                    $question,
+                    $input['platform'] ?? 'openai',
+                    $input['brain_model'] ?? 'gpt-4o-mini',
+                    $input['embedding_model'] ?? 'text-embedding-3-small',
+                    $input['api_key'] ?? '',
+                    $input['ollama_host'] ?? 'http://localhost:11434',
+                    $sessionDir,
+                    $candidatePlatform,
+                    $candidate['brain_model'],
+                    $candidateApiKey,
+                    $candidate['ollama_host'] ?? 'http://localhost:11434'
+                ));
+                break;
+
+            case $method === 'POST' && $path === '/analyze':
+                // One call to the brain model with LogSearchTool's analysis prompt: no agent, tools or index
+                $logs = array_values(array_filter(
+                    is_array($input['logs'] ?? null) ? $input['logs'] : [],
+                    static fn (mixed $log): bool => is_string($log) && trim($log) !== ''
+                ));
+                $platform = $input['platform'] ?? 'openai';
+                $apiKey = $input['api_key'] ?? '';
+
+                if ($logs === [] || empty($input['brain_model'])) {
+                    http_response_code(400);
+                    echo json_encode(['error' => 'Logs and brain_model are required']);
+                    break;
+                }
+
+                if ($platform !== 'ollama' && empty($apiKey)) {
+                    http_response_code(400);
+                    echo json_encode(['error' => 'API key is required']);
+                    break;
+                }
+
+                echo json_encode(handleAnalyze(
+                    array_slice($logs, -MAX_ANALYZE_LOGS),
+                    $platform,
+                    $input['brain_model'],
+                    $apiKey,
+                    $input['ollama_host'] ?? 'http://localhost:11434'
+                ));
+                break;
+
+            case $method === 'GET' && $path === '/history':
+                $sessionId = $_GET['session_id'] ?? 'default';
+                $store = new SessionMessageStore($sessionId, $sessionDir);
+                $metadata = $store->getMetadata();
+
+                echo json_encode([
+                    'session_id' => $sessionId,
+                    'exists' => $metadata !== null,
+                    'updated_at' => $metadata['updated_at'] ?? null,
+                    'messages' => $store->getHistory(),
+                ]);
+                break;
+
             case $method === 'POST' && $path === '/reset':
                 $sessionId = $input['session_id'] ?? 'default';
                 $safeSessionId = preg_replace('/[^a-zA-Z0-9_-]/', '_', $sessionId);
@@ -321,6 +605,538 @@ function isOllamaAvailable(string $host): bool
     return $result !== false;
 }
 
+/**
+ * Send the JSON response and close the connection, so the rest of the
+ * request (indexing) keeps running in the background.
+ */
+function finishResponse(array $payload): void
+{
+    ignore_user_abort(true);
+    $body = json_encode($payload);
+
+    header('Connection: close');
+    header('Content-Length: ' . strlen($body));
+    echo $body;
+
+    while (ob_get_level() > 0) {
+        ob_end_flush();
+    }
+    flush();
+    if (function_exists('fastcgi_finish_request')) {
+        fastcgi_finish_request();
+    }
+}
+
+/**
+ * Write the `-init.json` status file atomically so /init-status never reads a partial file.
+ */
+function writeInitStatus(string $statusFile, array $status): void
+{
+    $tmpFile = $statusFile . '.tmp';
+    file_put_contents($tmpFile, json_encode($status));
+    rename($tmpFile, $statusFile);
+}
+
+function readInitStatus(string $statusFile): array
+{
+    return json_decode((string) @file_get_contents($statusFile), true) ?? [];
+}
+
+function writeFailedStatus(string $statusFile, array $baseStatus, Throwable $e, string $prefix = ''): void
+{
+    $previous = readInitStatus($statusFile);
+    writeInitStatus($statusFile, $baseStatus + [
+        'initialized' => false,
+        'status' => 'failed',
+        'message' => 'Indexing failed',
+        'progress' => $previous['progress'] ?? 0,
+        'logs_count' => $previous['logs_count'] ?? 0,
+        'phase' => $previous['phase'] ?? 'parsing',
+        'phases' => $previous['phases'] ?? [],
+        'error' => $prefix . $e->getMessage(),
+        'file' => basename($e->getFile()),
+        'line' => $e->getLine(),
+    ]);
+}
+
+/**
+ * Create a callback that records indexing progress in the status file.
+ *
+ * The callback receives the phase (parsing, embedding, storing), the number of
+ * processed documents, the expected total and an optional message. Overall
+ * progress is weighted per phase; the ETA is derived from the current phase rate.
+ * Writes are throttled to a few per second.
+ */
+function createProgressReporter(string $statusFile, array $baseStatus): callable
+{
+    $weights = [
+        'parsing' => [0, 10],
+        'embedding' => [10, 85],
+        'storing' => [85, 99],
+    ];
+    $phases = [];
+    $phaseStartedAt = [];
+    $startedAt = microtime(true);
+    $lastWrite = 0.0;
+
+    return static function (string $phase, int $done, int $total, string $message = '') use (
+        $statusFile,
+        $baseStatus,
+        $weights,
+        $startedAt,
+        &$phases,
+        &$phaseStartedAt,
+        &$lastWrite
+    ): void {
+        $now = microtime(true);
+        $phaseStartedAt[$phase] ??= $now;
+        $phases[$phase] = ['done' => $done, 'total' => $total];
+
+        $phaseComplete = $total > 0 && $done >= $total;
+        if ($message === '' && !$phaseComplete && $now - $lastWrite < 0.25) {
+            return;
+        }
+        $lastWrite = $now;
+
+        [$from, $to] = $weights[$phase] ?? [0, 99];
+        $ratio = $total > 0 ? min(1, $done / $total) : 0;
+
+        $eta = null;
+        if ($done > 0 && $total > $done) {
+            $eta = (int) ceil(($now - $phaseStartedAt[$phase]) / $done * ($total - $done));
+        }
+
+        writeInitStatus($statusFile, $baseStatus + [
+            'initialized' => false,
+            'status' => 'indexing',
+            'message' => $message !== '' ? $message : sprintf('%s (%d/%d)', getPhaseLabel($phase), $done, $total),
+            'progress' => (int) round($from + ($to - $from) * $ratio),
+            'logs_count' => $phases['parsing']['done'] ?? 0,
+            'phase' => $phase,
+            'phases' => $phases,
+            'eta_seconds' => $eta,
+            'elapsed_ms' => (int) round(($now - $startedAt) * 1000),
+        ]);
+    };
+}
+
+function getPhaseLabel(string $phase): string
+{
+    return match ($phase) {
+        'parsing' => 'Parsing log entries...',
+        'embedding' => 'Generating embeddings...',
+        'storing' => 'Storing vectors...',
+        default => 'Indexing logs...',
+    };
+}
+
+/**
+ * Wrap a store so every added document is reported to $onStored with the running count.
+ */
+function createProgressStore(StoreInterface $store, callable $onStored): StoreInterface
+{
+    return new class($store, $onStored) implements StoreInterface {
+        private int $stored = 0;
+        private readonly \Closure $onStored;
+
+        public function __construct(
+            private readonly StoreInterface $store,
+            callable $onStored,
+        ) {
+            $this->onStored = $onStored(...);
+        }
+
+        public function add(VectorDocument|array $documents): void
+        {
+            $this->store->add($documents);
+            $this->stored += is_array($documents) ? count($documents) : 1;
+            ($this->onStored)($this->stored);
+        }
+
+        public function query(Vector $vector, array $options = []): iterable
+        {
+            return $this->store->query($vector, $options);
+        }
+    };
+}
+
+/**
+ * Wrap a store so every added document is tagged with the file it came from,
+ * for the chunks LogFileIndexer builds without the session's log entries.
+ */
+function createSourceStore(StoreInterface $store, string $source): StoreInterface
+{
+    return new class($store, $source) implements StoreInterface {
+        public function __construct(
+            private readonly StoreInterface $store,
+            private readonly string $source,
+        ) {
+        }
+
+        public function add(VectorDocument|array $documents): void
+        {
+            foreach (is_array($documents) ? $documents : [$documents] as $document) {
+                $document->metadata['source'] ??= $this->source;
+            }
+            $this->store->add($documents);
+        }
+
+        public function query(Vector $vector, array $options = []): iterable
+        {
+            return $this->store->query($vector, $options);
+        }
+    };
+}
+
+/**
+ * Metadata of an indexed log. The content is the original line, so identifiers
+ * that only appear in the context (request_id, trace_id...) can be matched by the tools.
+ */
+function createLogMetadata(array $log, string $category): Metadata
+{
+    return new Metadata([
+        'log_id' => $log['id'],
+        'content' => $log['raw'] ?? $log['message'],
+        'message' => $log['message'],
+        'timestamp' => $log['timestamp'],
+        'level' => strtolower($log['level']),
+        'category' => $category,
+        'channel' => $log['channel'] ?? 'app',
+        'source' => $log['source'] ?? null,
+    ]);
+}
+
+/**
+ * Logs of an uploaded file for the session, or the sample logs.
+ */
+function loadSessionLogs(string $sessionDir, string $sessionId): array
+{
+    $sessionLogsFile = $sessionDir . '/' . $sessionId . '-logs.json';
+
+    // Check for session-specific logs (from upload)
+    if (file_exists($sessionLogsFile)) {
+        return json_decode(file_get_contents($sessionLogsFile), true) ?? [];
+    }
+
+    return loadSampleLogs();
+}
+
+/**
+ * Find a log by id with up to $radius entries before and after it from the same source file.
+ */
+function findLogNeighbours(array $logs, string $id, int $radius): ?array
+{
+    $index = array_search($id, array_column($logs, 'id'), true);
+    if ($index === false) {
+        return null;
+    }
+
+    $source = $logs[$index]['source'] ?? null;
+    $sameSource = static fn (array $log): bool => ($log['source'] ?? null) === $source;
+
+    return [
+        'log' => $logs[$index],
+        'before' => array_values(array_filter(array_slice($logs, max(0, $index - $radius), min($index, $radius)), $sameSource)),
+        'after' => array_values(array_filter(array_slice($logs, $index + 1, $radius), $sameSource)),
+    ];
+}
+
+/**
+ * Filter logs by the /logs query parameters.
+ *
+ * - level, category, source: comma-separated lists, case-insensitive
+ * - id: substring of the log id
+ * - from, to: inclusive timestamp bounds ("Y-m-d H:i:s" or ISO 8601)
+ */
+function filterLogs(array $logs, array $query): array
+{
+    $splitList = static fn (string $value): array => array_filter(array_map(
+        static fn (string $item): string => strtolower(trim($item)),
+        explode(',', $value)
+    ));
+
+    $levels = $splitList($query['level'] ?? '');
+    $categories = $splitList($query['category'] ?? '');
+    $sources = $splitList($query['source'] ?? '');
+    $id = strtolower(trim($query['id'] ?? ''));
+    $from = !empty($query['from']) ? strtotime($query['from']) : null;
+    $to = !empty($query['to']) ? strtotime($query['to']) : null;
+
+    return array_values(array_filter($logs, static function (array $log) use ($levels, $categories, $sources, $id, $from, $to): bool {
+        if ($levels !== [] && !in_array(strtolower($log['level'] ?? ''), $levels, true)) {
+            return false;
+        }
+        if ($categories !== [] && !in_array(strtolower($log['category'] ?? ''), $categories, true)) {
+            return false;
+        }
+        if ($sources !== [] && !in_array(strtolower($log['source'] ?? ''), $sources, true)) {
+            return false;
+        }
+        if ($id !== '' && !str_contains(strtolower($log['id'] ?? ''), $id)) {
+            return false;
+        }
+        if ($from !== null || $to !== null) {
+            $time = strtotime($log['timestamp'] ?? '');
+            if ($time === false || ($from && $time < $from) || ($to && $time > $to)) {
+                return false;
+            }
+        }
+
+        return true;
+    }));
+}
+
+/**
+ * Bucket logs by timestamp, with per-level counts in each bucket.
+ *
+ * The range spans $from..$to when given (a zoomed-in view), otherwise the
+ * oldest to the newest log. Returns null when no log has a readable timestamp.
+ */
+function buildLogHistogram(array $logs, int $bucketCount, ?string $from = null, ?string $to = null): ?array
+{
+    $times = [];
+    foreach ($logs as $i => $log) {
+        $time = strtotime($log['timestamp'] ?? '');
+        if ($time !== false) {
+            $times[$i] = $time;
+        }
+    }
+    if ($times === []) {
+        return null;
+    }
+
+    $start = !empty($from) ? strtotime($from) : min($times);
+    $end = !empty($to) ? strtotime($to) : max($times);
+    $bucketSeconds = max(1, (int) ceil(($end - $start + 1) / $bucketCount));
+
+    $buckets = [];
+    for ($bucketStart = $start; $bucketStart <= $end && count($buckets) < $bucketCount; $bucketStart += $bucketSeconds) {
+        $buckets[] = ['start' => date('Y-m-d H:i:s', $bucketStart), 'counts' => []];
+    }
+    foreach ($times as $i => $time) {
+        $index = intdiv($time - $start, $bucketSeconds);
+        if ($time < $start || !isset($buckets[$index])) {
+            continue;
+        }
+        $level = strtoupper($logs[$i]['level'] ?? 'INFO');
+        $buckets[$index]['counts'][$level] = ($buckets[$index]['counts'][$level] ?? 0) + 1;
+    }
+
+    return [
+        'from' => date('Y-m-d H:i:s', $start),
+        'to' => date('Y-m-d H:i:s', $end),
+        'bucket_seconds' => $bucketSeconds,
+        'buckets' => $buckets,
+    ];
+}
+
+/**
+ * Count logs per value of $field, most frequent first.
+ */
+function countBy(array $logs, string $field): array
+{
+    $counts = [];
+    foreach ($logs as $log) {
+        $value = (string) ($log[$field] ?? 'unknown');
+        $counts[$value] = ($counts[$value] ?? 0) + 1;
+    }
+    arsort($counts);
+
+    return $counts;
+}
+
+/**
+ * Start background indexing of an uploaded file and answer with the initial status.
+ *
+ * With $append the file is added to the logs already in the session instead of replacing them.
+ */
+function startUploadIndexing(
+    string $targetPath,
+    string $sessionId,
+    string $platform,
+    string $brainModel,
+    string $embeddingModel,
+    string $apiKey,
+    string $ollamaHost,
+    string $sessionDir,
+    string $source = '',
+    bool $append = false
+): void {
+    $statusFile = $sessionDir . '/' . $sessionId . '-init.json';
+    $baseStatus = [
+        'storage' => 'in-memory',
+        'session_id' => $sessionId,
+        'brain_model' => $brainModel,
+        'embedding_model' => $embeddingModel,
+        'file_name' => basename($targetPath),
+    ];
+    $reportProgress = createProgressReporter($statusFile, $baseStatus);
+    $reportProgress('parsing', 0, 0, 'Upload received, parsing log file...');
+
+    // Answer right away; the client polls /init-status while indexing runs
+    finishResponse(readInitStatus($statusFile));
+
+    try {
+        processUploadedFile(
+            $targetPath,
+            $sessionId,
+            $platform,
+            $brainModel,
+            $embeddingModel,
+            $apiKey,
+            $ollamaHost,
+            $sessionDir,
+            $source,
+            $append,
+            $reportProgress
+        );
+    } catch (Throwable $e) {
+        error_log("[upload] Processing failed: " . $e->getMessage());
+        writeFailedStatus($statusFile, $baseStatus, $e, 'Failed to process log file: ');
+    }
+}
+
+/**
+ * Upload ids come from the client, keep them safe for use in file names.
+ */
+function sanitizeUploadId(string $uploadId): string
+{
+    return substr(preg_replace('/[^a-zA-Z0-9_-]/', '_', $uploadId), 0, 128);
+}
+
+/**
+ * List the chunks already received for an upload, so the client can resume.
+ */
+function getChunkedUploadStatus(string $uploadDir, string $uploadId): array
+{
+    $received = [];
+    $receivedBytes = 0;
+    foreach (glob($uploadDir . '/' . $uploadId . '.chunks/*.part') ?: [] as $chunkFile) {
+        $received[] = (int) basename($chunkFile, '.part');
+        $receivedBytes += filesize($chunkFile);
+    }
+    sort($received);
+
+    return [
+        'upload_id' => $uploadId,
+        'received_chunks' => $received,
+        'received_bytes' => $receivedBytes,
+    ];
+}
+
+/**
+ * Concatenate all chunks into $targetPath.
+ *
+ * @return int[] Indexes of missing chunks; empty when the file was assembled
+ */
+function assembleChunkedUpload(
+    string $uploadDir,
+    string $uploadId,
+    int $totalChunks,
+    int $fileSize,
+    string $targetPath
+): array {
+    $chunkDir = $uploadDir . '/' . $uploadId . '.chunks';
+    $missing = [];
+    for ($i = 0; $i < $totalChunks; $i++) {
+        if (!file_exists($chunkDir . '/' . $i . '.part')) {
+            $missing[] = $i;
+        }
+    }
+    if ($totalChunks === 0 || $missing !== []) {
+        return $missing ?: [0];
+    }
+
+    $target = fopen($targetPath, 'wb');
+    for ($i = 0; $i < $totalChunks; $i++) {
+        $chunk = fopen($chunkDir . '/' . $i . '.part', 'rb');
+        stream_copy_to_stream($chunk, $target);
+        fclose($chunk);
+    }
+    fclose($target);
+
+    $assembledSize = filesize($targetPath);
+    if ($fileSize > 0 && $assembledSize !== $fileSize) {
+        unlink($targetPath);
+        throw new RuntimeException(sprintf('Assembled file is %d bytes, expected %d', $assembledSize, $fileSize));
+    }
+
+    error_log("[upload] Assembled {$totalChunks} chunks into {$targetPath} ({$assembledSize} bytes)");
+    removeChunkedUpload($uploadDir, $uploadId);
+
+    return [];
+}
+
+function removeChunkedUpload(string $uploadDir, string $uploadId): void
+{
+    $chunkDir = $uploadDir . '/' . $uploadId . '.chunks';
+    foreach (glob($chunkDir . '/*') ?: [] as $file) {
+        unlink($file);
+    }
+    if (is_dir($chunkDir)) {
+        rmdir($chunkDir);
+    }
+}
+
+/**
+ * Platforms with their capabilities and models, as PlatformCatalog describes them.
+ *
+ * Ollama models also say whether they are pulled on $ollamaHost (`installed`, null
+ * for the other platforms), and models pulled there that the catalog does not
+ * know are listed too.
+ */
+function buildPlatformCatalog(string $ollamaHost): array
+{
+    $platforms = [];
+    $ollama = null;
+
+    foreach (PlatformEnum::cases() as $platformEnum) {
+        try {
+            $platformInstance = PlatformEnum::OLLAMA === $platformEnum
+                ? LogDocumentPlatformFactory::createBrainPlatform($platformEnum, ['host' => $ollamaHost])->getPlatform()
+                : null;
+            $entry = PlatformCatalog::describe($platformEnum, $platformInstance);
+        } catch (Throwable $e) {
+            error_log("[platforms] Cannot describe {$platformEnum->name}: " . $e->getMessage());
+            continue;
+        }
+
+        $installed = null;
+        if (PlatformEnum::OLLAMA === $platformEnum) {
+            try {
+                $installed = (new OllamaModelDiscovery())->listInstalledModels($ollamaHost);
+                $ollama = ['host' => $ollamaHost, 'reachable' => true, 'installed' => $installed, 'error' => null];
+            } catch (RuntimeException $e) {
+                error_log("[platforms] " . $e->getMessage());
+                $ollama = ['host' => $ollamaHost, 'reachable' => false, 'installed' => [], 'error' => $e->getMessage()];
+            }
+
+            foreach ($installed ?? [] as $name) {
+                $model = preg_replace('/:latest$/', '', $name);
+                if (in_array($model, $entry['brain_models'], true) || in_array($model, $entry['embedding_models'], true)) {
+                    continue;
+                }
+                // /api/tags does not say what a model does; embedding models are named after it
+                $kind = preg_match('/embed|minilm|bge/i', $model) ? 'embedding_models' : 'brain_models';
+                $entry[$kind][] = $model;
+            }
+        }
+
+        $describeModels = static fn (array $names): array => array_map(
+            static fn (string $name): array => [
+                'name' => $name,
+                'installed' => $installed === null ? null : OllamaModelDiscovery::isInstalled($name, $installed),
+            ],
+            $names
+        );
+        $entry['brain_models'] = $describeModels($entry['brain_models']);
+        $entry['embedding_models'] = $describeModels($entry['embedding_models']);
+        $platforms[] = $entry;
+    }
+
+    return ['platforms' => $platforms, 'ollama' => $ollama];
+}
+
 /**
  * Get platform enum from string
  */
@@ -335,16 +1151,21 @@ function getPlatformEnum(string $platform): PlatformEnum
 }
 
 /**
- * Get platform configuration
+ * Get platform configuration, counting the tokens used in $tracker when given
  */
-function getPlatformConfig(string $platform, string $brainModel, string $apiKey, string $ollamaHost): array
-{
+function getPlatformConfig(
+    string $platform,
+    string $brainModel,
+    string $apiKey,
+    string $ollamaHost,
+    ?TokenUsageTracker $tracker = null
+): array {
     $clientOptions = [
         'timeout' => 120,
         'max_duration' => 120,
     ];
 
-    return match ($platform) {
+    $config = match ($platform) {
         'openai' => [
             'provider' => 'openai',
             'api_key' => $apiKey,
@@ -386,6 +1207,12 @@ function getPlatformConfig(string $platform, string $brainModel, string $apiKey,
         ],
         default => throw new InvalidArgumentException("Unsupported platform: {$platform}"),
     };
+
+    if ($tracker !== null) {
+        $config['usage_tracker'] = $tracker;
+    }
+
+    return $config;
 }
 
 /**
@@ -396,7 +1223,8 @@ function createEmbeddingPlatform(
     string $platform,
     string $embeddingModel,
     string $apiKey,
-    string $ollamaHost
+    string $ollamaHost,
+    ?TokenUsageTracker $tracker = null
 ): ?LogDocumentPlatformInterface {
     error_log("[createEmbeddingPlatform] platform={$platform} model={$embeddingModel}");
 
@@ -411,11 +1239,11 @@ function createEmbeddingPlatform(
         $result = match ($platform) {
             'ollama' => LogDocumentPlatformFactory::createEmbeddingPlatform(
                 PlatformEnum::OLLAMA,
-                ['host' => $ollamaHost, 'model' => $embeddingModel]
+                ['host' => $ollamaHost, 'model' => $embeddingModel, 'usage_tracker' => $tracker]
             ),
             'openai' => !empty($apiKey) ? LogDocumentPlatformFactory::createEmbeddingPlatform(
                 PlatformEnum::OPENAI,
-                ['api_key' => $apiKey, 'model' => $embeddingModel]
+                ['api_key' => $apiKey, 'model' => $embeddingModel, 'usage_tracker' => $tracker]
             ) : null,
             default => null,
         };
@@ -522,11 +1350,14 @@ function parseLogLine(string $line, string $defaultCategory, int $logId): ?array
     }
 
     $context = [];
+    $extra = [];
     $message = $messageWithContext;
     if (preg_match('/^(.+?)\s*(\{.+\})\s*(\[.+\])?$/', $messageWithContext, $msgMatches)) {
         $message = trim($msgMatches[1]);
         $contextJson = $msgMatches[2] ?? '{}';
         $context = json_decode($contextJson, true) ?? [];
+        // Monolog prints the record's extra after the context
+        $extra = json_decode($msgMatches[3] ?? '[]', true) ?? [];
     }
 
     // Auto-detect category from content
@@ -541,13 +1372,33 @@ function parseLogLine(string $line, string $defaultCategory, int $logId): ?array
         'channel' => $channel,
         'category' => $category,
         'context' => $context,
+        'extra' => $extra,
+    ];
+}
+
+/**
+ * Shape a parsed line as returned by /logs, keeping everything the detail view shows.
+ */
+function toLogEntry(array $parsed, string $category, string $source): array
+{
+    return [
+        'id' => $parsed['log_id'],
+        'level' => strtoupper($parsed['level']),
+        'message' => $parsed['message'],
+        'timestamp' => $parsed['timestamp'],
+        'category' => $category,
+        'channel' => $parsed['channel'],
+        'context' => $parsed['context'],
+        'extra' => $parsed['extra'],
+        'raw' => $parsed['content'],
+        'source' => $source,
     ];
 }
 
 /**
  * Load sample logs for API response
  */
-function loadSampleLogs(): array
+function loadSampleLogs(?callable $onProgress = null): array
 {
     $fixturesDir = __DIR__ . '/../test/fixtures/logs';
     $logFiles = [
@@ -561,27 +1412,28 @@ function loadSampleLogs(): array
         'laravel-info' => 'laravel.log',
     ];
 
-    $logs = [];
-    $logId = 1;
-
+    $linesByCategory = [];
     foreach ($logFiles as $category => $filename) {
         $filePath = $fixturesDir . '/' . $filename;
-        if (!file_exists($filePath)) {
-            continue;
+        if (file_exists($filePath)) {
+            $linesByCategory[$category] = file($filePath, FILE_IGNORE_NEW_LINES | FILE_SKIP_EMPTY_LINES);
         }
+    }
+    $totalLines = array_sum(array_map('count', $linesByCategory));
 
-        $lines = file($filePath, FILE_IGNORE_NEW_LINES | FILE_SKIP_EMPTY_LINES);
+    $logs = [];
+    $logId = 1;
+    $linesRead = 0;
+
+    foreach ($linesByCategory as $category => $lines) {
         foreach ($lines as $line) {
+            ++$linesRead;
+            if ($onProgress !== null) {
+                $onProgress('parsing', $linesRead, $totalLines);
+            }
             $parsed = parseLogLine($line, $category, $logId);
             if ($parsed) {
-                $logs[] = [
-                    'id' => $parsed['log_id'],
-                    'level' => strtoupper($parsed['level']),
-                    'message' => $parsed['message'],
-                    'timestamp' => $parsed['timestamp'],
-                    'category' => $category,
-                    'context' => $parsed['context'],
-                ];
+                $logs[] = toLogEntry($parsed, $category, $logFiles[$category]);
                 $logId++;
             }
         }
@@ -592,6 +1444,10 @@ function loadSampleLogs(): array
 
 /**
  * Process uploaded log file using the indexer
+ *
+ * Every entry is tagged with $source (the file name by default). With $append the
+ * entries are added to the logs already uploaded in the session and only they are
+ * embedded; otherwise they replace the session logs and the whole index is rebuilt.
  */
 function processUploadedFile(
     string $filePath,
@@ -601,36 +1457,43 @@ function processUploadedFile(
     string $embeddingModel,
     string $apiKey,
     string $ollamaHost,
-    string $sessionDir
+    string $sessionDir,
+    string $source = '',
+    bool $append = false,
+    ?callable $onProgress = null
 ): array {
+    $onProgress ??= static function (): void {
+    };
     $startTime = microtime(true);
     error_log("=== UPLOAD: Processing file ===");
-    error_log("[upload] file={$filePath} session={$sessionId} platform={$platform} embedding={$embeddingModel}");
+    error_log("[upload] file={$filePath} session={$sessionId} platform={$platform} embedding={$embeddingModel} append=" . ($append ? 'yes' : 'no'));
 
-    // Parse the log file
+    // Logs already uploaded in the session; the sample logs are never appended to
+    $logsFile = $sessionDir . '/' . $sessionId . '-logs.json';
+    $existingLogs = $append && file_exists($logsFile)
+        ? json_decode(file_get_contents($logsFile), true) ?? []
+        : [];
+    $source = uniqueSourceName($source !== '' ? $source : basename($filePath), $existingLogs);
+
+    // Parse the log file, numbering ids after the existing logs so they stay unique
     $lines = file($filePath, FILE_IGNORE_NEW_LINES | FILE_SKIP_EMPTY_LINES);
     error_log("[upload] Read " . count($lines) . " lines from file");
-    $logs = [];
-    $logId = 1;
+    $newLogs = [];
+    $logId = count($existingLogs) + 1;
+    $linesRead = 0;
 
     foreach ($lines as $line) {
+        $onProgress('parsing', ++$linesRead, count($lines));
         $parsed = parseLogLine($line, 'general', $logId);
         if ($parsed) {
-            $logs[] = [
-                'id' => $parsed['log_id'],
-                'level' => strtoupper($parsed['level']),
-                'message' => $parsed['message'],
-                'timestamp' => $parsed['timestamp'],
-                'category' => $parsed['category'],
-                'context' => $parsed['context'],
-            ];
+            $newLogs[] = toLogEntry($parsed, $parsed['category'], $source);
             $logId++;
         }
     }
-    error_log("[upload] Parsed " . count($logs) . " log entries from " . count($lines) . " lines");
+    error_log("[upload] Parsed " . count($newLogs) . " log entries from " . count($lines) . " lines (source={$source})");
 
     // Save parsed logs for the session
-    $logsFile = $sessionDir . '/' . $sessionId . '-logs.json';
+    $logs = array_merge($existingLogs, $newLogs);
     file_put_contents($logsFile, json_encode($logs));
     cacheLogsData($logs, $sessionId);
 
@@ -644,106 +1507,127 @@ function processUploadedFile(
     );
     $cacheStore = new CacheStore($cacheAdapter);
     $cacheStore->setup();
-    $vectorStore = new VectorLogDocumentStore($cacheStore);
-    // drop() clears the entire cache namespace; re-save logs_data afterwards
-    error_log("[upload] Dropping old cache and re-saving logs_data");
-    $cacheStore->drop();
+    $keepIndex = true;
+    $tracker = new TokenUsageTracker();
+
+    if ($existingLogs !== []) {
+        // Only the new logs are embedded, next to the documents already in the index
+        $indexedWith = appendLogsToIndex($cacheAdapter, $cacheStore, $newLogs, $platform, $embeddingModel, $apiKey, $ollamaHost, $onProgress, $tracker);
+        $useIndexer = $indexedWith !== null && $indexedWith !== 'category_fallback';
+        // Without a reusable index, the stale hash makes the next chat re-index every log
+        $keepIndex = $indexedWith !== null;
+    } else {
+        // The indexer embeds a batch of chunks, then stores it: count stored chunks as embedding progress
+        $expectedChunks = max(1, (int) ceil(filesize($filePath) / (500 - 100)));
+        $vectorStore = new VectorLogDocumentStore(createProgressStore(
+            createSourceStore($cacheStore, $source),
+            static fn (int $stored) => $onProgress('embedding', $stored, max($stored, $expectedChunks))
+        ));
+        // drop() clears the entire cache namespace; re-save logs_data afterwards
+        error_log("[upload] Dropping old cache and re-saving logs_data");
+        $cacheStore->drop();
 
-    $logsDataItem = $cacheAdapter->getItem('logs_data');
-    $logsDataItem->set($logs);
-    $cacheAdapter->save($logsDataItem);
+        $logsDataItem = $cacheAdapter->getItem('logs_data');
+        $logsDataItem->set($logs);
+        $cacheAdapter->save($logsDataItem);
 
-    // If embedding platform is available, use the indexer
-    // Otherwise, use simple category-based vectors
-    $useIndexer = false;
+        // If embedding platform is available, use the indexer
+        // Otherwise, use simple category-based vectors
+        $useIndexer = false;
 
-    try {
-        if ($platform === 'ollama') {
-            // Try to use Ollama embedding
-            error_log("[upload] Creating Ollama embedding platform: model={$embeddingModel} host={$ollamaHost}");
-            $embeddingPlatform = LogDocumentPlatformFactory::createEmbeddingPlatform(
-                PlatformEnum::OLLAMA,
-                [
-                    'host' => $ollamaHost,
-                    'model' => $embeddingModel,
-                ]
-            );
-            error_log("[upload] Ollama embedding platform created successfully");
-
-            $indexer = new LogFileIndexer(
-                embeddingPlatform: $embeddingPlatform->getPlatform(),
-                model: $embeddingModel,
-                logStore: $vectorStore,
-                chunkSize: 500,
-                chunkOverlap: 100
-            );
+        try {
+            if ($platform === 'ollama') {
+                // Try to use Ollama embedding
+                error_log("[upload] Creating Ollama embedding platform: model={$embeddingModel} host={$ollamaHost}");
+                $embeddingPlatform = LogDocumentPlatformFactory::createEmbeddingPlatform(
+                    PlatformEnum::OLLAMA,
+                    [
+                        'host' => $ollamaHost,
+                        'model' => $embeddingModel,
+                        'usage_tracker' => $tracker,
+                    ]
+                );
+                error_log("[upload] Ollama embedding platform created successfully");
+
+                $indexer = new LogFileIndexer(
+                    embeddingPlatform: $embeddingPlatform->getPlatform(),
+                    model: $embeddingModel,
+                    logStore: $vectorStore,
+                    chunkSize: 500,
+                    chunkOverlap: 100
+                );
 
-            error_log("[upload] Indexing file with LogFileIndexer using {$embeddingModel}...");
-            $indexStartTime = microtime(true);
-            $indexer->indexLogFiles([$filePath]);
-            $indexDuration = round((microtime(true) - $indexStartTime) * 1000);
-            error_log("[upload] LogFileIndexer completed in {$indexDuration}ms");
-            $useIndexer = true;
-        } elseif ($platform === 'openai' && !empty($apiKey)) {
-            // Use OpenAI embedding
-            error_log("[upload] Creating OpenAI embedding platform: model={$embeddingModel}");
-            $embeddingPlatform = LogDocumentPlatformFactory::createEmbeddingPlatform(
-                PlatformEnum::OPENAI,
-                [
-                    'api_key' => $apiKey,
-                    'model' => $embeddingModel,
-                ]
-            );
-            error_log("[upload] OpenAI embedding platform created successfully");
-
-            $indexer = new LogFileIndexer(
-                embeddingPlatform: $embeddingPlatform->getPlatform(),
-                model: $embeddingModel,
-                logStore: $vectorStore,
-                chunkSize: 500,
-                chunkOverlap: 100
-            );
+                error_log("[upload] Indexing file with LogFileIndexer using {$embeddingModel}...");
+                $indexStartTime = microtime(true);
+                $indexer->indexLogFiles([$filePath]);
+                $indexDuration = round((microtime(true) - $indexStartTime) * 1000);
+                error_log("[upload] LogFileIndexer completed in {$indexDuration}ms");
+                $useIndexer = true;
+            } elseif ($platform === 'openai' && !empty($apiKey)) {
+                // Use OpenAI embedding
+                error_log("[upload] Creating OpenAI embedding platform: model={$embeddingModel}");
+                $embeddingPlatform = LogDocumentPlatformFactory::createEmbeddingPlatform(
+                    PlatformEnum::OPENAI,
+                    [
+                        'api_key' => $apiKey,
+                        'model' => $embeddingModel,
+                        'usage_tracker' => $tracker,
+                    ]
+                );
+                error_log("[upload] OpenAI embedding platform created successfully");
+
+                $indexer = new LogFileIndexer(
+                    embeddingPlatform: $embeddingPlatform->getPlatform(),
+                    model: $embeddingModel,
+                    logStore: $vectorStore,
+                    chunkSize: 500,
+                    chunkOverlap: 100
+                );
 
-            error_log("[upload] Indexing file with LogFileIndexer using {$embeddingModel}...");
-            $indexStartTime = microtime(true);
-            $indexer->indexLogFiles([$filePath]);
-            $indexDuration = round((microtime(true) - $indexStartTime) * 1000);
-            error_log("[upload] LogFileIndexer completed in {$indexDuration}ms");
-            $useIndexer = true;
+                error_log("[upload] Indexing file with LogFileIndexer using {$embeddingModel}...");
+                $indexStartTime = microtime(true);
+                $indexer->indexLogFiles([$filePath]);
+                $indexDuration = round((microtime(true) - $indexStartTime) * 1000);
+                error_log("[upload] LogFileIndexer completed in {$indexDuration}ms");
+                $useIndexer = true;
+            }
+        } catch (Throwable $e) {
+            error_log("[upload] Indexer failed, falling back to simple vectors: " . $e->getMessage());
+            $useIndexer = false;
         }
-    } catch (Throwable $e) {
-        error_log("[upload] Indexer failed, falling back to simple vectors: " . $e->getMessage());
-        $useIndexer = false;
-    }
 
-    // If indexer failed, use simple category-based vectors
-    if (!$useIndexer) {
-        error_log("[upload] Using category-based fallback vectors for " . count($logs) . " logs");
-        $categoryVectors = getCategoryVectors();
+        // If indexer failed, use simple category-based vectors
+        if (!$useIndexer) {
+            error_log("[upload] Using category-based fallback vectors for " . count($logs) . " logs");
+            $onProgress('embedding', count($logs), count($logs), 'No embedding model available, using category vectors...');
+            $categoryVectors = getCategoryVectors();
+            $storedCount = 0;
 
-        foreach ($logs as $log) {
-            $category = $log['category'] ?? 'general';
-            $vector = new Vector($categoryVectors[$category] ?? $categoryVectors['general']);
-            $metadata = new Metadata([
-                'log_id' => $log['id'],
-                'content' => $log['message'],
-                'message' => $log['message'],
-                'timestamp' => $log['timestamp'],
-                'level' => strtolower($log['level']),
-                'category' => $category,
-            ]);
-            $document = new VectorDocument(Uuid::v4(), $vector, $metadata);
-            $cacheStore->add($document);
+            foreach ($logs as $log) {
+                $category = $log['category'] ?? 'general';
+                $vector = new Vector($categoryVectors[$category] ?? $categoryVectors['general']);
+                $metadata = createLogMetadata($log, $category);
+                $document = new VectorDocument(Uuid::v4(), $vector, $metadata);
+                $cacheStore->add($document);
+                $onProgress('storing', ++$storedCount, count($logs));
+            }
+            error_log("[upload] Fallback indexing complete");
         }
-        error_log("[upload] Fallback indexing complete");
+
     }
 
-    // Persist logs hash so chat can reuse the existing store
-    $logsHash = sha1(json_encode($logs));
-    $hashItem = $cacheAdapter->getItem('logs_hash');
-    $hashItem->set($logsHash);
-    $cacheAdapter->save($hashItem);
-    error_log("[upload] Cache hash saved: {$logsHash}");
+    // Persist logs hash and embedding model so chat and later appends can reuse the existing store
+    if ($keepIndex) {
+        $logsHash = sha1(json_encode($logs));
+        $hashItem = $cacheAdapter->getItem('logs_hash');
+        $hashItem->set($logsHash);
+        $cacheAdapter->save($hashItem);
+        $usedModel = $useIndexer ? $embeddingModel : 'category_fallback';
+        $modelItem = $cacheAdapter->getItem('embedding_model');
+        $modelItem->set($usedModel);
+        $cacheAdapter->save($modelItem);
+        error_log("[upload] Cache saved: hash={$logsHash} model={$usedModel}");
+    }
 
     // Save store state for later use
     $storeFile = $sessionDir . '/' . $sessionId . '-store.json';
@@ -757,23 +1641,108 @@ function processUploadedFile(
 
     // Save init status
     $statusFile = $sessionDir . '/' . $sessionId . '-init.json';
+    $sources = countBy($logs, 'source');
     $result = [
         'initialized' => true,
         'status' => 'ready',
-        'message' => 'Ready! ' . count($logs) . ' logs indexed from uploaded file.',
+        'message' => $existingLogs !== []
+            ? sprintf('Ready! %d logs added from %s, %d logs from %d files in total.', count($newLogs), $source, count($logs), count($sources))
+            : 'Ready! ' . count($logs) . ' logs indexed from uploaded file.',
         'progress' => 100,
         'logs_count' => count($logs),
+        'added_count' => count($newLogs),
+        'source' => $source,
+        'sources' => $sources,
         'storage' => 'in-memory',
         'session_id' => $sessionId,
         'brain_model' => $brainModel,
         'embedding_model' => $embeddingModel,
         'indexed_with_embeddings' => $useIndexer,
+        'usage' => $tracker->getUsage(),
         'duration_ms' => $duration,
         'file_name' => basename($filePath),
+        'phase' => 'done',
     ];
-    file_put_contents($statusFile, json_encode($result));
+    writeInitStatus($statusFile, $result);
+
+    return $result;
+}
+
+/**
+ * Name of a file attached to a session: without commas (they separate /logs filter
+ * values), and suffixed when another file of the session already uses it.
+ */
+function uniqueSourceName(string $name, array $logs): string
+{
+    $name = substr(trim(preg_replace('/[,\x00-\x1F]+/', ' ', $name)), 0, 100);
+    $name = $name !== '' ? $name : 'upload.log';
+    $taken = array_flip(array_map('strval', array_column($logs, 'source')));
+
+    $candidate = $name;
+    for ($i = 2; isset($taken[$candidate]); ++$i) {
+        $candidate = "{$name} ({$i})";
+    }
+
+    return $candidate;
+}
+
+/**
+ * Add $newLogs to the session's existing index, vectorized the way createToolContext()
+ * built it (same embedding model, or category vectors).
+ *
+ * Returns the model the index was built with, or null when there is no index to
+ * extend yet (or it was built with another embedding model). Embedding tokens are
+ * counted in $tracker.
+ */
+function appendLogsToIndex(
+    FilesystemAdapter $cacheAdapter,
+    StoreInterface $store,
+    array $newLogs,
+    string $platform,
+    string $embeddingModel,
+    string $apiKey,
+    string $ollamaHost,
+    callable $onProgress,
+    TokenUsageTracker $tracker
+): ?string {
+    $modelItem = $cacheAdapter->getItem('embedding_model');
+    $indexedWith = $modelItem->isHit() ? $modelItem->get() : '';
+    if ($indexedWith !== 'category_fallback' && ($indexedWith === '' || $indexedWith !== $embeddingModel)) {
+        error_log("[upload][append] No reusable index (model=" . ($indexedWith ?: '(none)') . "), next chat re-indexes all logs");
+
+        return null;
+    }
+
+    try {
+        $vectorizer = null;
+        if ($indexedWith !== 'category_fallback') {
+            $embeddingPlatform = createEmbeddingPlatform($platform, $embeddingModel, $apiKey, $ollamaHost, $tracker);
+            if ($embeddingPlatform === null) {
+                return null;
+            }
+            $vectorizer = \Hakam\AiLogInspector\Vectorizer\VectorizerFactory::create(
+                $embeddingPlatform->getPlatform(),
+                $embeddingModel
+            );
+        }
+
+        $categoryVectors = getCategoryVectors();
+        foreach ($newLogs as $i => $log) {
+            $category = $log['category'] ?? 'general';
+            $vector = $vectorizer !== null
+                ? $vectorizer->vectorize(($log['message'] ?? '') . ' [' . strtolower($log['level'] ?? '') . '] [' . $category . ']')
+                : new Vector($categoryVectors[$category] ?? $categoryVectors['general']);
+            $store->add(new VectorDocument(Uuid::v4(), $vector, createLogMetadata($log, $category)));
+            $onProgress('embedding', $i + 1, count($newLogs));
+        }
+    } catch (Throwable $e) {
+        error_log("[upload][append] Incremental indexing failed: " . $e->getMessage());
 
-    return $result;
+        return null;
+    }
+    error_log("[upload][append] Indexed " . count($newLogs) . " new logs, model={$indexedWith}");
+
+    return $indexedWith;
 }
 
 /**
@@ -859,6 +1828,224 @@ function handleChat(
     error_log("[chat] session={$sessionId} platform={$platform} brain={$brainModel} embedding={$embeddingModel}");
     error_log("[chat] question: {$question}");
 
+    ['chat' => $chat, 'logs' => $allLogs, 'recorder' => $recorder, 'tracker' => $tracker] = createChatSession(
+        $sessionId,
+        $platform,
+        $brainModel,
+        $embeddingModel,
+        $apiKey,
+        $ollamaHost,
+        $sessionDir
+    );
+
+    // Send question and get response
+    error_log("[chat][agent] Sending question to agent...");
+    $agentStartTime = microtime(true);
+    $response = $chat->ask($question);
+    $content = $response->getContent();
+    $agentDuration = round((microtime(true) - $agentStartTime) * 1000);
+    error_log(sprintf(
+        "[chat][agent] Response received: length=%d chars, time=%dms",
+        strlen($content),
+        $agentDuration
+    ));
+    error_log("[chat][agent] Response preview: " . substr(preg_replace('/\s+/', ' ', $content), 0, 200) . "...");
+
+    // Extract evidence logs from the response
+    $evidenceLogs = extractEvidenceLogs($content, $allLogs);
+    error_log("[chat][evidence] Extracted " . count($evidenceLogs) . " evidence logs from response");
+    error_log("[chat][tools] " . count($recorder->getCalls()) . " tool calls recorded");
+    $usage = $tracker->getUsage();
+    error_log("[chat][usage] {$usage['total_tokens']} tokens in {$usage['calls']} platform calls");
+
+    $duration = round((microtime(true) - $startTime) * 1000);
+    error_log(sprintf(
+        "[chat] Request complete: total=%dms agent=%dms session=%s",
+        $duration,
+        $agentDuration,
+        $sessionId
+    ));
+
+    return [
+        'success' => true,
+        'content' => $content,
+        'evidence_logs' => $evidenceLogs,
+        'tool_calls' => $recorder->getCalls(),
+        'usage' => $usage,
+        'duration_ms' => $duration,
+        'model' => $brainModel,
+        'embedding_model' => $embeddingModel,
+        'platform' => $platform,
+        'session_id' => $sessionId,
+    ];
+}
+
+/**
+ * Answer a question with another brain model than the session's, for side-by-side comparison.
+ *
+ * The index (and so the evidence the tools can find) is the session's one; only the model
+ * reasoning over it changes. The conversation is a throwaway one: the question is not added
+ * to the session history and no previous turn is sent along.
+ */
+function handleCompare(
+    string $sessionId,
+    string $question,
+    string $platform,
+    string $brainModel,
+    string $embeddingModel,
+    string $apiKey,
+    string $ollamaHost,
+    string $sessionDir,
+    string $candidatePlatform,
+    string $candidateModel,
+    string $candidateApiKey,
+    string $candidateOllamaHost
+): array {
+    $startTime = microtime(true);
+    error_log("=== COMPARE REQUEST ===");
+    error_log("[compare] session={$sessionId} candidate={$candidatePlatform}/{$candidateModel} index={$platform}/{$embeddingModel}");
+
+    $tracker = new TokenUsageTracker();
+    $context = createToolContext($sessionId, $platform, $brainModel, $embeddingModel, $apiKey, $ollamaHost, $sessionDir, $tracker);
+    $candidateBrain = LogDocumentPlatformFactory::create(
+        getPlatformConfig($candidatePlatform, $candidateModel, $candidateApiKey, $candidateOllamaHost, $tracker)
+    );
+
+    $recorder = new ToolCallRecorder();
+    $chat = LogInspectorChatFactory::create(
+        $candidateBrain,
+        new LogSearchTool($context['store'], $context['retriever'], $candidateBrain, $recorder),
+        new RequestContextTool($context['store'], $context['retriever'], $candidateBrain, $recorder)
+    );
+
+    $response = $chat->quickAnalysis($question);
+    $content = $response->getContent() ?? '';
+    $duration = round((microtime(true) - $startTime) * 1000);
+    error_log("[compare] {$candidatePlatform}/{$candidateModel} answered in {$duration}ms, " . strlen($content) . " chars");
+
+    return [
+        'success' => true,
+        'content' => $content,
+        'evidence_logs' => extractEvidenceLogs($content, $context['logs']),
+        'tool_calls' => $recorder->getCalls(),
+        'usage' => $tracker->getUsage(),
+        'duration_ms' => $duration,
+        'model' => $candidateModel,
+        'embedding_model' => $embeddingModel,
+        'platform' => $candidatePlatform,
+        'session_id' => $sessionId,
+    ];
+}
+
+/**
+ * Root cause of $logs in the words of the brain model, asked once with the prompt
+ * LogSearchTool uses to explain the logs it found.
+ */
+function handleAnalyze(array $logs, string $platform, string $brainModel, string $apiKey, string $ollamaHost): array
+{
+    $startTime = microtime(true);
+    error_log("[analyze] " . count($logs) . " logs, model={$platform}/{$brainModel}");
+
+    $tracker = new TokenUsageTracker();
+    $brainPlatform = LogDocumentPlatformFactory::create(getPlatformConfig($platform, $brainModel, $apiKey, $ollamaHost, $tracker));
+    $result = $brainPlatform->__invoke(LogSearchTool::ANALYSIS_PROMPT . implode("\n", $logs));
+    $content = is_string($result->getContent()) ? trim($result->getContent()) : '';
+    $duration = round((microtime(true) - $startTime) * 1000);
+    error_log("[analyze] Answered in {$duration}ms, " . strlen($content) . " chars");
+
+    return [
+        'success' => true,
+        'content' => $content,
+        'log_count' => count($logs),
+        'usage' => $tracker->getUsage(),
+        'duration_ms' => $duration,
+        'model' => $brainModel,
+        'platform' => $platform,
+    ];
+}
+
+/**
+ * Index the session logs when needed and build a chat session with the tools.
+ *
+ * @return array{chat: \Hakam\AiLogInspector\Chat\LogInspectorChat, logs: array, recorder: ToolCallRecorder, tracker: TokenUsageTracker}
+ */
+function createChatSession(
+    string $sessionId,
+    string $platform,
+    string $brainModel,
+    string $embeddingModel,
+    string $apiKey,
+    string $ollamaHost,
+    string $sessionDir
+): array {
+    // Counts every token of the answer: agent turns, tool analysis sub-calls and query embeddings
+    $tracker = new TokenUsageTracker();
+    $context = createToolContext($sessionId, $platform, $brainModel, $embeddingModel, $apiKey, $ollamaHost, $sessionDir, $tracker);
+    $vectorStore = $context['store'];
+    $retriever = $context['retriever'];
+    $brainPlatform = $context['platform'];
+    $safeSessionId = preg_replace('/[^a-zA-Z0-9_-]/', '_', $sessionId);
+
+    // Create tools - brain platform is used for analysis/reasoning, retriever for search.
+    // The recorder keeps what each tool call did, returned with the answer as `tool_calls`.
+    $recorder = new ToolCallRecorder();
+    $searchTool = new LogSearchTool($vectorStore, $retriever, $brainPlatform, $recorder);
+    $contextTool = new RequestContextTool($vectorStore, $retriever, $brainPlatform, $recorder);
+    error_log("[chat][tools] LogSearchTool and RequestContextTool created");
+
+    // Create chat with session persistence
+    $chat = LogInspectorChatFactory::createSession(
+        $sessionId,
+        $brainPlatform,
+        $searchTool,
+        $contextTool,
+        $sessionDir
+    );
+    error_log("[chat][session] Chat session created: session={$sessionId} dir={$sessionDir}");
+
+    // Start investigation if new session (check the correct session file path)
+    // SessionMessageStore uses: $storagePath.'/'.$sessionId.'.session.json'
+    $sessionFile = $sessionDir . '/' . $safeSessionId . '.session.json';
+    if (file_exists($sessionFile)) {
+        $sessionSize = @filesize($sessionFile) ?: 0;
+        error_log(sprintf(
+            "[chat][session] Existing session found: file=%s bytes=%d",
+            $sessionFile,
+            $sessionSize
+        ));
+    } else {
+        error_log(sprintf(
+            "[chat][session] No existing session: file=%s (new conversation)",
+            $sessionFile
+        ));
+    }
+
+    if (!file_exists($sessionFile)) {
+        error_log("[chat][session] Starting new investigation");
+        $chat->startInvestigation('Playground investigation - ' . date('Y-m-d H:i:s'));
+        error_log("[chat][session] Investigation started with system prompt");
+    }
+
+    return ['chat' => $chat, 'logs' => $context['logs'], 'recorder' => $recorder, 'tracker' => $tracker];
+}
+
+/**
+ * Index the session logs when needed and build what the tools work on:
+ * the vector store, a retriever using the indexing embedding model and the brain platform.
+ * Tokens used by indexing, retrieval and the brain platform are counted in $tracker when given.
+ *
+ * @return array{store: VectorLogDocumentStore, retriever: LogRetriever, platform: \Hakam\AiLogInspector\Platform\LogDocumentPlatformInterface, logs: array}
+ */
+function createToolContext(
+    string $sessionId,
+    string $platform,
+    string $brainModel,
+    string $embeddingModel,
+    string $apiKey,
+    string $ollamaHost,
+    string $sessionDir,
+    ?TokenUsageTracker $tracker = null
+): array {
     // Use FilesystemAdapter for persistent caching across requests
     global $cacheDir;
     $safeSessionId = preg_replace('/[^a-zA-Z0-9_-]/', '_', $sessionId);
@@ -931,7 +2118,7 @@ function handleChat(
         $indexed = false;
         try {
             error_log("[chat][index] Creating embedding platform: platform={$platform} model={$embeddingModel}");
-            $embeddingPlatform = createEmbeddingPlatform($platform, $embeddingModel, $apiKey, $ollamaHost);
+            $embeddingPlatform = createEmbeddingPlatform($platform, $embeddingModel, $apiKey, $ollamaHost, $tracker);
             if ($embeddingPlatform !== null) {
                 error_log("[chat][index] Embedding platform created, starting vectorization of " . count($allLogs) . " logs");
                 $vectorizer = \Hakam\AiLogInspector\Vectorizer\VectorizerFactory::create(
@@ -958,14 +2145,7 @@ function handleChat(
                             $log['id'] ?? 'unknown'
                         ));
                     }
-                    $metadata = new Metadata([
-                        'log_id' => $log['id'],
-                        'content' => $log['message'],
-                        'message' => $log['message'],
-                        'timestamp' => $log['timestamp'],
-                        'level' => strtolower($log['level']),
-                        'category' => $category,
-                    ]);
+                    $metadata = createLogMetadata($log, $category);
                     $document = new VectorDocument(Uuid::v4(), $vector, $metadata);
                     $cacheStore->add($document);
                 }
@@ -993,14 +2173,7 @@ function handleChat(
             foreach ($allLogs as $log) {
                 $category = $log['category'] ?? 'general';
                 $vector = new Vector($categoryVectors[$category] ?? $categoryVectors['general']);
-                $metadata = new Metadata([
-                    'log_id' => $log['id'],
-                    'content' => $log['message'],
-                    'message' => $log['message'],
-                    'timestamp' => $log['timestamp'],
-                    'level' => strtolower($log['level']),
-                    'category' => $category,
-                ]);
+                $metadata = createLogMetadata($log, $category);
                 $document = new VectorDocument(Uuid::v4(), $vector, $metadata);
                 $cacheStore->add($document);
             }
@@ -1021,7 +2194,7 @@ function handleChat(
 
     // Create brain platform for reasoning/chat
     error_log("[chat][platform] Creating brain platform: provider={$platform} model={$brainModel}");
-    $platformConfig = getPlatformConfig($platform, $brainModel, $apiKey, $ollamaHost);
+    $platformConfig = getPlatformConfig($platform, $brainModel, $apiKey, $ollamaHost, $tracker);
     $brainPlatform = LogDocumentPlatformFactory::create($platformConfig);
     error_log("[chat][platform] Brain platform created successfully");
 
@@ -1029,7 +2202,7 @@ function handleChat(
     // The retriever must use the same embedding model that was used for indexing,
     // so the query vectors match the stored document vectors.
     error_log("[chat][platform] Creating embedding platform for retriever: model={$embeddingModel}");
-    $embeddingPlatform = createEmbeddingPlatform($platform, $embeddingModel, $apiKey, $ollamaHost);
+    $embeddingPlatform = createEmbeddingPlatform($platform, $embeddingModel, $apiKey, $ollamaHost, $tracker);
 
     if ($embeddingPlatform !== null) {
         $retriever = new LogRetriever(
@@ -1048,84 +2221,109 @@ function handleChat(
         error_log("[chat][platform] WARNING: Retriever falling back to brain platform: {$brainModel}");
     }
 
-    // Create tools - brain platform is used for analysis/reasoning, retriever for search
-    $searchTool = new LogSearchTool($vectorStore, $retriever, $brainPlatform);
-    $contextTool = new RequestContextTool($vectorStore, $retriever, $brainPlatform);
-    error_log("[chat][tools] LogSearchTool and RequestContextTool created");
+    return [
+        'store' => $vectorStore,
+        'retriever' => $retriever,
+        'platform' => $brainPlatform,
+        'logs' => $allLogs,
+    ];
+}
 
-    // Create chat with session persistence
-    $chat = LogInspectorChatFactory::createSession(
-        $sessionId,
-        $brainPlatform,
-        $searchTool,
-        $contextTool,
-        $sessionDir
-    );
-    error_log("[chat][session] Chat session created: session={$sessionId} dir={$sessionDir}");
+/**
+ * Handle a streaming chat request.
+ *
+ * Emits Server-Sent Events: `delta` for each chunk of the answer, then `done`
+ * with the same payload as handleChat() (evidence logs, duration_ms...), or
+ * `error` if something failed. Stops early when the client disconnects.
+ */
+function handleChatStream(
+    string $sessionId,
+    string $question,
+    string $platform,
+    string $brainModel,
+    string $embeddingModel,
+    string $apiKey,
+    string $ollamaHost,
+    string $sessionDir
+): void {
+    $startTime = microtime(true);
 
-    // Start investigation if new session (check the correct session file path)
-    // SessionMessageStore uses: $storagePath.'/'.$sessionId.'.session.json'
-    $sessionFile = $sessionDir . '/' . $safeSessionId . '.session.json';
-    if (file_exists($sessionFile)) {
-        $sessionSize = @filesize($sessionFile) ?: 0;
-        error_log(sprintf(
-            "[chat][session] Existing session found: file=%s bytes=%d",
-            $sessionFile,
-            $sessionSize
-        ));
-    } else {
-        error_log(sprintf(
-            "[chat][session] No existing session: file=%s (new conversation)",
-            $sessionFile
-        ));
+    header('Content-Type: text/event-stream');
+    header('Cache-Control: no-cache');
+    header('X-Accel-Buffering: no');
+    while (ob_get_level() > 0) {
+        ob_end_flush();
     }
 
-    if (!file_exists($sessionFile)) {
-        error_log("[chat][session] Starting new investigation");
-        $chat->startInvestigation('Playground investigation - ' . date('Y-m-d H:i:s'));
-        error_log("[chat][session] Investigation started with system prompt");
-    }
+    error_log("=== CHAT STREAM REQUEST ===");
+    error_log("[chat][stream] session={$sessionId} platform={$platform} brain={$brainModel} embedding={$embeddingModel}");
+    error_log("[chat][stream] question: {$question}");
 
-    // Send question and get response
-    error_log("[chat][agent] Sending question to agent...");
-    $agentStartTime = microtime(true);
-    $response = $chat->ask($question);
-    $content = $response->getContent();
-    $agentDuration = round((microtime(true) - $agentStartTime) * 1000);
-    error_log(sprintf(
-        "[chat][agent] Response received: length=%d chars, time=%dms",
-        strlen($content),
-        $agentDuration
-    ));
-    error_log("[chat][agent] Response preview: " . substr(preg_replace('/\s+/', ' ', $content), 0, 200) . "...");
+    try {
+        ['chat' => $chat, 'logs' => $allLogs, 'recorder' => $recorder, 'tracker' => $tracker] = createChatSession(
+            $sessionId,
+            $platform,
+            $brainModel,
+            $embeddingModel,
+            $apiKey,
+            $ollamaHost,
+            $sessionDir
+        );
 
-    // Extract evidence logs from the response
-    $evidenceLogs = extractEvidenceLogs($content, $allLogs);
-    error_log("[chat][evidence] Extracted " . count($evidenceLogs) . " evidence logs from response");
+        sendSseEvent('start', ['session_id' => $sessionId, 'model' => $brainModel]);
 
-    $duration = round((microtime(true) - $startTime) * 1000);
-    error_log(sprintf(
-        "[chat] Request complete: total=%dms agent=%dms session=%s",
-        $duration,
-        $agentDuration,
-        $sessionId
-    ));
+        $content = '';
+        $chunks = 0;
+        foreach ($chat->askStream($question) as $chunk) {
+            if (connection_aborted()) {
+                error_log("[chat][stream] Client disconnected after {$chunks} chunks");
+                return;
+            }
+            $content .= $chunk;
+            ++$chunks;
+            sendSseEvent('delta', ['content' => $chunk]);
+        }
 
-    return [
-        'success' => true,
-        'content' => $content,
-        'evidence_logs' => $evidenceLogs,
-        'duration_ms' => $duration,
-        'model' => $brainModel,
-        'embedding_model' => $embeddingModel,
-        'platform' => $platform,
-        'session_id' => $sessionId,
-    ];
+        $evidenceLogs = extractEvidenceLogs($content, $allLogs);
+        $duration = round((microtime(true) - $startTime) * 1000);
+        error_log("[chat][stream] Stream complete: chunks={$chunks} length=" . strlen($content) . " total={$duration}ms");
+
+        sendSseEvent('done', [
+            'success' => true,
+            'content' => $content,
+            'evidence_logs' => $evidenceLogs,
+            'tool_calls' => $recorder->getCalls(),
+            'usage' => $tracker->getUsage(),
+            'duration_ms' => $duration,
+            'model' => $brainModel,
+            'embedding_model' => $embeddingModel,
+            'platform' => $platform,
+            'session_id' => $sessionId,
+        ]);
+    } catch (Throwable $e) {
+        error_log("[chat][stream] Failed: " . $e->getMessage());
+        sendSseEvent('error', [
+            'error' => $e->getMessage(),
+            'file' => basename($e->getFile()),
+            'line' => $e->getLine(),
+        ]);
+    }
+}
+
+/**
+ * Write a single Server-Sent Event and flush it to the client.
+ */
+function sendSseEvent(string $event, array $data): void
+{
+    echo "event: {$event}\n";
+    echo 'data: ' . json_encode($data) . "\n\n";
+    flush();
 }
 
 /**
  * Pre-index logs into cache for a given session.
  * Uses the embedding platform when available, falls back to category vectors.
+ * Embedding tokens are counted in $tracker when given.
  */
 function indexLogsInCache(
     array $logs,
@@ -1133,8 +2331,12 @@ function indexLogsInCache(
     string $platform = '',
     string $embeddingModel = '',
     string $apiKey = '',
-    string $ollamaHost = 'http://localhost:11434'
+    string $ollamaHost = 'http://localhost:11434',
+    ?callable $onProgress = null,
+    ?TokenUsageTracker $tracker = null
 ): void {
+    $onProgress ??= static function (): void {
+    };
     error_log("[indexLogsInCache] session={$sessionId} logs=" . count($logs) . " platform={$platform} embedding={$embeddingModel}");
     global $cacheDir;
     $safeSessionId = preg_replace('/[^a-zA-Z0-9_-]/', '_', $sessionId);
@@ -1168,6 +2370,7 @@ function indexLogsInCache(
 
     if (!$needsReindex) {
         error_log("[indexLogsInCache] Skipping - already indexed with model={$cachedModel}");
+        $onProgress('storing', count($logs), count($logs), 'Logs already indexed, reusing cached vectors');
         return;
     }
 
@@ -1180,12 +2383,14 @@ function indexLogsInCache(
     $logsDataItem->set($logs);
     $cacheAdapter->save($logsDataItem);
 
-    // Try to use a real embedding platform for proper vectorization
+    // Try to use a real embedding platform for proper vectorization.
+    // Documents are embedded first and stored afterwards so each phase reports its own progress.
     $indexed = false;
+    $documents = [];
     if (!empty($platform) && !empty($embeddingModel)) {
         try {
             error_log("[indexLogsInCache] Creating embedding platform: {$platform}/{$embeddingModel}");
-            $embeddingPlatform = createEmbeddingPlatform($platform, $embeddingModel, $apiKey, $ollamaHost);
+            $embeddingPlatform = createEmbeddingPlatform($platform, $embeddingModel, $apiKey, $ollamaHost, $tracker);
             if ($embeddingPlatform !== null) {
                 $vectorizer = \Hakam\AiLogInspector\Vectorizer\VectorizerFactory::create(
                     $embeddingPlatform->getPlatform(),
@@ -1210,16 +2415,9 @@ function indexLogsInCache(
                             $embedDuration
                         ));
                     }
-                    $metadata = new Metadata([
-                        'log_id' => $log['id'],
-                        'content' => $log['message'],
-                        'message' => $log['message'],
-                        'timestamp' => $log['timestamp'],
-                        'level' => strtolower($log['level']),
-                        'category' => $category,
-                    ]);
-                    $document = new VectorDocument(Uuid::v4(), $vector, $metadata);
-                    $cacheStore->add($document);
+                    $metadata = createLogMetadata($log, $category);
+                    $documents[] = new VectorDocument(Uuid::v4(), $vector, $metadata);
+                    $onProgress('embedding', $vectorizedCount, count($logs));
                 }
                 $indexDuration = round((microtime(true) - $indexStartTime) * 1000);
                 $indexed = true;
@@ -1232,29 +2430,28 @@ function indexLogsInCache(
             }
         } catch (\Throwable $e) {
             error_log("[indexLogsInCache] Embedding failed: " . $e->getMessage());
+            $documents = [];
         }
     }
 
     // Fallback: use simple category-based vectors
     if (!$indexed) {
         error_log("[indexLogsInCache] Fallback: indexing " . count($logs) . " logs with category vectors (5-dim)");
+        $onProgress('embedding', count($logs), count($logs), 'No embedding model available, using category vectors...');
         $categoryVectors = getCategoryVectors();
         foreach ($logs as $log) {
             $category = $log['category'] ?? 'general';
             $vector = new Vector($categoryVectors[$category] ?? $categoryVectors['general']);
-            $metadata = new Metadata([
-                'log_id' => $log['id'],
-                'content' => $log['message'],
-                'message' => $log['message'],
-                'timestamp' => $log['timestamp'],
-                'level' => strtolower($log['level']),
-                'category' => $category,
-            ]);
-            $document = new VectorDocument(Uuid::v4(), $vector, $metadata);
-            $cacheStore->add($document);
+            $metadata = createLogMetadata($log, $category);
+            $documents[] = new VectorDocument(Uuid::v4(), $vector, $metadata);
         }
     }
 
+    foreach ($documents as $i => $document) {
+        $cacheStore->add($document);
+        $onProgress('storing', $i + 1, count($documents));
+    }
+
     // Save hash and embedding model used, so chat handler knows what model was used
     $hashItem = $cacheAdapter->getItem('logs_hash');
     $hashItem->set($logsHash);
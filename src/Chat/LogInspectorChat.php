@@ -12,6 +12,7 @@ use Symfony\AI\Platform\Message\AssistantMessage;
 use Symfony\AI\Platform\Message\Message;
 use Symfony\AI\Platform\Message\MessageBag;
 use Symfony\AI\Platform\Message\UserMessage;
+use Symfony\AI\Platform\Result\StreamResult;
 
 /**
  * Conversational Log Inspector Chat.
@@ -31,6 +32,11 @@ use Symfony\AI\Platform\Message\UserMessage;
  */
 class LogInspectorChat implements ChatInterface
 {
+    /**
+     * Appended to follow-up questions, see prepareQuestion().
+     */
+    public const TOOL_REMINDER = "\n\n(Remember: use the log_search or request_context tool to find log data. Do not output JSON manually.)";
+
     private Chat $chat;
     private bool $initialized = false;
     private int $turnCount = 0;
@@ -91,15 +97,54 @@ class LogInspectorChat implements ChatInterface
             $this->startInvestigation();
         }
 
-        ++$this->turnCount;
+        return $this->chat->submit(Message::ofUser($this->prepareQuestion($question)));
+    }
 
-        // After the first turn, add a tool-calling reminder to help models
-        // like llama3.1 that lose the tool-calling format in longer conversations
-        if ($this->turnCount > 1) {
-            $question .= "\n\n(Remember: use the log_search or request_context tool to find log data. Do not output JSON manually.)";
+    /**
+     * Ask a question and stream the answer as it is generated.
+     *
+     * Yields the text chunks of the assistant response. Once the stream is
+     * fully consumed, the complete answer is appended to the conversation
+     * history, exactly like ask() does.
+     *
+     * @param string $question The question to ask
+     *
+     * @return \Generator<int, string, mixed, AssistantMessage> Text chunks; returns the complete response
+     */
+    public function askStream(string $question): \Generator
+    {
+        if (!$this->initialized) {
+            $this->startInvestigation();
         }
 
-        return $this->chat->submit(Message::ofUser($question));
+        $messages = $this->store->load();
+        $messages->add(Message::ofUser($this->prepareQuestion($question)));
+
+        $result = $this->agent->call($messages, ['stream' => true]);
+
+        $content = '';
+        if ($result instanceof StreamResult) {
+            foreach ($result->getContent() as $chunk) {
+                if (!\is_string($chunk) && !$chunk instanceof \Stringable) {
+                    // Tool calls are resolved by the agent processor, only text reaches the user
+                    continue;
+                }
+
+                $chunk = (string) $chunk;
+                $content .= $chunk;
+                yield $chunk;
+            }
+        } else {
+            // Platforms without streaming support return the whole answer at once
+            $content = (string) $result->getContent();
+            yield $content;
+        }
+
+        $assistantMessage = Message::ofAssistant($content);
+        $messages->add($assistantMessage);
+        $this->store->save($messages);
+
+        return $assistantMessage;
     }
 
     /**
@@ -209,6 +254,22 @@ class LogInspectorChat implements ChatInterface
         return $this->initialized;
     }
 
+    /**
+     * Count the turn and decorate the question for follow-up turns.
+     */
+    private function prepareQuestion(string $question): string
+    {
+        ++$this->turnCount;
+
+        // After the first turn, add a tool-calling reminder to help models
+        // like llama3.1 that lose the tool-calling format in longer conversations
+        if ($this->turnCount > 1) {
+            $question .= self::TOOL_REMINDER;
+        }
+
+        return $question;
+    }
+
     /**
      * Build the investigation system prompt.
      */
@@ -4,7 +4,10 @@ namespace Hakam\AiLogInspector\Chat;
 
 use Symfony\AI\Chat\ManagedStoreInterface;
 use Symfony\AI\Chat\MessageStoreInterface;
+use Symfony\AI\Platform\Message\AssistantMessage;
+use Symfony\AI\Platform\Message\Content\Text;
 use Symfony\AI\Platform\Message\MessageBag;
+use Symfony\AI\Platform\Message\UserMessage;
 use Symfony\Component\Uid\Uuid;
 
 /**
@@ -120,6 +123,40 @@ class SessionMessageStore implements MessageStoreInterface, ManagedStoreInterfac
         return $messages;
     }
 
+    /**
+     * Get the conversation as the user saw it: their questions and the answers.
+     *
+     * System prompts, tool calls and tool results are left out, as is the
+     * tool reminder LogInspectorChat appends to follow-up questions.
+     *
+     * @return list<array{role: string, content: string}>
+     */
+    public function getHistory(): array
+    {
+        $history = [];
+
+        foreach ($this->load()->getMessages() as $message) {
+            if ($message instanceof UserMessage) {
+                $content = '';
+                foreach ($message->getContent() as $part) {
+                    if ($part instanceof Text) {
+                        $content .= $part->getText();
+                    }
+                }
+
+                if (str_ends_with($content, LogInspectorChat::TOOL_REMINDER)) {
+                    $content = substr($content, 0, -\strlen(LogInspectorChat::TOOL_REMINDER));
+                }
+
+                $history[] = ['role' => 'user', 'content' => $content];
+            } elseif ($message instanceof AssistantMessage && null !== $message->getContent() && '' !== $message->getContent()) {
+                $history[] = ['role' => 'assistant', 'content' => $message->getContent()];
+            }
+        }
+
+        return $history;
+    }
+
     /**
      * Delete the session and all its messages.
      */
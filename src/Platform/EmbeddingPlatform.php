@@ -14,7 +14,7 @@ readonly class EmbeddingPlatform extends LogDocumentPlatform implements Embeddin
      * Some platforms (e.g. OpenAI) don't tag embedding models with Capability::EMBEDDINGS
      * but use a dedicated class instead.
      */
-    private const EMBEDDING_MODEL_CLASSES = [
+    public const EMBEDDING_MODEL_CLASSES = [
         'Symfony\AI\Platform\Bridge\OpenAi\Embeddings',
     ];
 
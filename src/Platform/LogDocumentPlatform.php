@@ -22,7 +22,10 @@ readonly class LogDocumentPlatform implements LogDocumentPlatformInterface
         private PlatformEnum $platformType,
         private array $config,
     ) {
-        $this->platform = $this->initPlatform();
+        $platform = $this->initPlatform();
+        $this->platform = ($config['usage_tracker'] ?? null) instanceof TokenUsageTracker
+            ? new TokenUsageTrackingPlatform($platform, $config['usage_tracker'])
+            : $platform;
     }
 
     public function getPlatform(): PlatformInterface
@@ -71,10 +74,6 @@ readonly class LogDocumentPlatform implements LogDocumentPlatformInterface
 
     protected function getDefaultModel(): string
     {
-        return $this->config['model'] ?? match ($this->platformType) {
-            PlatformEnum::OPENAI => 'gpt-4o-mini',
-            PlatformEnum::ANTHROPIC => 'claude-sonnet-4-20250514',
-            PlatformEnum::OLLAMA => 'llama3.1',
-        };
+        return $this->config['model'] ?? PlatformCatalog::defaultBrainModel($this->platformType);
     }
 }
@@ -19,6 +19,7 @@ final class LogDocumentPlatformFactory
      *         'capabilities' => ['text', 'tool_calling'],
      *         'options' => ['temperature' => 0.7, 'max_tokens' => 500],
      *     ],
+     *     'usage_tracker' => $tracker, // Optional TokenUsageTracker counting the tokens used
      * ]
      */
     public static function create(array $config): LogDocumentPlatformInterface
@@ -78,6 +79,10 @@ final class LogDocumentPlatformFactory
             $platformConfig['client_options'] = $config['client_options'];
         }
 
+        if (isset($config['usage_tracker'])) {
+            $platformConfig['usage_tracker'] = $config['usage_tracker'];
+        }
+
         return $platformConfig;
     }
 }
@@ -0,0 +1,63 @@
+<?php
+
+namespace Hakam\AiLogInspector\Platform;
+
+use Symfony\Component\HttpClient\HttpClient;
+use Symfony\Contracts\HttpClient\Exception\ExceptionInterface;
+use Symfony\Contracts\HttpClient\HttpClientInterface;
+
+/**
+ * Lists the models pulled on an Ollama server, so a model that is not
+ * installed can be reported before the first request fails.
+ */
+final class OllamaModelDiscovery
+{
+    private HttpClientInterface $httpClient;
+
+    public function __construct(
+        ?HttpClientInterface $httpClient = null,
+        private float $timeout = 2.0,
+    ) {
+        $this->httpClient = $httpClient ?? HttpClient::create();
+    }
+
+    /**
+     * Model names as Ollama reports them, tag included (e.g. "llama3.1:latest").
+     *
+     * @return list<string>
+     *
+     * @throws \RuntimeException When the server cannot be reached or does not answer like Ollama
+     */
+    public function listInstalledModels(string $host): array
+    {
+        try {
+            $data = $this->httpClient
+                ->request('GET', rtrim($host, '/').'/api/tags', ['timeout' => $this->timeout])
+                ->toArray();
+        } catch (ExceptionInterface $e) {
+            throw new \RuntimeException("Cannot list the models of the Ollama server at {$host}: {$e->getMessage()}", 0, $e);
+        }
+
+        $models = [];
+        foreach ($data['models'] ?? [] as $model) {
+            if (is_array($model) && isset($model['name']) && is_string($model['name'])) {
+                $models[] = $model['name'];
+            }
+        }
+
+        return $models;
+    }
+
+    /**
+     * Whether $model is among $installedModels; an untagged name such as
+     * "llama3.1" means the "latest" tag, like in `ollama pull`.
+     *
+     * @param list<string> $installedModels
+     */
+    public static function isInstalled(string $model, array $installedModels): bool
+    {
+        $tagged = str_contains($model, ':') ? $model : $model.':latest';
+
+        return in_array($model, $installedModels, true) || in_array($tagged, $installedModels, true);
+    }
+}
@@ -0,0 +1,112 @@
+<?php
+
+namespace Hakam\AiLogInspector\Platform;
+
+use Hakam\AiLogInspector\Enum\PlatformEnum;
+use Symfony\AI\Platform\Capability;
+use Symfony\AI\Platform\Model;
+use Symfony\AI\Platform\PlatformInterface;
+
+/**
+ * Describes what each platform supports, from the model catalog of the
+ * platform LogDocumentPlatformFactory creates for it.
+ *
+ * Brain models are the ones able to call tools (the agent needs them),
+ * embedding models the ones EmbeddingPlatform can vectorize with.
+ *
+ * @example
+ * ```php
+ * $openAi = PlatformCatalog::describe(PlatformEnum::OPENAI);
+ * // ['id' => 'openai', 'requires_api_key' => true, 'supports_embeddings' => true,
+ * //  'default_brain_model' => 'gpt-4o-mini', 'brain_models' => ['gpt-4o-mini', ...], ...]
+ * ```
+ */
+final class PlatformCatalog
+{
+    private const DEFAULT_BRAIN_MODELS = [
+        'OPENAI' => 'gpt-4o-mini',
+        'ANTHROPIC' => 'claude-sonnet-4-20250514',
+        'OLLAMA' => 'llama3.1',
+    ];
+
+    private const DEFAULT_EMBEDDING_MODELS = [
+        'OPENAI' => 'text-embedding-3-small',
+        'OLLAMA' => 'nomic-embed-text',
+    ];
+
+    public static function defaultBrainModel(PlatformEnum $platform): string
+    {
+        return self::DEFAULT_BRAIN_MODELS[$platform->name];
+    }
+
+    /**
+     * Null for platforms without an embedding API (their logs get category vectors).
+     */
+    public static function defaultEmbeddingModel(PlatformEnum $platform): ?string
+    {
+        return self::DEFAULT_EMBEDDING_MODELS[$platform->name] ?? null;
+    }
+
+    /**
+     * @param PlatformInterface|null $platformInstance Platform to read the model catalog from;
+     *                                                 created through the factory when null
+     *
+     * @return array{
+     *     id: string,
+     *     requires_api_key: bool,
+     *     supports_embeddings: bool,
+     *     default_brain_model: string,
+     *     default_embedding_model: string|null,
+     *     brain_models: list<string>,
+     *     embedding_models: list<string>
+     * }
+     */
+    public static function describe(PlatformEnum $platform, ?PlatformInterface $platformInstance = null): array
+    {
+        // The catalog is static: placeholder credentials are enough to read it
+        $platformInstance ??= LogDocumentPlatformFactory::createBrainPlatform(
+            $platform,
+            PlatformEnum::OLLAMA === $platform ? ['host' => 'http://localhost:11434'] : ['api_key' => 'sk-catalog']
+        )->getPlatform();
+
+        $brainModels = [];
+        $embeddingModels = [];
+        foreach ($platformInstance->getModelCatalog()->getModels() as $name => $model) {
+            if (self::isEmbeddingModel($model)) {
+                $embeddingModels[] = $model instanceof Model ? $model->getName() : (string) $name;
+            } elseif (self::supports($model, Capability::TOOL_CALLING)) {
+                $brainModels[] = $model instanceof Model ? $model->getName() : (string) $name;
+            }
+        }
+
+        return [
+            'id' => strtolower($platform->name),
+            'requires_api_key' => PlatformEnum::OLLAMA !== $platform,
+            'supports_embeddings' => [] !== $embeddingModels,
+            'default_brain_model' => self::defaultBrainModel($platform),
+            'default_embedding_model' => [] !== $embeddingModels ? self::defaultEmbeddingModel($platform) : null,
+            'brain_models' => $brainModels,
+            'embedding_models' => $embeddingModels,
+        ];
+    }
+
+    private static function isEmbeddingModel(Model|array $model): bool
+    {
+        if (self::supports($model, Capability::EMBEDDINGS)) {
+            return true;
+        }
+
+        return is_array($model)
+            && isset($model['class'])
+            && in_array($model['class'], EmbeddingPlatform::EMBEDDING_MODEL_CLASSES, true);
+    }
+
+    private static function supports(Model|array $model, Capability $capability): bool
+    {
+        if ($model instanceof Model) {
+            return $model->supports($capability);
+        }
+
+        return in_array($capability, $model['capabilities'] ?? [], true);
+    }
+}
@@ -0,0 +1,133 @@
+<?php
+
+namespace Hakam\AiLogInspector\Platform;
+
+use Symfony\AI\Platform\Result\DeferredResult;
+use Symfony\AI\Platform\Result\VectorResult;
+
+/**
+ * Adds up the tokens used by every platform call made through a tracked platform.
+ *
+ * Share one tracker between the brain and embedding platforms of a request to
+ * know what answering (agent turns, tool analysis sub-calls, query embeddings)
+ * or indexing cost. Platforms that do not report usage for embeddings get an
+ * estimate of one token per four characters of input, flagged as `estimated`.
+ *
+ * @example
+ * ```php
+ * $tracker = new TokenUsageTracker();
+ * $brain = LogDocumentPlatformFactory::create([
+ *     'provider' => 'openai',
+ *     'api_key' => $apiKey,
+ *     'model' => 'gpt-4o-mini',
+ *     'usage_tracker' => $tracker,
+ * ]);
+ *
+ * $chat->ask('Why did payments fail?');
+ * $usage = $tracker->getUsage(); // ['prompt_tokens' => 1830, 'completion_tokens' => 212, ...]
+ * ```
+ */
+final class TokenUsageTracker
+{
+    private const CHARS_PER_TOKEN = 4;
+
+    /**
+     * @var list<array{model: string, result: DeferredResult, input_length: int}>
+     */
+    private array $calls = [];
+
+    /**
+     * @param int $inputLength Characters of text sent, used to estimate unreported embedding usage
+     */
+    public function track(string $model, DeferredResult $result, int $inputLength): void
+    {
+        $this->calls[] = ['model' => $model, 'result' => $result, 'input_length' => $inputLength];
+    }
+
+    /**
+     * Usage of the calls tracked so far, in total and per model.
+     *
+     * Results are read when this is called, so call it once the answer (or the
+     * indexing) is complete: usage is only known after a result was received.
+     *
+     * @return array{
+     *     prompt_tokens: int,
+     *     completion_tokens: int,
+     *     embedding_tokens: int,
+     *     total_tokens: int,
+     *     calls: int,
+     *     estimated: bool,
+     *     models: array<string, array{prompt_tokens: int, completion_tokens: int, embedding_tokens: int, calls: int}>
+     * }
+     */
+    public function getUsage(): array
+    {
+        $usage = [
+            'prompt_tokens' => 0,
+            'completion_tokens' => 0,
+            'embedding_tokens' => 0,
+            'total_tokens' => 0,
+            'calls' => 0,
+            'estimated' => false,
+            'models' => [],
+        ];
+
+        foreach ($this->calls as $call) {
+            try {
+                $result = $call['result']->getResult();
+            } catch (\Throwable) {
+                // A failed call did not produce a result to read usage from
+                continue;
+            }
+
+            $reported = $result->getMetadata()->get('token_usage');
+            $prompt = $this->readTokens($reported, 'getPromptTokens');
+            $completion = $this->readTokens($reported, 'getCompletionTokens');
+            $embedding = 0;
+
+            if ($result instanceof VectorResult) {
+                if (null === $prompt) {
+                    $prompt = (int) ceil($call['input_length'] / self::CHARS_PER_TOKEN);
+                    $usage['estimated'] = true;
+                }
+                $embedding = $prompt;
+                $prompt = 0;
+            }
+
+            $model = $usage['models'][$call['model']] ?? ['prompt_tokens' => 0, 'completion_tokens' => 0, 'embedding_tokens' => 0, 'calls' => 0];
+            $model['prompt_tokens'] += $prompt ?? 0;
+            $model['completion_tokens'] += $completion ?? 0;
+            $model['embedding_tokens'] += $embedding;
+            ++$model['calls'];
+            $usage['models'][$call['model']] = $model;
+
+            $usage['prompt_tokens'] += $prompt ?? 0;
+            $usage['completion_tokens'] += $completion ?? 0;
+            $usage['embedding_tokens'] += $embedding;
+            ++$usage['calls'];
+        }
+
+        $usage['total_tokens'] = $usage['prompt_tokens'] + $usage['completion_tokens'] + $usage['embedding_tokens'];
+
+        return $usage;
+    }
+
+    /**
+     * Forget the tracked calls, e.g. before the next question.
+     */
+    public function reset(): void
+    {
+        $this->calls = [];
+    }
+
+    private function readTokens(mixed $tokenUsage, string $method): ?int
+    {
+        if (!is_object($tokenUsage) || !method_exists($tokenUsage, $method)) {
+            return null;
+        }
+
+        $tokens = $tokenUsage->$method();
+
+        return is_int($tokens) ? $tokens : null;
+    }
+}
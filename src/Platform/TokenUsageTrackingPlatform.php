@@ -0,0 +1,52 @@
+<?php
+
+namespace Hakam\AiLogInspector\Platform;
+
+use Symfony\AI\Platform\ModelCatalog\ModelCatalogInterface;
+use Symfony\AI\Platform\PlatformInterface;
+use Symfony\AI\Platform\Result\DeferredResult;
+
+/**
+ * Decorates a platform to hand every result to a TokenUsageTracker.
+ *
+ * LogDocumentPlatform wraps its platform with it when its config has a
+ * `usage_tracker`, so agents, tools and vectorizers using getPlatform()
+ * are all tracked.
+ */
+final class TokenUsageTrackingPlatform implements PlatformInterface
+{
+    public function __construct(
+        private readonly PlatformInterface $platform,
+        private readonly TokenUsageTracker $tracker,
+    ) {
+    }
+
+    public function invoke(string $model, array|string|object $input, array $options = []): DeferredResult
+    {
+        $result = $this->platform->invoke($model, $input, $options);
+        $this->tracker->track($model, $result, $this->measureInput($input));
+
+        return $result;
+    }
+
+    public function getModelCatalog(): ModelCatalogInterface
+    {
+        return $this->platform->getModelCatalog();
+    }
+
+    /**
+     * Characters of text in the input, for embedding estimates (messages count as 0).
+     */
+    private function measureInput(array|string|object $input): int
+    {
+        if (is_string($input)) {
+            return strlen($input);
+        }
+
+        if (is_array($input)) {
+            return array_sum(array_map(fn ($item): int => is_string($item) || is_array($item) ? $this->measureInput($item) : 0, $input));
+        }
+
+        return $input instanceof \Stringable ? strlen((string) $input) : 0;
+    }
+}
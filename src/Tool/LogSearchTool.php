@@ -15,6 +15,9 @@ use Symfony\AI\Store\Document\VectorDocument;
 )]
 class LogSearchTool implements LogInspectorToolInterface
 {
+    /** Prompt of the analysis of found logs, followed by the logs, one per line. */
+    public const ANALYSIS_PROMPT = "Analyze these log entries and provide a concise explanation of what caused the error or issue. Focus on the root cause, not just listing what happened:\n\n";
+
     private const RELEVANCE_THRESHOLD = 0.3;
     private const MAX_RESULTS = 15;
     private bool $supportsVectorization = true;
@@ -23,10 +26,20 @@ class LogSearchTool implements LogInspectorToolInterface
         private readonly VectorLogStoreInterface $store,
         private readonly LogRetrieverInterface $retriever,
         private readonly LogDocumentPlatformInterface $platform,
+        private readonly ?ToolCallRecorder $recorder = null,
     ) {
     }
 
     public function __invoke(string $query = ''): array
+    {
+        $startTime = microtime(true);
+        $result = $this->search($query);
+        $this->recorder?->record('log_search', ['query' => $query], $result, (microtime(true) - $startTime) * 1000);
+
+        return $result;
+    }
+
+    private function search(string $query): array
     {
         $query = trim($query);
         if (empty($query)) {
@@ -54,6 +67,7 @@ class LogSearchTool implements LogInspectorToolInterface
                 $this->supportsVectorization = false;
                 $results = $this->performKeywordSearch($query);
                 $formatted = $this->formatResults($results, $query);
+                $formatted['fallback_reason'] = $e->getMessage();
 
                 return $formatted;
             } catch (\Throwable $fallbackException) {
@@ -155,7 +169,7 @@ class LogSearchTool implements LogInspectorToolInterface
 
         try {
             // Use the platform to analyze the logs and extract the reason
-            $analysisPrompt = "Analyze these log entries and provide a concise explanation of what caused the error or issue. Focus on the root cause, not just listing what happened:\n\n".$combinedLogs;
+            $analysisPrompt = self::ANALYSIS_PROMPT.$combinedLogs;
 
             $analysisResult = $this->platform->__invoke($analysisPrompt);
             $analysis = $analysisResult->getContent();
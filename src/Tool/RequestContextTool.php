@@ -18,16 +18,27 @@ class RequestContextTool implements LogInspectorToolInterface
 {
     private const RELEVANCE_THRESHOLD = 0.3; // Lower threshold for identifier matching
     private const MAX_RESULTS = 50; // Higher limit for request tracing
+    private const FAILURE_LEVELS = ['error', 'critical', 'alert', 'emergency', 'fatal'];
     private bool $supportsVectorization = true;
 
     public function __construct(
         private readonly VectorLogStoreInterface $store,
         private readonly LogRetrieverInterface $retriever,
         private readonly LogDocumentPlatformInterface $platform,
+        private readonly ?ToolCallRecorder $recorder = null,
     ) {
     }
 
     public function __invoke(string $identifier = ''): array
+    {
+        $startTime = microtime(true);
+        $result = $this->lookup($identifier);
+        $this->recorder?->record('request_context', ['identifier' => $identifier], $result, (microtime(true) - $startTime) * 1000);
+
+        return $result;
+    }
+
+    private function lookup(string $identifier): array
     {
         $identifier = trim($identifier);
         if (empty($identifier)) {
@@ -75,10 +86,12 @@ class RequestContextTool implements LogInspectorToolInterface
             try {
                 $this->supportsVectorization = false;
                 $results = $this->performKeywordBasedSearch($identifier);
-
-                return empty($results)
+                $response = empty($results)
                     ? $this->getNoResultsResponse($identifier, 'keyword-based (fallback)')
                     : $this->formatRequestContext($results, $identifier);
+                $response['fallback_reason'] = $e->getMessage();
+
+                return $response;
             } catch (\Throwable $fallbackException) {
                 return [
                     'success' => false,
@@ -90,6 +103,109 @@ class RequestContextTool implements LogInspectorToolInterface
         }
     }
 
+    /**
+     * Structured trace of a request for UIs: the related logs in chronological
+     * order with the time gap between steps, grouped by service.
+     * Uses the same lookup as __invoke() but skips the LLM analysis.
+     */
+    public function trace(string $identifier): array
+    {
+        $identifier = trim($identifier);
+        if (empty($identifier)) {
+            return [
+                'success' => false,
+                'message' => 'Request identifier is required. Please provide a request_id, trace_id, or session_id to track.',
+                'identifier' => $identifier,
+                'steps' => [],
+                'services' => [],
+                'failing_step' => null,
+                'time_span' => null,
+                'search_method' => 'none',
+            ];
+        }
+
+        try {
+            $results = $this->supportsVectorization
+                ? $this->performVectorBasedSearch($identifier)
+                : $this->performKeywordBasedSearch($identifier);
+            $searchMethod = $this->supportsVectorization ? 'vector-based' : 'keyword-based';
+        } catch (\Throwable) {
+            $this->supportsVectorization = false;
+            $results = $this->performKeywordBasedSearch($identifier);
+            $searchMethod = 'keyword-based (fallback)';
+        }
+
+        $steps = [];
+        $services = [];
+        $failingStep = null;
+        $firstTime = null;
+        $previousTime = null;
+
+        foreach ($results as $result) {
+            if (!$result instanceof VectorDocument) {
+                continue;
+            }
+
+            $metadata = $result->metadata;
+            $content = $metadata['content'] ?? '';
+            $level = strtolower($metadata['level'] ?? 'unknown');
+            $service = $this->resolveService($metadata);
+            $time = $this->extractTimestamp($metadata) ?: null;
+            $isFailure = in_array($level, self::FAILURE_LEVELS, true);
+
+            if (null !== $time) {
+                $firstTime ??= $time;
+            }
+            if ($isFailure && null === $failingStep) {
+                $failingStep = count($steps);
+            }
+
+            $steps[] = [
+                'id' => $metadata['log_id'] ?? ($result->id instanceof Uuid ? $result->id->toString() : (string) $result->id),
+                'timestamp' => null !== $time ? date('Y-m-d H:i:s', $time) : null,
+                'level' => $level,
+                'service' => $service,
+                'event_type' => $this->detectEventType($content),
+                'description' => $this->extractEventDescription($content),
+                'content' => $content,
+                'offset_seconds' => null !== $time ? $time - $firstTime : null,
+                'gap_seconds' => null !== $time && null !== $previousTime ? $time - $previousTime : null,
+                'is_failure' => $isFailure,
+            ];
+
+            $services[$service] = ($services[$service] ?? 0) + 1;
+            $previousTime = $time ?? $previousTime;
+        }
+
+        return [
+            'success' => [] !== $steps,
+            'message' => [] !== $steps
+                ? sprintf('Found %d logs across %d services', count($steps), count($services))
+                : "No logs found containing identifier '{$identifier}'.",
+            'identifier' => $identifier,
+            'steps' => $steps,
+            'services' => $services,
+            'failing_step' => $failingStep,
+            'time_span' => $this->calculateTimeSpan($steps),
+            'search_method' => $searchMethod,
+        ];
+    }
+
+    /**
+     * Service a log belongs to: an explicit service, else its source, else its channel.
+     */
+    private function resolveService(array|\ArrayAccess $metadata): string
+    {
+        foreach (['service', 'source', 'channel'] as $key) {
+            $value = $metadata[$key] ?? null;
+            if (is_string($value) && '' !== $value && 'unknown' !== $value) {
+                return $value;
+            }
+        }
+
+        return 'unknown';
+    }
+
     private function performVectorBasedSearch(string $identifier): array
     {
         $searchQuery = $this->buildSearchQuery($identifier);
@@ -381,6 +497,16 @@ class RequestContextTool implements LogInspectorToolInterface
             return null;
         }
 
+        return [
+            'timestamp' => $timestamp,
+            'event_type' => $this->detectEventType($content),
+            'description' => $this->extractEventDescription($content),
+            'source' => $source,
+        ];
+    }
+
+    private function detectEventType(string $content): string
+    {
         $eventPatterns = [
             'started' => '/(?:started|begin|initiated|commenced)/i',
             'completed' => '/(?:completed|finished|success|done)/i',
@@ -394,21 +520,13 @@ class RequestContextTool implements LogInspectorToolInterface
             'api_call' => '/(?:api|http|request|response)/i',
         ];
 
-        $eventType = 'info';
         foreach ($eventPatterns as $type => $pattern) {
             if (preg_match($pattern, $content)) {
-                $eventType = $type;
-
-                break;
+                return $type;
             }
         }
 
-        return [
-            'timestamp' => $timestamp,
-            'event_type' => $eventType,
-            'description' => $this->extractEventDescription($content),
-            'source' => $source,
-        ];
+        return 'info';
     }
 
     private function extractEventDescription(string $content): string
@@ -0,0 +1,97 @@
+<?php
+
+namespace Hakam\AiLogInspector\Tool;
+
+/**
+ * Records every tool invocation made while answering a question.
+ *
+ * Share one recorder between the tools of an agent to explain an answer
+ * afterwards: which tools ran, with what arguments, how long they took,
+ * what they found and whether the search had to fall back to keywords.
+ *
+ * @example
+ * ```php
+ * $recorder = new ToolCallRecorder();
+ * $tools = [
+ *     new LogSearchTool($store, $retriever, $platform, $recorder),
+ *     new RequestContextTool($store, $retriever, $platform, $recorder),
+ * ];
+ *
+ * $chat->ask('Why did payments fail?');
+ * foreach ($recorder->getCalls() as $call) {
+ *     echo $call['tool'].': '.$call['summary']."\n";
+ * }
+ * ```
+ */
+final class ToolCallRecorder
+{
+    private const SUMMARY_LENGTH = 200;
+
+    /**
+     * @var list<array<string, mixed>>
+     */
+    private array $calls = [];
+
+    /**
+     * @param string               $tool       Tool name, as the agent sees it
+     * @param array<string, mixed> $arguments  Arguments the tool was called with
+     * @param array<string, mixed> $result     What the tool returned to the agent
+     * @param float                $durationMs Time spent in the tool
+     */
+    public function record(string $tool, array $arguments, array $result, float $durationMs): void
+    {
+        $searchMethod = $result['search_method'] ?? null;
+        $evidenceLogs = $result['evidence_logs'] ?? [];
+
+        $this->calls[] = [
+            'tool' => $tool,
+            'arguments' => $arguments,
+            'success' => (bool) ($result['success'] ?? false),
+            'summary' => $this->summarize($result),
+            'search_method' => $searchMethod,
+            'log_count' => $result['log_count'] ?? (is_array($evidenceLogs) ? count($evidenceLogs) : 0),
+            'log_ids' => is_array($evidenceLogs) ? array_values(array_filter(array_column($evidenceLogs, 'id'))) : [],
+            'fallback' => isset($result['fallback_reason'])
+                || isset($result['fallback_error'])
+                || (is_string($searchMethod) && str_contains($searchMethod, 'fallback')),
+            'fallback_reason' => $result['fallback_reason'] ?? $result['fallback_error'] ?? null,
+            'duration_ms' => (int) round($durationMs),
+        ];
+    }
+
+    /**
+     * The recorded calls, in the order they were made.
+     *
+     * @return list<array<string, mixed>>
+     */
+    public function getCalls(): array
+    {
+        return $this->calls;
+    }
+
+    /**
+     * Forget the recorded calls, e.g. before the next question.
+     */
+    public function reset(): void
+    {
+        $this->calls = [];
+    }
+
+    /**
+     * One line describing the result: the tool's own explanation when it has one.
+     */
+    private function summarize(array $result): string
+    {
+        $summary = $result['reason'] ?? $result['message'] ?? $result['summary'] ?? '';
+        if (!is_string($summary)) {
+            $summary = '';
+        }
+
+        $summary = trim(preg_replace('/\s+/', ' ', $summary));
+        if (strlen($summary) > self::SUMMARY_LENGTH) {
+            $summary = substr($summary, 0, self::SUMMARY_LENGTH - 3).'...';
+        }
+
+        return $summary;
+    }
+}
@@ -0,0 +1,134 @@
+<?php
+
+namespace Hakam\AiLogInspector\Test\Integration;
+
+use Hakam\AiLogInspector\Platform\LogDocumentPlatformInterface;
+use Hakam\AiLogInspector\Retriever\LogRetrieverInterface;
+use Hakam\AiLogInspector\Store\VectorLogDocumentStore;
+use Hakam\AiLogInspector\Tool\LogSearchTool;
+use PHPUnit\Framework\TestCase;
+use Symfony\AI\Platform\Vector\Vector;
+use Symfony\AI\Store\Bridge\Cache\Store as CacheStore;
+use Symfony\AI\Store\Document\VectorDocument;
+use Symfony\Component\Cache\Adapter\FilesystemAdapter;
+
+require_once __DIR__.'/../../examples/playground-api.php';
+
+/**
+ * Uploads through the playground API helpers, without an embedding platform:
+ * logs are indexed with category vectors, so no model is called.
+ */
+class PlaygroundApiTest extends TestCase
+{
+    private const SESSION_ID = 'playground-test';
+
+    private string $workDir;
+    private string $sessionDir;
+    private string $fixturesDir;
+
+    protected function setUp(): void
+    {
+        $this->workDir = sys_get_temp_dir().'/playground-api-test-'.bin2hex(random_bytes(4));
+        $this->sessionDir = $this->workDir.'/sessions';
+        mkdir($this->sessionDir, 0755, true);
+        $this->fixturesDir = __DIR__.'/../fixtures/logs';
+
+        // The helpers read the cache directory from the script's globals
+        $GLOBALS['cacheDir'] = $this->workDir.'/cache';
+    }
+
+    protected function tearDown(): void
+    {
+        $files = new \RecursiveIteratorIterator(
+            new \RecursiveDirectoryIterator($this->workDir, \FilesystemIterator::SKIP_DOTS),
+            \RecursiveIteratorIterator::CHILD_FIRST
+        );
+        foreach ($files as $file) {
+            $file->isDir() ? rmdir($file->getPathname()) : unlink($file->getPathname());
+        }
+        rmdir($this->workDir);
+    }
+
+    public function testUploadThenAppendEmbedsOnlyTheAppendedLogs(): void
+    {
+        $first = $this->upload('payment-errors.log');
+        $this->assertSame('category_fallback', $this->cacheAdapter()->getItem('embedding_model')->get());
+
+        $embedded = [];
+        $second = $this->upload('database-errors.log', true, static function (string $phase, int $done, int $total) use (&$embedded): void {
+            if ('embedding' === $phase) {
+                $embedded[] = $total;
+            }
+        });
+
+        $this->assertSame($first['logs_count'] + $second['added_count'], $second['logs_count']);
+        $this->assertNotEmpty($embedded);
+        $this->assertSame([$second['added_count']], array_values(array_unique($embedded)));
+
+        // The appended logs were added to the index instead of waiting for a full re-index
+        $this->assertCount($second['logs_count'], $this->indexedDocuments());
+        $this->assertSame(sha1(json_encode($this->sessionLogs())), $this->cacheAdapter()->getItem('logs_hash')->get());
+    }
+
+    public function testSearchEvidenceCarriesTheSourceOfTheUploadedFile(): void
+    {
+        $this->upload('payment-errors.log');
+        $this->upload('database-errors.log', true);
+
+        // Keyword search over the session's index, with the analysis falling back to patterns
+        $retriever = $this->createMock(LogRetrieverInterface::class);
+        $retriever->method('retrieve')->willThrowException(new \RuntimeException('Retrieval not supported'));
+        $platform = $this->createMock(LogDocumentPlatformInterface::class);
+        $platform->method('__invoke')->willThrowException(new \RuntimeException('No model'));
+        $tool = new LogSearchTool(new VectorLogDocumentStore(new CacheStore($this->cacheAdapter())), $retriever, $platform);
+
+        $result = $tool->__invoke('database connection');
+
+        $this->assertTrue($result['success']);
+        $sources = array_unique(array_column($result['evidence_logs'], 'source'));
+        $this->assertContains('database-errors.log', $sources);
+        $this->assertNotContains('unknown', $sources);
+        $this->assertSame([], array_diff($sources, ['payment-errors.log', 'database-errors.log']));
+    }
+
+    private function upload(string $fixture, bool $append = false, ?callable $onProgress = null): array
+    {
+        return processUploadedFile(
+            $this->fixturesDir.'/'.$fixture,
+            self::SESSION_ID,
+            'anthropic',
+            'claude-3-5-haiku-latest',
+            'text-embedding-3-small',
+            '',
+            'http://localhost:11434',
+            $this->sessionDir,
+            $fixture,
+            $append,
+            $onProgress
+        );
+    }
+
+    private function cacheAdapter(): FilesystemAdapter
+    {
+        return new FilesystemAdapter(
+            namespace: 'logs_'.self::SESSION_ID,
+            defaultLifetime: 3600,
+            directory: $GLOBALS['cacheDir']
+        );
+    }
+
+    /**
+     * @return VectorDocument[]
+     */
+    private function indexedDocuments(): array
+    {
+        $store = new CacheStore($this->cacheAdapter());
+
+        return iterator_to_array($store->query(new Vector(array_fill(0, 5, 0.5)), ['maxItems' => 1000]), false);
+    }
+
+    private function sessionLogs(): array
+    {
+        return json_decode(file_get_contents($this->sessionDir.'/'.self::SESSION_ID.'-logs.json'), true);
+    }
+}
@@ -9,6 +9,7 @@ use PHPUnit\Framework\TestCase;
 use Symfony\AI\Platform\Message\AssistantMessage;
 use Symfony\AI\Platform\Message\Message;
 use Symfony\AI\Platform\Message\MessageBag;
+use Symfony\AI\Platform\Result\StreamResult;
 use Symfony\AI\Platform\Result\TextResult;
 
 class LogInspectorChatTest extends TestCase
@@ -266,4 +267,52 @@ class LogInspectorChatTest extends TestCase
         $response3 = $this->chat->ask('How do we fix this?');
         $this->assertInstanceOf(AssistantMessage::class, $response3);
     }
+
+    public function testAskStreamYieldsChunksAndSavesAnswer(): void
+    {
+        $this->store->method('load')->willReturn(new MessageBag());
+
+        $this->agent
+            ->expects($this->once())
+            ->method('call')
+            ->with($this->isInstanceOf(MessageBag::class), ['stream' => true])
+            ->willReturn(new StreamResult((static function (): \Generator {
+                yield 'Found 3 ';
+                yield 'payment errors';
+            })()));
+
+        $saved = null;
+        $this->store
+            ->method('save')
+            ->willReturnCallback(static function (MessageBag $messages) use (&$saved): void {
+                $saved = $messages;
+            });
+
+        $stream = $this->chat->askStream('What payment errors occurred?');
+        $chunks = iterator_to_array($stream, false);
+
+        $this->assertSame(['Found 3 ', 'payment errors'], $chunks);
+        $this->assertInstanceOf(AssistantMessage::class, $stream->getReturn());
+        $this->assertSame('Found 3 payment errors', $stream->getReturn()->getContent());
+        $this->assertTrue($this->chat->isActive());
+        $this->assertCount(2, $saved);
+    }
+
+    public function testAskStreamFallsBackToTextResult(): void
+    {
+        $this->store->method('load')->willReturn(new MessageBag());
+
+        $mockResult = $this->createMock(TextResult::class);
+        $mockResult->method('getContent')->willReturn('Database connection timeout');
+
+        $this->agent
+            ->expects($this->once())
+            ->method('call')
+            ->willReturn($mockResult);
+
+        $stream = $this->chat->askStream('What caused the outage?');
+
+        $this->assertSame(['Database connection timeout'], iterator_to_array($stream, false));
+        $this->assertSame('Database connection timeout', $stream->getReturn()->getContent());
+    }
 }
@@ -2,6 +2,7 @@
 
 namespace Hakam\AiLogInspector\Test\Unit\Chat;
 
+use Hakam\AiLogInspector\Chat\LogInspectorChat;
 use Hakam\AiLogInspector\Chat\SessionMessageStore;
 use PHPUnit\Framework\TestCase;
 use Symfony\AI\Platform\Message\Message;
@@ -296,4 +297,32 @@ class SessionMessageStoreTest extends TestCase
         // Should load the same messages
         $this->assertCount(2, $loadedMessages->getMessages());
     }
+
+    public function testGetHistoryReturnsQuestionsAndAnswersOnly(): void
+    {
+        $store = new SessionMessageStore('history-test', $this->testStoragePath);
+        $store->setup();
+        $store->save(new MessageBag(
+            Message::forSystem('You are a log inspector'),
+            Message::ofUser('What errors occurred?'),
+            Message::ofAssistant('Found 3 payment errors'),
+            Message::ofUser('Why?'.LogInspectorChat::TOOL_REMINDER),
+            Message::ofAssistant('The gateway timed out')
+        ));
+
+        $this->assertSame([
+            ['role' => 'user', 'content' => 'What errors occurred?'],
+            ['role' => 'assistant', 'content' => 'Found 3 payment errors'],
+            ['role' => 'user', 'content' => 'Why?'],
+            ['role' => 'assistant', 'content' => 'The gateway timed out'],
+        ], $store->getHistory());
+    }
+
+    public function testGetHistoryReturnsEmptyArrayWhenNoSessionExists(): void
+    {
+        $store = new SessionMessageStore('no-history-session', $this->testStoragePath);
+        $store->setup();
+
+        $this->assertSame([], $store->getHistory());
+    }
 }
@@ -0,0 +1,54 @@
+<?php
+
+namespace Hakam\AiLogInspector\Test\Unit\Platform;
+
+use Hakam\AiLogInspector\Platform\OllamaModelDiscovery;
+use PHPUnit\Framework\TestCase;
+use Symfony\Component\HttpClient\MockHttpClient;
+use Symfony\Component\HttpClient\Response\JsonMockResponse;
+use Symfony\Component\HttpClient\Response\MockResponse;
+
+class OllamaModelDiscoveryTest extends TestCase
+{
+    public function testListInstalledModelsReadsTags(): void
+    {
+        $httpClient = new MockHttpClient(function (string $method, string $url): JsonMockResponse {
+            $this->assertSame('GET', $method);
+            $this->assertSame('http://localhost:11434/api/tags', $url);
+
+            return new JsonMockResponse(['models' => [
+                ['name' => 'llama3.1:latest', 'size' => 4920753328],
+                ['name' => 'nomic-embed-text:latest'],
+                ['size' => 1],
+            ]]);
+        });
+
+        $discovery = new OllamaModelDiscovery($httpClient);
+
+        $this->assertSame(
+            ['llama3.1:latest', 'nomic-embed-text:latest'],
+            $discovery->listInstalledModels('http://localhost:11434/')
+        );
+    }
+
+    public function testListInstalledModelsThrowsWhenServerIsUnreachable(): void
+    {
+        $httpClient = new MockHttpClient(new MockResponse('', ['error' => 'Connection refused']));
+        $discovery = new OllamaModelDiscovery($httpClient);
+
+        $this->expectException(\RuntimeException::class);
+        $this->expectExceptionMessageMatches('/Cannot list the models of the Ollama server/');
+
+        $discovery->listInstalledModels('http://localhost:11434');
+    }
+
+    public function testIsInstalledTreatsUntaggedNamesAsLatest(): void
+    {
+        $installed = ['llama3.1:latest', 'llama3.1:70b'];
+
+        $this->assertTrue(OllamaModelDiscovery::isInstalled('llama3.1', $installed));
+        $this->assertTrue(OllamaModelDiscovery::isInstalled('llama3.1:70b', $installed));
+        $this->assertFalse(OllamaModelDiscovery::isInstalled('mistral', $installed));
+        $this->assertFalse(OllamaModelDiscovery::isInstalled('llama3.1:8b', $installed));
+    }
+}
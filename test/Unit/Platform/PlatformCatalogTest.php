@@ -0,0 +1,78 @@
+<?php
+
+namespace Hakam\AiLogInspector\Test\Unit\Platform;
+
+use Hakam\AiLogInspector\Enum\PlatformEnum;
+use Hakam\AiLogInspector\Platform\PlatformCatalog;
+use PHPUnit\Framework\TestCase;
+use Symfony\AI\Platform\Capability;
+use Symfony\AI\Platform\Model;
+use Symfony\AI\Platform\ModelCatalog\ModelCatalogInterface;
+use Symfony\AI\Platform\PlatformInterface;
+
+class PlatformCatalogTest extends TestCase
+{
+    public function testDescribeSplitsBrainAndEmbeddingModels(): void
+    {
+        $platform = $this->createPlatformWithModels([
+            'llama3.1' => new Model('llama3.1', [Capability::INPUT_MESSAGES, Capability::TOOL_CALLING]),
+            'nomic-embed-text' => new Model('nomic-embed-text', [Capability::EMBEDDINGS]),
+            'llava' => new Model('llava', [Capability::INPUT_IMAGE]),
+        ]);
+
+        $description = PlatformCatalog::describe(PlatformEnum::OLLAMA, $platform);
+
+        $this->assertSame('ollama', $description['id']);
+        $this->assertFalse($description['requires_api_key']);
+        $this->assertTrue($description['supports_embeddings']);
+        $this->assertSame(['llama3.1'], $description['brain_models']);
+        $this->assertSame(['nomic-embed-text'], $description['embedding_models']);
+        $this->assertSame('llama3.1', $description['default_brain_model']);
+        $this->assertSame('nomic-embed-text', $description['default_embedding_model']);
+    }
+
+    public function testDescribeRecognizesEmbeddingModelClassesInArrayCatalogs(): void
+    {
+        $platform = $this->createPlatformWithModels([
+            'gpt-4o-mini' => ['class' => 'Symfony\AI\Platform\Bridge\OpenAi\Gpt', 'capabilities' => [Capability::TOOL_CALLING]],
+            'text-embedding-3-small' => ['class' => 'Symfony\AI\Platform\Bridge\OpenAi\Embeddings', 'capabilities' => [Capability::INPUT_TEXT]],
+        ]);
+
+        $description = PlatformCatalog::describe(PlatformEnum::OPENAI, $platform);
+
+        $this->assertTrue($description['requires_api_key']);
+        $this->assertSame(['gpt-4o-mini'], $description['brain_models']);
+        $this->assertSame(['text-embedding-3-small'], $description['embedding_models']);
+    }
+
+    public function testDescribeWithoutEmbeddingModels(): void
+    {
+        $platform = $this->createPlatformWithModels([
+            'claude-sonnet-4-20250514' => new Model('claude-sonnet-4-20250514', [Capability::TOOL_CALLING]),
+        ]);
+
+        $description = PlatformCatalog::describe(PlatformEnum::ANTHROPIC, $platform);
+
+        $this->assertFalse($description['supports_embeddings']);
+        $this->assertSame([], $description['embedding_models']);
+        $this->assertNull($description['default_embedding_model']);
+    }
+
+    public function testDefaultModels(): void
+    {
+        $this->assertSame('gpt-4o-mini', PlatformCatalog::defaultBrainModel(PlatformEnum::OPENAI));
+        $this->assertSame('text-embedding-3-small', PlatformCatalog::defaultEmbeddingModel(PlatformEnum::OPENAI));
+        $this->assertNull(PlatformCatalog::defaultEmbeddingModel(PlatformEnum::ANTHROPIC));
+    }
+
+    private function createPlatformWithModels(array $models): PlatformInterface
+    {
+        $catalog = $this->createMock(ModelCatalogInterface::class);
+        $catalog->method('getModels')->willReturn($models);
+
+        $platform = $this->createMock(PlatformInterface::class);
+        $platform->method('getModelCatalog')->willReturn($catalog);
+
+        return $platform;
+    }
+}
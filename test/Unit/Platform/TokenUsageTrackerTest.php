@@ -0,0 +1,115 @@
+<?php
+
+namespace Hakam\AiLogInspector\Test\Unit\Platform;
+
+use Hakam\AiLogInspector\Platform\TokenUsageTracker;
+use Hakam\AiLogInspector\Platform\TokenUsageTrackingPlatform;
+use PHPUnit\Framework\TestCase;
+use Symfony\AI\Platform\PlatformInterface;
+use Symfony\AI\Platform\Result\DeferredResult;
+use Symfony\AI\Platform\Result\ResultInterface;
+use Symfony\AI\Platform\Result\TextResult;
+use Symfony\AI\Platform\Result\VectorResult;
+use Symfony\AI\Platform\TokenUsage\TokenUsage;
+use Symfony\AI\Platform\Vector\Vector;
+
+class TokenUsageTrackerTest extends TestCase
+{
+    public function testGetUsageAddsUpReportedTokensPerModel(): void
+    {
+        $tracker = new TokenUsageTracker();
+        $tracker->track('gpt-4o-mini', $this->deferred($this->textResult(120, 30)), 0);
+        $tracker->track('gpt-4o-mini', $this->deferred($this->textResult(80, 20)), 0);
+        $tracker->track('text-embedding-3-small', $this->deferred($this->vectorResult(12)), 40);
+
+        $usage = $tracker->getUsage();
+
+        $this->assertSame(200, $usage['prompt_tokens']);
+        $this->assertSame(50, $usage['completion_tokens']);
+        $this->assertSame(12, $usage['embedding_tokens']);
+        $this->assertSame(262, $usage['total_tokens']);
+        $this->assertSame(3, $usage['calls']);
+        $this->assertFalse($usage['estimated']);
+        $this->assertSame(
+            ['prompt_tokens' => 200, 'completion_tokens' => 50, 'embedding_tokens' => 0, 'calls' => 2],
+            $usage['models']['gpt-4o-mini']
+        );
+    }
+
+    public function testUnreportedEmbeddingUsageIsEstimatedFromInputLength(): void
+    {
+        $tracker = new TokenUsageTracker();
+        $tracker->track('nomic-embed-text', $this->deferred($this->vectorResult(null)), 41);
+
+        $usage = $tracker->getUsage();
+
+        $this->assertSame(11, $usage['embedding_tokens']);
+        $this->assertTrue($usage['estimated']);
+    }
+
+    public function testFailedCallsAreSkipped(): void
+    {
+        $failed = $this->createMock(DeferredResult::class);
+        $failed->method('getResult')->willThrowException(new \RuntimeException('Connection refused'));
+
+        $tracker = new TokenUsageTracker();
+        $tracker->track('llama3.1', $failed, 0);
+
+        $this->assertSame(0, $tracker->getUsage()['calls']);
+    }
+
+    public function testResetForgetsCalls(): void
+    {
+        $tracker = new TokenUsageTracker();
+        $tracker->track('gpt-4o-mini', $this->deferred($this->textResult(10, 5)), 0);
+        $tracker->reset();
+
+        $this->assertSame(0, $tracker->getUsage()['total_tokens']);
+    }
+
+    public function testTrackingPlatformTracksEveryInvocation(): void
+    {
+        $deferred = $this->deferred($this->vectorResult(null));
+        $platform = $this->createMock(PlatformInterface::class);
+        $platform->expects($this->once())
+            ->method('invoke')
+            ->with('text-embedding-3-small', 'payment timeout')
+            ->willReturn($deferred);
+
+        $tracker = new TokenUsageTracker();
+        $trackingPlatform = new TokenUsageTrackingPlatform($platform, $tracker);
+
+        $this->assertSame($deferred, $trackingPlatform->invoke('text-embedding-3-small', 'payment timeout'));
+        $this->assertSame(4, $tracker->getUsage()['embedding_tokens']);
+    }
+
+    private function deferred(ResultInterface $result): DeferredResult
+    {
+        $deferred = $this->createMock(DeferredResult::class);
+        $deferred->method('getResult')->willReturn($result);
+
+        return $deferred;
+    }
+
+    private function textResult(int $promptTokens, int $completionTokens): TextResult
+    {
+        $result = new TextResult('answer');
+        $result->getMetadata()->add('token_usage', new TokenUsage(
+            promptTokens: $promptTokens,
+            completionTokens: $completionTokens,
+            totalTokens: $promptTokens + $completionTokens,
+        ));
+
+        return $result;
+    }
+
+    private function vectorResult(?int $promptTokens): VectorResult
+    {
+        $result = new VectorResult(new Vector([0.1, 0.2, 0.3]));
+        if (null !== $promptTokens) {
+            $result->getMetadata()->add('token_usage', new TokenUsage(promptTokens: $promptTokens, totalTokens: $promptTokens));
+        }
+
+        return $result;
+    }
+}
@@ -6,6 +6,7 @@ use Hakam\AiLogInspector\Platform\LogDocumentPlatformInterface;
 use Hakam\AiLogInspector\Retriever\LogRetrieverInterface;
 use Hakam\AiLogInspector\Store\VectorLogStoreInterface;
 use Hakam\AiLogInspector\Tool\LogSearchTool;
+use Hakam\AiLogInspector\Tool\ToolCallRecorder;
 use PHPUnit\Framework\TestCase;
 use Symfony\AI\Platform\Result\ResultInterface;
 use Symfony\AI\Platform\Vector\Vector;
@@ -598,4 +599,45 @@ class LogSearchToolTest extends TestCase
         $this->assertTrue($result['success']);
         $this->assertCount(1, $result['evidence_logs']);
     }
+
+    public function testInvokeRecordsFallbackToKeywordSearch(): void
+    {
+        $recorder = new ToolCallRecorder();
+        $this->retriever = $this->createMock(LogRetrieverInterface::class);
+        $this->retriever->method('retrieve')
+            ->willThrowException(new \Exception('Retrieval failed'));
+        $this->tool = new LogSearchTool($this->store, $this->retriever, $this->platform, $recorder);
+
+        $resultDocument = new VectorDocument(
+            Uuid::v4(),
+            new Vector([0.5, 0.5, 0.5, 0.5, 0.5]),
+            new Metadata([
+                'log_id' => 'log_001',
+                'content' => 'payment gateway timeout',
+                'message' => 'payment gateway timeout',
+                'category' => 'payment',
+            ]),
+            null
+        );
+
+        $platformResult = $this->createMock(ResultInterface::class);
+        $platformResult->method('getContent')->willReturn('Gateway timed out');
+        $this->platform->method('__invoke')->willReturn($platformResult);
+        $this->store->method('queryForVector')->willReturn([$resultDocument]);
+
+        $result = $this->tool->__invoke('payment timeout');
+
+        $this->assertSame('Retrieval failed', $result['fallback_reason']);
+
+        $calls = $recorder->getCalls();
+        $this->assertCount(1, $calls);
+        $this->assertSame('log_search', $calls[0]['tool']);
+        $this->assertSame(['query' => 'payment timeout'], $calls[0]['arguments']);
+        $this->assertTrue($calls[0]['success']);
+        $this->assertSame('keyword-based', $calls[0]['search_method']);
+        $this->assertSame(1, $calls[0]['log_count']);
+        $this->assertSame(['log_001'], $calls[0]['log_ids']);
+        $this->assertTrue($calls[0]['fallback']);
+        $this->assertSame('Retrieval failed', $calls[0]['fallback_reason']);
+    }
 }
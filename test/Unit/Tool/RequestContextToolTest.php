@@ -312,6 +312,81 @@ class RequestContextToolTest extends TestCase
         $this->assertEquals($identifier, $result['identifier']);
     }
 
+    public function testTraceWithEmptyIdentifier(): void
+    {
+        $result = $this->tool->trace('  ');
+
+        $this->assertFalse($result['success']);
+        $this->assertSame([], $result['steps']);
+        $this->assertNull($result['failing_step']);
+        $this->assertEquals('none', $result['search_method']);
+    }
+
+    public function testTraceReturnsChronologicalStepsWithGaps(): void
+    {
+        $mockResults = [
+            $this->createMockVectorDocument('log2', 'Payment gateway timeout req_trace1', [
+                'timestamp' => '2024-01-15 14:00:04',
+                'level' => 'error',
+                'channel' => 'payment',
+            ]),
+            $this->createMockVectorDocument('log1', 'Incoming HTTP request req_trace1', [
+                'timestamp' => '2024-01-15 14:00:00',
+                'channel' => 'request',
+            ]),
+            $this->createMockVectorDocument('log3', 'Order marked as failed req_trace1', [
+                'timestamp' => '2024-01-15 14:00:05',
+                'level' => 'warning',
+                'source' => 'order-service',
+                'channel' => 'app',
+            ]),
+        ];
+
+        $this->store
+            ->expects($this->atLeast(1))
+            ->method('queryForVector')
+            ->willReturn($mockResults);
+
+        // No LLM analysis for traces
+        $this->platform->expects($this->never())->method('__invoke');
+
+        $result = $this->tool->trace('req_trace1');
+
+        $this->assertTrue($result['success']);
+        $this->assertEquals('keyword-based (fallback)', $result['search_method']);
+        $this->assertSame(['log1', 'log2', 'log3'], array_column($result['steps'], 'id'));
+        $this->assertSame([null, 4, 1], array_column($result['steps'], 'gap_seconds'));
+        $this->assertSame([0, 4, 5], array_column($result['steps'], 'offset_seconds'));
+        $this->assertSame(['request', 'payment', 'order-service'], array_column($result['steps'], 'service'));
+        $this->assertSame(['request' => 1, 'payment' => 1, 'order-service' => 1], $result['services']);
+        $this->assertEquals(5, $result['time_span']['duration_seconds']);
+    }
+
+    public function testTraceHighlightsFirstFailingStep(): void
+    {
+        $mockResults = [
+            $this->createMockVectorDocument('log1', 'Started req_fail', ['timestamp' => '2024-01-15 14:00:00']),
+            $this->createMockVectorDocument('log2', 'Database error req_fail', [
+                'timestamp' => '2024-01-15 14:00:01',
+                'level' => 'critical',
+            ]),
+            $this->createMockVectorDocument('log3', 'Retry failed req_fail', [
+                'timestamp' => '2024-01-15 14:00:02',
+                'level' => 'error',
+            ]),
+        ];
+
+        $this->store
+            ->method('queryForVector')
+            ->willReturn($mockResults);
+
+        $result = $this->tool->trace('req_fail');
+
+        $this->assertEquals(1, $result['failing_step']);
+        $this->assertSame([false, true, true], array_column($result['steps'], 'is_failure'));
+        $this->assertEquals('started', $result['steps'][0]['event_type']);
+    }
+
     private function createMockVectorDocument(string $id, string $content, array $additionalMetadata = []): VectorDocument
     {
         $metadataArray = array_merge([
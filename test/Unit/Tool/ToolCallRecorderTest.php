@@ -0,0 +1,79 @@
+<?php
+
+namespace Hakam\AiLogInspector\Test\Unit\Tool;
+
+use Hakam\AiLogInspector\Tool\ToolCallRecorder;
+use PHPUnit\Framework\TestCase;
+
+class ToolCallRecorderTest extends TestCase
+{
+    public function testGetCallsIsEmptyInitially(): void
+    {
+        $recorder = new ToolCallRecorder();
+
+        $this->assertSame([], $recorder->getCalls());
+    }
+
+    public function testRecordSummarizesResult(): void
+    {
+        $recorder = new ToolCallRecorder();
+
+        $recorder->record('log_search', ['query' => 'payment errors'], [
+            'success' => true,
+            'reason' => "Payment gateway\n timed out",
+            'evidence_logs' => [['id' => 'log_001'], ['id' => 'log_002']],
+            'search_method' => 'semantic',
+            'log_count' => 2,
+            'query' => 'payment errors',
+        ], 12.6);
+
+        $call = $recorder->getCalls()[0];
+        $this->assertSame('log_search', $call['tool']);
+        $this->assertSame(['query' => 'payment errors'], $call['arguments']);
+        $this->assertTrue($call['success']);
+        $this->assertSame('Payment gateway timed out', $call['summary']);
+        $this->assertSame('semantic', $call['search_method']);
+        $this->assertSame(2, $call['log_count']);
+        $this->assertSame(['log_001', 'log_002'], $call['log_ids']);
+        $this->assertFalse($call['fallback']);
+        $this->assertNull($call['fallback_reason']);
+        $this->assertSame(13, $call['duration_ms']);
+    }
+
+    public function testRecordDetectsFallbackFromSearchMethod(): void
+    {
+        $recorder = new ToolCallRecorder();
+
+        $recorder->record('request_context', ['identifier' => 'req_1'], [
+            'success' => false,
+            'reason' => 'No logs found',
+            'evidence_logs' => [],
+            'search_method' => 'keyword-based (fallback)',
+        ], 1.0);
+
+        $call = $recorder->getCalls()[0];
+        $this->assertTrue($call['fallback']);
+        $this->assertSame(0, $call['log_count']);
+        $this->assertSame([], $call['log_ids']);
+    }
+
+    public function testRecordTruncatesLongSummaries(): void
+    {
+        $recorder = new ToolCallRecorder();
+
+        $recorder->record('log_search', [], ['message' => str_repeat('a', 500)], 0.0);
+
+        $this->assertSame(200, strlen($recorder->getCalls()[0]['summary']));
+        $this->assertStringEndsWith('...', $recorder->getCalls()[0]['summary']);
+    }
+
+    public function testResetForgetsCalls(): void
+    {
+        $recorder = new ToolCallRecorder();
+        $recorder->record('log_search', [], ['success' => true], 0.0);
+
+        $recorder->reset();
+
+        $this->assertSame([], $recorder->getCalls());
+    }
+}
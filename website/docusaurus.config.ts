@@ -1,6 +1,7 @@
 import {themes as prismThemes} from 'prism-react-renderer';
 import type {Config} from '@docusaurus/types';
 import type * as Preset from '@docusaurus/preset-classic';
+import sampleLogsPlugin from './plugins/sample-logs';
 
 // This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
 
@@ -55,6 +56,8 @@ const config: Config = {
     ],
   ],
 
+  plugins: [sampleLogsPlugin],
+
   themeConfig: {
     // Replace with your project's social card
     image: 'img/docusaurus-social-card.jpg',
@@ -79,6 +82,11 @@ const config: Config = {
           label: '🎮 Playground',
           position: 'left',
         },
+        {
+          to: '/evaluation',
+          label: '🧪 Evaluation',
+          position: 'left',
+        },
         {
           type: 'docSidebar',
           sidebarId: 'docsSidebar',
@@ -0,0 +1,48 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { LoadContext, Plugin } from '@docusaurus/types';
+import type { SampleLogFile } from '../src/demo/fixtures';
+
+/**
+ * Same files, in the same order, as loadSampleLogs() in examples/playground-api.php,
+ * so that the offline demo numbers the sample logs exactly like the server does.
+ */
+const SAMPLE_LOG_FILES: Array<Omit<SampleLogFile, 'content'>> = [
+  { category: 'payment', fileName: 'payment-errors.log' },
+  { category: 'database', fileName: 'database-errors.log' },
+  { category: 'security', fileName: 'security-errors.log' },
+  { category: 'application', fileName: 'application-errors.log' },
+  { category: 'kubernetes', fileName: 'kubernetes-errors.log' },
+  { category: 'microservices', fileName: 'microservices-errors.log' },
+  { category: 'symfony', fileName: 'symfony.log' },
+  { category: 'laravel-info', fileName: 'laravel.log' },
+];
+
+/**
+ * Bundles the fixture logs of test/fixtures/logs at build time, for the
+ * playground's offline demo. Read them with `usePluginData('sample-logs')`.
+ */
+export default function sampleLogsPlugin(context: LoadContext): Plugin<SampleLogFile[]> {
+  const fixturesDir = path.resolve(context.siteDir, '../test/fixtures/logs');
+
+  return {
+    name: 'sample-logs',
+
+    async loadContent() {
+      return Promise.all(
+        SAMPLE_LOG_FILES.map(async file => ({
+          ...file,
+          content: await readFile(path.join(fixturesDir, file.fileName), 'utf8'),
+        })),
+      );
+    },
+
+    async contentLoaded({ content, actions }) {
+      actions.setGlobalData(content);
+    },
+
+    getPathsToWatch() {
+      return SAMPLE_LOG_FILES.map(file => path.join(fixturesDir, file.fileName));
+    },
+  };
+}
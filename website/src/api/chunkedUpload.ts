@@ -0,0 +1,104 @@
+import { ApiAbortedError, ApiNetworkError, ApiTimeoutError } from './errors';
+import type { PlaygroundApi, RequestOptions, SessionRequest, UploadResponse, UploadTarget } from './types';
+
+/** Must stay below MAX_CHUNK_SIZE in examples/playground-api.php. */
+export const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+
+export interface UploadInChunksOptions extends RequestOptions {
+  chunkSize?: number;
+  /** Attempts per chunk after network errors and timeouts. */
+  maxRetries?: number;
+  /** Called after every chunk, including the ones the server already had. */
+  onProgress?: (sentBytes: number, totalBytes: number) => void;
+}
+
+/**
+ * Uploads `file` in slices through `/upload/chunk`, then asks the server to
+ * reassemble and index it. Resolves with the initial indexing status, to be
+ * passed to waitForIndexing().
+ *
+ * The upload id is derived from the session and the file, so retrying the same
+ * file after a dropped connection only sends the chunks the server is missing.
+ * Aborting through `signal` discards the chunks received so far.
+ */
+export async function uploadInChunks(
+  api: PlaygroundApi,
+  request: SessionRequest & UploadTarget & { file: File },
+  { chunkSize = DEFAULT_CHUNK_SIZE, maxRetries = 3, onProgress, signal, timeoutMs }: UploadInChunksOptions = {},
+): Promise<UploadResponse> {
+  const { file, ...session } = request;
+  const uploadId = createUploadId(session.session_id, file);
+  const totalChunks = Math.max(1, Math.ceil(file.size / chunkSize));
+
+  const status = await withRetries(() => api.uploadStatus(uploadId, { signal }), maxRetries, signal);
+  const received = new Set(status.received_chunks);
+
+  let sentBytes = 0;
+  const chunkBytes = (index: number) => Math.min(chunkSize, file.size - index * chunkSize);
+  for (const index of received) {
+    if (index < totalChunks) {
+      sentBytes += chunkBytes(index);
+    }
+  }
+  onProgress?.(sentBytes, file.size);
+
+  try {
+    for (let index = 0; index < totalChunks; index++) {
+      if (received.has(index)) {
+        continue;
+      }
+      const chunk = file.slice(index * chunkSize, (index + 1) * chunkSize);
+      await withRetries(
+        () => api.uploadChunk({ upload_id: uploadId, index, total_chunks: totalChunks, chunk }, { signal, timeoutMs }),
+        maxRetries,
+        signal,
+      );
+      sentBytes += chunk.size;
+      onProgress?.(sentBytes, file.size);
+    }
+
+    return await api.completeUpload(
+      { ...session, upload_id: uploadId, file_name: file.name, file_size: file.size, total_chunks: totalChunks },
+      { signal },
+    );
+  } catch (error) {
+    if (signal?.aborted) {
+      // Best effort: the chunks are useless once the user cancelled.
+      await api.abortUpload(uploadId).catch(() => undefined);
+    }
+    throw error;
+  }
+}
+
+function createUploadId(sessionId: string, file: File): string {
+  const name = file.name.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 64);
+  return `${sessionId}-${name}-${file.size}-${file.lastModified}`;
+}
+
+async function withRetries<T>(call: () => Promise<T>, maxRetries: number, signal?: AbortSignal): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await call();
+    } catch (error) {
+      const transient = error instanceof ApiNetworkError || error instanceof ApiTimeoutError;
+      if (!transient || attempt >= maxRetries || signal?.aborted) {
+        throw error;
+      }
+      await backoff(attempt, signal);
+    }
+  }
+}
+
+function backoff(attempt: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, 500 * 2 ** attempt);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ApiAbortedError('/upload/chunk'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
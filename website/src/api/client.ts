@@ -0,0 +1,444 @@
+import {
+  ApiAbortedError,
+  ApiNetworkError,
+  ApiResponseFormatError,
+  ApiServerError,
+  ApiTimeoutError,
+} from './errors';
+import type {
+  AnalyzeRequest,
+  AnalyzeResponse,
+  ChatRequest,
+  ChatResponse,
+  ChatStreamHandlers,
+  ChunkedUploadStatus,
+  CompareRequest,
+  CompleteUploadRequest,
+  HealthResponse,
+  HistoryResponse,
+  InitStatusResponse,
+  LogNeighboursResponse,
+  LogsQuery,
+  LogsResponse,
+  PlatformCatalogResponse,
+  PlaygroundApi,
+  RequestOptions,
+  ResetResponse,
+  SessionRequest,
+  TraceRequest,
+  TraceResponse,
+  UploadChunkRequest,
+  UploadRequest,
+  UploadResponse,
+} from './types';
+import {
+  DecodeError,
+  decodeAnalyze,
+  decodeChat,
+  decodeChunkedUploadStatus,
+  decodeErrorBody,
+  decodeHealth,
+  decodeHistory,
+  decodeInitStatus,
+  decodeLogNeighbours,
+  decodeLogs,
+  decodePlatformCatalog,
+  decodeReset,
+  decodeTrace,
+  decodeUpload,
+} from './validation';
+import { readServerSentEvents } from './sse';
+
+export const DEFAULT_API_URL = 'http://localhost:8080';
+
+/**
+ * Default timeouts per kind of request. The PHP server allows up to 300s
+ * for agent and indexing calls (set_time_limit), so those get the same budget.
+ */
+export const TIMEOUTS = {
+  quick: 10_000,
+  indexing: 300_000,
+  chat: 300_000,
+  chunk: 60_000,
+} as const;
+
+/**
+ * API URL - can be configured via query param: ?api=https://your-api.com
+ */
+export function resolveApiUrl(): string {
+  if (typeof window !== 'undefined') {
+    const params = new URLSearchParams(window.location.search);
+    const customApi = params.get('api');
+    if (customApi) {
+      return customApi.replace(/\/+$/, '');
+    }
+  }
+  return DEFAULT_API_URL;
+}
+
+/**
+ * Aborts when either the caller's signal fires or the timeout elapses,
+ * and remembers which of the two happened.
+ */
+export function createRequestSignal(signal: AbortSignal | undefined, timeoutMs: number) {
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const onAbort = () => controller.abort();
+  if (signal?.aborted) {
+    controller.abort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  return {
+    signal: controller.signal,
+    timedOut: () => timedOut,
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+/**
+ * HTTP implementation of the playground API contract.
+ */
+export class PlaygroundApiClient implements PlaygroundApi {
+  constructor(
+    public readonly baseUrl: string = DEFAULT_API_URL,
+    private readonly fetchImpl: typeof fetch = (input, init) => fetch(input, init),
+  ) {}
+
+  health(options?: RequestOptions): Promise<HealthResponse> {
+    return this.request('/health', { method: 'GET' }, decodeHealth, TIMEOUTS.quick, options);
+  }
+
+  platforms(ollamaHost?: string, options?: RequestOptions): Promise<PlatformCatalogResponse> {
+    const query = ollamaHost ? `?${new URLSearchParams({ ollama_host: ollamaHost })}` : '';
+    return this.request(`/platforms${query}`, { method: 'GET' }, decodePlatformCatalog, TIMEOUTS.quick, options);
+  }
+
+  init(request: SessionRequest, options?: RequestOptions): Promise<InitStatusResponse> {
+    return this.request('/init', jsonBody(request), decodeInitStatus, TIMEOUTS.indexing, options);
+  }
+
+  initStatus(sessionId: string, options?: RequestOptions): Promise<InitStatusResponse> {
+    return this.request(
+      `/init-status?${new URLSearchParams({ session_id: sessionId })}`,
+      { method: 'GET' },
+      decodeInitStatus,
+      TIMEOUTS.quick,
+      options,
+    );
+  }
+
+  upload(request: UploadRequest, options?: RequestOptions): Promise<UploadResponse> {
+    const { file, file_name, ...fields } = request;
+    const formData = new FormData();
+    formData.append('file', file, file_name ?? (file instanceof File ? file.name : 'upload.log'));
+    for (const [key, value] of Object.entries(fields)) {
+      if (value !== undefined) {
+        formData.append(key, String(value));
+      }
+    }
+
+    return this.request('/upload', { method: 'POST', body: formData }, decodeUpload, TIMEOUTS.indexing, options);
+  }
+
+  uploadStatus(uploadId: string, options?: RequestOptions): Promise<ChunkedUploadStatus> {
+    return this.request(
+      `/upload/status?${new URLSearchParams({ upload_id: uploadId })}`,
+      { method: 'GET' },
+      decodeChunkedUploadStatus,
+      TIMEOUTS.quick,
+      options,
+    );
+  }
+
+  uploadChunk(request: UploadChunkRequest, options?: RequestOptions): Promise<ChunkedUploadStatus> {
+    const query = new URLSearchParams({
+      upload_id: request.upload_id,
+      index: String(request.index),
+      total: String(request.total_chunks),
+    });
+    return this.request(
+      `/upload/chunk?${query}`,
+      { method: 'POST', headers: { 'Content-Type': 'application/octet-stream' }, body: request.chunk },
+      decodeChunkedUploadStatus,
+      TIMEOUTS.chunk,
+      options,
+    );
+  }
+
+  completeUpload(request: CompleteUploadRequest, options?: RequestOptions): Promise<UploadResponse> {
+    return this.request('/upload/complete', jsonBody(request), decodeUpload, TIMEOUTS.indexing, options);
+  }
+
+  abortUpload(uploadId: string, options?: RequestOptions): Promise<ResetResponse> {
+    return this.request('/upload/abort', jsonBody({ upload_id: uploadId }), decodeReset, TIMEOUTS.quick, options);
+  }
+
+  logs(sessionId: string, query: LogsQuery = {}, options?: RequestOptions): Promise<LogsResponse> {
+    const params = new URLSearchParams({ session_id: sessionId });
+    if (query.offset !== undefined) params.set('offset', String(query.offset));
+    if (query.limit !== undefined) params.set('limit', String(query.limit));
+    if (query.levels?.length) params.set('level', query.levels.join(','));
+    if (query.categories?.length) params.set('category', query.categories.join(','));
+    if (query.sources?.length) params.set('source', query.sources.join(','));
+    if (query.id) params.set('id', query.id);
+    if (query.from) params.set('from', query.from);
+    if (query.to) params.set('to', query.to);
+    if (query.histogram) params.set('histogram', String(query.histogram));
+
+    return this.request(
+      `/logs?${params}`,
+      { method: 'GET' },
+      decodeLogs,
+      TIMEOUTS.quick,
+      options,
+    );
+  }
+
+  logNeighbours(
+    sessionId: string,
+    logId: string,
+    radius = 5,
+    options?: RequestOptions,
+  ): Promise<LogNeighboursResponse> {
+    return this.request(
+      `/logs/around?${new URLSearchParams({ session_id: sessionId, id: logId, radius: String(radius) })}`,
+      { method: 'GET' },
+      decodeLogNeighbours,
+      TIMEOUTS.quick,
+      options,
+    );
+  }
+
+  chat(request: ChatRequest, options?: RequestOptions): Promise<ChatResponse> {
+    return this.request('/chat', jsonBody(request), decodeChat, TIMEOUTS.chat, options);
+  }
+
+  compare(request: CompareRequest, options?: RequestOptions): Promise<ChatResponse> {
+    return this.request('/compare', jsonBody(request), decodeChat, TIMEOUTS.chat, options);
+  }
+
+  analyze(request: AnalyzeRequest, options?: RequestOptions): Promise<AnalyzeResponse> {
+    return this.request('/analyze', jsonBody(request), decodeAnalyze, TIMEOUTS.chat, options);
+  }
+
+  trace(request: TraceRequest, options?: RequestOptions): Promise<TraceResponse> {
+    return this.request('/trace', jsonBody(request), decodeTrace, TIMEOUTS.chat, options);
+  }
+
+  async chatStream(
+    request: ChatRequest,
+    handlers: ChatStreamHandlers,
+    options?: RequestOptions,
+  ): Promise<ChatResponse> {
+    const sent = await this.send('/chat', jsonBody({ ...request, stream: true }), TIMEOUTS.chat, options);
+    const { endpoint, response, release, failure } = sent;
+
+    // Servers without streaming support ignore the flag and answer with plain JSON.
+    if (!response.body || !response.headers.get('Content-Type')?.includes('text/event-stream')) {
+      return this.decodeBody(sent, decodeChat);
+    }
+
+    let final: ChatResponse | null = null;
+    let serverError: ApiServerError | null = null;
+    try {
+      await readServerSentEvents(response.body, ({ event, data }) => {
+        const payload = parseEventData(endpoint, data);
+        switch (event) {
+          case 'delta':
+            handlers.onDelta?.(String((payload as { content?: unknown }).content ?? ''));
+            break;
+          case 'done':
+            final = decodeOrThrow(endpoint, payload, decodeChat);
+            break;
+          case 'error':
+            serverError = new ApiServerError(
+              endpoint,
+              response.status,
+              decodeErrorBody(payload) ?? { error: 'Streaming failed' },
+            );
+            break;
+        }
+      });
+    } catch (error) {
+      if (error instanceof ApiResponseFormatError) {
+        throw error;
+      }
+      throw failure(error);
+    } finally {
+      release();
+    }
+
+    if (serverError) {
+      throw serverError;
+    }
+    if (!final) {
+      throw new ApiResponseFormatError(endpoint, 'stream ended without a final response');
+    }
+    return final;
+  }
+
+  history(sessionId: string, options?: RequestOptions): Promise<HistoryResponse> {
+    return this.request(
+      `/history?${new URLSearchParams({ session_id: sessionId })}`,
+      { method: 'GET' },
+      decodeHistory,
+      TIMEOUTS.quick,
+      options,
+    );
+  }
+
+  reset(sessionId: string, options?: RequestOptions): Promise<ResetResponse> {
+    return this.request('/reset', jsonBody({ session_id: sessionId }), decodeReset, TIMEOUTS.quick, options);
+  }
+
+  /**
+   * Sends the request and returns the response once it is known to be 2xx.
+   * The timeout keeps running until the caller has consumed the body and
+   * calls `release()`, so slow or streaming bodies are covered too.
+   */
+  protected async send(
+    path: string,
+    init: RequestInit,
+    defaultTimeoutMs: number,
+    options: RequestOptions = {},
+  ): Promise<SentRequest> {
+    const endpoint = path.split('?')[0];
+    const timeoutMs = options.timeoutMs ?? defaultTimeoutMs;
+    const requestSignal = createRequestSignal(options.signal, timeoutMs);
+
+    let response: Response;
+    try {
+      response = await this.fetchImpl(`${this.baseUrl}${path}`, { ...init, signal: requestSignal.signal });
+    } catch (error) {
+      requestSignal.dispose();
+      throw toTransportError(endpoint, error, requestSignal.timedOut(), timeoutMs, options.signal);
+    }
+
+    if (!response.ok) {
+      const payload = await readJson(response).catch(() => null);
+      requestSignal.dispose();
+      throw new ApiServerError(
+        endpoint,
+        response.status,
+        decodeErrorBody(payload) ?? { error: `HTTP ${response.status} ${response.statusText}`.trim() },
+      );
+    }
+
+    return {
+      endpoint,
+      response,
+      release: requestSignal.dispose,
+      failure: (error: unknown) =>
+        toTransportError(endpoint, error, requestSignal.timedOut(), timeoutMs, options.signal),
+    };
+  }
+
+  private async request<T>(
+    path: string,
+    init: RequestInit,
+    decode: (payload: unknown) => T,
+    defaultTimeoutMs: number,
+    options?: RequestOptions,
+  ): Promise<T> {
+    return this.decodeBody(await this.send(path, init, defaultTimeoutMs, options), decode);
+  }
+
+  private async decodeBody<T>(sent: SentRequest, decode: (payload: unknown) => T): Promise<T> {
+    const { endpoint, response, release, failure } = sent;
+
+    let body: string;
+    try {
+      body = await response.text();
+    } catch (error) {
+      throw failure(error);
+    } finally {
+      release();
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      throw new ApiResponseFormatError(endpoint, 'body is not valid JSON');
+    }
+
+    // The PHP handlers may report failures with a 200 and an `error` field.
+    const errorBody = decodeErrorBody(payload);
+    if (errorBody) {
+      throw new ApiServerError(endpoint, response.status, errorBody);
+    }
+
+    return decodeOrThrow(endpoint, payload, decode);
+  }
+}
+
+function decodeOrThrow<T>(endpoint: string, payload: unknown, decode: (payload: unknown) => T): T {
+  try {
+    return decode(payload);
+  } catch (error) {
+    if (error instanceof DecodeError) {
+      throw new ApiResponseFormatError(endpoint, error.message);
+    }
+    throw error;
+  }
+}
+
+function parseEventData(endpoint: string, data: string): unknown {
+  try {
+    return JSON.parse(data);
+  } catch {
+    throw new ApiResponseFormatError(endpoint, 'stream event is not valid JSON');
+  }
+}
+
+export interface SentRequest {
+  endpoint: string;
+  response: Response;
+  /** Stops the timeout; call once the body has been consumed. */
+  release: () => void;
+  /** Maps an error raised while reading the body to a client error. */
+  failure: (error: unknown) => Error;
+}
+
+function toTransportError(
+  endpoint: string,
+  error: unknown,
+  timedOut: boolean,
+  timeoutMs: number,
+  callerSignal?: AbortSignal,
+): Error {
+  if (timedOut) {
+    return new ApiTimeoutError(endpoint, timeoutMs);
+  }
+  if (callerSignal?.aborted) {
+    return new ApiAbortedError(endpoint);
+  }
+  return new ApiNetworkError(endpoint, error);
+}
+
+function jsonBody(body: object): RequestInit {
+  return {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  };
+}
+
+async function readJson(response: Response): Promise<unknown> {
+  return JSON.parse(await response.text());
+}
+
+export function createPlaygroundClient(baseUrl: string = resolveApiUrl()): PlaygroundApi {
+  return new PlaygroundApiClient(baseUrl);
+}
@@ -0,0 +1,79 @@
+import type { ApiErrorBody } from './types';
+
+/**
+ * Base class of every error thrown by the playground API client.
+ */
+export class PlaygroundApiError extends Error {
+  constructor(message: string, public readonly endpoint: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * The server answered with a non-2xx status or an `error` body.
+ */
+export class ApiServerError extends PlaygroundApiError {
+  public readonly file?: string;
+  public readonly line?: number;
+
+  constructor(endpoint: string, public readonly status: number, body: ApiErrorBody) {
+    super(body.error, endpoint);
+    this.file = body.file;
+    this.line = body.line;
+  }
+
+  /**
+   * Validation errors (400) are caused by the request, not the server.
+   */
+  isClientError(): boolean {
+    return this.status >= 400 && this.status < 500;
+  }
+}
+
+/**
+ * The server could not be reached (not running, CORS, DNS...).
+ */
+export class ApiNetworkError extends PlaygroundApiError {
+  constructor(endpoint: string, public readonly cause?: unknown) {
+    super(`Could not reach the playground API (${endpoint})`, endpoint);
+  }
+}
+
+export class ApiTimeoutError extends PlaygroundApiError {
+  constructor(endpoint: string, public readonly timeoutMs: number) {
+    super(`Request to ${endpoint} timed out after ${Math.round(timeoutMs / 1000)}s`, endpoint);
+  }
+}
+
+/**
+ * The request was cancelled by the caller's AbortSignal.
+ */
+export class ApiAbortedError extends PlaygroundApiError {
+  constructor(endpoint: string) {
+    super(`Request to ${endpoint} was cancelled`, endpoint);
+  }
+}
+
+/**
+ * The response body did not match the expected contract.
+ */
+export class ApiResponseFormatError extends PlaygroundApiError {
+  constructor(endpoint: string, public readonly reason: string) {
+    super(`Unexpected response from ${endpoint}: ${reason}`, endpoint);
+  }
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof ApiAbortedError;
+}
+
+/**
+ * Human readable message for any error raised while talking to the API.
+ */
+export function describeError(error: unknown, fallback = 'Request failed'): string {
+  if (error instanceof ApiServerError && error.file) {
+    return `${error.message} (${error.file}:${error.line ?? '?'})`;
+  }
+  return error instanceof Error ? error.message : fallback;
+}
@@ -0,0 +1,11 @@
+export * from './types';
+export * from './errors';
+export {
+  DEFAULT_API_URL,
+  TIMEOUTS,
+  PlaygroundApiClient,
+  createPlaygroundClient,
+  resolveApiUrl,
+} from './client';
+export { waitForIndexing, formatEta, type WaitForIndexingOptions } from './progress';
+export { uploadInChunks, DEFAULT_CHUNK_SIZE, type UploadInChunksOptions } from './chunkedUpload';
@@ -0,0 +1,69 @@
+import { TIMEOUTS } from './client';
+import { ApiAbortedError, ApiServerError } from './errors';
+import type { InitStatusResponse, PlaygroundApi, RequestOptions } from './types';
+
+export interface WaitForIndexingOptions extends RequestOptions {
+  /** Delay between two `/init-status` polls. */
+  intervalMs?: number;
+  onProgress?: (status: InitStatusResponse) => void;
+}
+
+/**
+ * Polls `/init-status` until the session is ready and reports every status
+ * along the way. Resolves with the final status; rejects if indexing failed.
+ *
+ * `initial` is the response of `/init` or `/upload`: older servers index
+ * synchronously and already answer with `ready`, in which case no poll is made.
+ *
+ * Each poll gets the indexing timeout by default: a single-worker PHP server
+ * only answers it once indexing is done.
+ */
+export async function waitForIndexing(
+  api: PlaygroundApi,
+  sessionId: string,
+  initial: InitStatusResponse,
+  { intervalMs = 500, onProgress, signal, timeoutMs = TIMEOUTS.indexing }: WaitForIndexingOptions = {},
+): Promise<InitStatusResponse> {
+  let status = initial;
+  onProgress?.(status);
+
+  while (status.status === 'indexing') {
+    await delay(intervalMs, signal);
+    status = await api.initStatus(sessionId, { signal, timeoutMs });
+    onProgress?.(status);
+  }
+
+  if (status.status === 'failed') {
+    throw new ApiServerError('/init-status', 500, { error: status.message || 'Indexing failed' });
+  }
+  return status;
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ApiAbortedError('/init-status'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ApiAbortedError('/init-status'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * "2m 05s" style label for an ETA in seconds.
+ */
+export function formatEta(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${String(seconds % 60).padStart(2, '0')}s`;
+}
@@ -0,0 +1,473 @@
+/**
+ * Request and response contracts of the playground API (examples/playground-api.php).
+ *
+ * Field names mirror the JSON the PHP server emits, so they stay snake_case.
+ */
+
+export type PlatformId = 'openai' | 'anthropic' | 'ollama';
+
+export interface LogEntry {
+  id: string;
+  level: string;
+  message: string;
+  timestamp: string;
+  category?: string;
+  channel?: string;
+  context?: Record<string, unknown>;
+  /** Monolog `extra` (processors output), printed after the context. */
+  extra?: Record<string, unknown>;
+  /** Business data added at indexing time (LogDataDTO::$enrichedData). */
+  enriched_data?: Record<string, unknown>;
+  /** The original line, as read from the file. */
+  raw?: string;
+  /** Name of the file the line comes from. */
+  source?: string;
+}
+
+/**
+ * Platform and model selection sent with every stateful request.
+ * API keys travel per request and are never stored by the server.
+ */
+export interface PlatformCredentials {
+  platform: PlatformId;
+  brain_model: string;
+  embedding_model: string;
+  api_key: string;
+  ollama_host: string;
+}
+
+export interface SessionRequest extends PlatformCredentials {
+  session_id: string;
+}
+
+export interface ChatRequest extends SessionRequest {
+  question: string;
+}
+
+/**
+ * A brain model to compare with, on its own platform and credentials.
+ */
+export interface CompareCandidate {
+  platform: PlatformId;
+  brain_model: string;
+  api_key: string;
+  ollama_host: string;
+}
+
+/**
+ * Asks `candidate` the question with the index of the session, which the
+ * session credentials (`platform`, `embedding_model`...) still describe.
+ */
+export interface CompareRequest extends ChatRequest {
+  candidate: CompareCandidate;
+}
+
+/**
+ * Log lines for the brain model to explain, asked once with the analysis
+ * prompt of LogSearchTool: no agent, tools or index are involved.
+ */
+export interface AnalyzeRequest extends Omit<PlatformCredentials, 'embedding_model'> {
+  logs: string[];
+}
+
+export interface TraceRequest extends SessionRequest {
+  /** request_id, trace_id, session_id... as it appears in the logs. */
+  identifier: string;
+}
+
+/**
+ * Where an uploaded file goes in the session. `source` names its logs (the file
+ * name by default); with `append` the file is added to the ones already uploaded
+ * instead of replacing them, and only its logs are indexed.
+ */
+export interface UploadTarget {
+  source?: string;
+  append?: boolean;
+}
+
+export interface UploadRequest extends SessionRequest, UploadTarget {
+  file: Blob;
+  file_name?: string;
+}
+
+/**
+ * One slice of a chunked upload, sent raw to `/upload/chunk`.
+ */
+export interface UploadChunkRequest {
+  upload_id: string;
+  index: number;
+  total_chunks: number;
+  chunk: Blob;
+}
+
+/**
+ * Reassembles the chunks of `upload_id` server-side and starts indexing,
+ * exactly like `/upload` does for a single multipart request.
+ */
+export interface CompleteUploadRequest extends SessionRequest, UploadTarget {
+  upload_id: string;
+  file_name: string;
+  file_size: number;
+  total_chunks: number;
+}
+
+export interface HealthResponse {
+  status: string;
+  storage: string;
+  supported_platforms: string[];
+  message: string;
+  features: string[];
+}
+
+export interface CatalogModel {
+  name: string;
+  /** Whether the model is pulled on the Ollama server; null on other platforms or when Ollama is unreachable. */
+  installed: boolean | null;
+}
+
+/**
+ * What a platform supports, from PlatformCatalog.
+ */
+export interface PlatformCatalogEntry {
+  id: PlatformId;
+  requires_api_key: boolean;
+  /** False when logs can only be indexed with category vectors (keyword search). */
+  supports_embeddings: boolean;
+  default_brain_model: string;
+  default_embedding_model: string | null;
+  brain_models: CatalogModel[];
+  embedding_models: CatalogModel[];
+}
+
+export interface OllamaDiscovery {
+  host: string;
+  reachable: boolean;
+  /** Pulled models, tag included (e.g. "llama3.1:latest"). */
+  installed: string[];
+  error: string | null;
+}
+
+/**
+ * Returned by `/platforms`. `ollama` is null when the server does not know Ollama.
+ */
+export interface PlatformCatalogResponse {
+  platforms: PlatformCatalogEntry[];
+  ollama: OllamaDiscovery | null;
+}
+
+export type InitState = 'ready' | 'indexing' | 'failed';
+
+export type IndexingPhase = 'parsing' | 'embedding' | 'storing' | 'done';
+
+export interface PhaseProgress {
+  done: number;
+  total: number;
+}
+
+/**
+ * Content of the `<session>-init.json` status file, returned by
+ * `/init`, `/upload` and `/init-status`.
+ *
+ * `/init` and `/upload` answer as soon as indexing has started
+ * (`status: 'indexing'`); poll `/init-status` until it is `ready`.
+ */
+export interface InitStatusResponse {
+  initialized: boolean;
+  status: InitState | string;
+  message: string;
+  progress: number;
+  logs_count: number;
+  storage?: string;
+  session_id?: string;
+  brain_model?: string;
+  embedding_model?: string;
+  phase?: IndexingPhase | string;
+  phases?: Partial<Record<IndexingPhase, PhaseProgress>>;
+  eta_seconds?: number;
+  elapsed_ms?: number;
+  file_name?: string;
+  /** Source name given to the uploaded file, made unique within the session. */
+  source?: string;
+  /** Logs of the uploaded file; `logs_count` counts every log of the session. */
+  added_count?: number;
+  /** Logs per source over the whole session. */
+  sources?: Record<string, number>;
+  /** Tokens spent indexing, once ready. */
+  usage?: TokenUsage | null;
+}
+
+/**
+ * Final status of an upload. The indexing details are only known once
+ * `/init-status` reports `ready`.
+ */
+export interface UploadResponse extends InitStatusResponse {
+  indexed_with_embeddings?: boolean;
+  duration_ms?: number;
+}
+
+/**
+ * A log entry and the entries around it in the same file, from `/logs/around`.
+ */
+export interface LogNeighboursResponse {
+  log: LogEntry;
+  before: LogEntry[];
+  after: LogEntry[];
+}
+
+/**
+ * Chunks the server already holds for an upload; used to resume.
+ */
+export interface ChunkedUploadStatus {
+  upload_id: string;
+  received_chunks: number[];
+  received_bytes: number;
+}
+
+/**
+ * Query parameters of `/logs`. List filters match any of the given values.
+ */
+export interface LogsQuery {
+  offset?: number;
+  limit?: number;
+  levels?: string[];
+  categories?: string[];
+  sources?: string[];
+  /** Substring of the log id. */
+  id?: string;
+  /** Inclusive bounds, "YYYY-MM-DD HH:MM:SS" or ISO 8601. */
+  from?: string;
+  to?: string;
+  /** Number of timeline buckets to compute over the filtered logs; none when unset. */
+  histogram?: number;
+}
+
+export interface HistogramBucket {
+  /** "YYYY-MM-DD HH:MM:SS", server local time like the log timestamps. */
+  start: string;
+  /** Logs per (uppercase) level. */
+  counts: Record<string, number>;
+}
+
+export interface LogHistogram {
+  from: string;
+  to: string;
+  bucket_seconds: number;
+  buckets: HistogramBucket[];
+}
+
+export interface LogFacets {
+  levels: Record<string, number>;
+  categories: Record<string, number>;
+  /** Empty with servers that do not tag logs by source. */
+  sources: Record<string, number>;
+}
+
+/**
+ * One page of logs. `count` is the size of the page, `filtered` the number
+ * of logs matching the query and `total` the size of the whole session.
+ */
+export interface LogsResponse {
+  logs: LogEntry[];
+  count: number;
+  total: number;
+  filtered: number;
+  offset: number;
+  limit: number;
+  /** Counts over all logs of the session, to build filter controls. */
+  facets: LogFacets;
+  /** Only when requested with `histogram`, and null when no log has a timestamp. */
+  histogram?: LogHistogram | null;
+}
+
+/**
+ * One tool invocation made by the agent while answering, as recorded by
+ * ToolCallRecorder.
+ */
+export interface ToolCall {
+  tool: string;
+  arguments: Record<string, unknown>;
+  success: boolean;
+  /** The tool's own explanation of what it found. */
+  summary: string;
+  /** e.g. "semantic", "keyword-based", "vector-based"; null when the tool does not search. */
+  search_method: string | null;
+  log_count: number;
+  log_ids: string[];
+  /** True when semantic search failed and keyword search was used instead. */
+  fallback: boolean;
+  fallback_reason: string | null;
+  duration_ms: number;
+}
+
+/**
+ * Tokens one model used within a request.
+ */
+export interface ModelTokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  embedding_tokens: number;
+  calls: number;
+}
+
+/**
+ * Tokens used by every platform call of a request: agent turns, tool analysis
+ * sub-calls and embeddings (of the logs when indexing, of the queries when searching).
+ */
+export interface TokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  embedding_tokens: number;
+  total_tokens: number;
+  /** Platform calls made. */
+  calls: number;
+  /** True when some embedding counts are estimated because the platform did not report them. */
+  estimated: boolean;
+  /** By model name. */
+  models: Record<string, ModelTokenUsage>;
+}
+
+export interface ChatResponse {
+  success: boolean;
+  content: string;
+  evidence_logs: LogEntry[];
+  /** Empty with servers that do not report tool calls. */
+  tool_calls: ToolCall[];
+  /** Null with servers that do not report token usage. */
+  usage: TokenUsage | null;
+  duration_ms: number;
+  model: string;
+  embedding_model?: string;
+  platform?: string;
+  session_id?: string;
+}
+
+export interface AnalyzeResponse {
+  success: boolean;
+  content: string;
+  /** Lines the model was given; the server keeps the last ones of long lists. */
+  log_count: number;
+  /** Null with servers that do not report token usage. */
+  usage: TokenUsage | null;
+  duration_ms: number;
+  model: string;
+  platform?: string;
+}
+
+/**
+ * One log of a request trace, in chronological order.
+ */
+export interface TraceStep {
+  id: string;
+  /** Null when the log has no readable timestamp. */
+  timestamp: string | null;
+  level: string;
+  /** Service, source or channel of the log. */
+  service: string;
+  event_type: string;
+  description: string;
+  content: string;
+  /** Seconds since the first step. */
+  offset_seconds: number | null;
+  /** Seconds since the previous step. */
+  gap_seconds: number | null;
+  is_failure: boolean;
+}
+
+export interface TimeSpan {
+  start_time: string;
+  end_time: string;
+  duration_seconds: number;
+  duration_human: string;
+}
+
+/**
+ * Result of RequestContextTool::trace(), returned by `/trace`.
+ */
+export interface TraceResponse {
+  success: boolean;
+  message: string;
+  identifier: string;
+  steps: TraceStep[];
+  /** Logs per service, in order of first appearance. */
+  services: Record<string, number>;
+  /** Index of the first failing step. */
+  failing_step: number | null;
+  time_span: TimeSpan | null;
+  search_method: string;
+  duration_ms?: number;
+}
+
+export interface HistoryMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Conversation stored by SessionMessageStore, returned by `/history`.
+ */
+export interface HistoryResponse {
+  session_id: string;
+  /** False once the server no longer has the session (e.g. after a reset). */
+  exists: boolean;
+  updated_at: string | null;
+  messages: HistoryMessage[];
+}
+
+export interface ResetResponse {
+  status: string;
+  message: string;
+}
+
+/**
+ * Error body of any non-2xx response. `file` and `line` are only present
+ * when the server caught an exception (e.g. a failed upload).
+ */
+export interface ApiErrorBody {
+  error: string;
+  file?: string;
+  line?: number;
+  path?: string;
+}
+
+export interface ChatStreamHandlers {
+  /** Called with each chunk of the assistant answer as it is generated. */
+  onDelta?: (chunk: string) => void;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+/**
+ * Everything the playground needs from a backend. Pages and components
+ * depend on this contract rather than on `fetch`.
+ */
+export interface PlaygroundApi {
+  readonly baseUrl: string;
+  health(options?: RequestOptions): Promise<HealthResponse>;
+  /** Platforms and models; Ollama models are checked against `ollamaHost`. */
+  platforms(ollamaHost?: string, options?: RequestOptions): Promise<PlatformCatalogResponse>;
+  init(request: SessionRequest, options?: RequestOptions): Promise<InitStatusResponse>;
+  initStatus(sessionId: string, options?: RequestOptions): Promise<InitStatusResponse>;
+  upload(request: UploadRequest, options?: RequestOptions): Promise<UploadResponse>;
+  uploadStatus(uploadId: string, options?: RequestOptions): Promise<ChunkedUploadStatus>;
+  uploadChunk(request: UploadChunkRequest, options?: RequestOptions): Promise<ChunkedUploadStatus>;
+  completeUpload(request: CompleteUploadRequest, options?: RequestOptions): Promise<UploadResponse>;
+  abortUpload(uploadId: string, options?: RequestOptions): Promise<ResetResponse>;
+  logs(sessionId: string, query?: LogsQuery, options?: RequestOptions): Promise<LogsResponse>;
+  logNeighbours(sessionId: string, logId: string, radius?: number, options?: RequestOptions): Promise<LogNeighboursResponse>;
+  chat(request: ChatRequest, options?: RequestOptions): Promise<ChatResponse>;
+  trace(request: TraceRequest, options?: RequestOptions): Promise<TraceResponse>;
+  /** One column of a model comparison; the session conversation is left untouched. */
+  compare(request: CompareRequest, options?: RequestOptions): Promise<ChatResponse>;
+  /** Root cause of a few log lines, in one call to the brain model. */
+  analyze(request: AnalyzeRequest, options?: RequestOptions): Promise<AnalyzeResponse>;
+  /**
+   * Like chat(), but reports partial content through `handlers.onDelta`.
+   * Resolves with the final response (evidence logs, duration) once the stream ends.
+   */
+  chatStream(request: ChatRequest, handlers: ChatStreamHandlers, options?: RequestOptions): Promise<ChatResponse>;
+  history(sessionId: string, options?: RequestOptions): Promise<HistoryResponse>;
+  reset(sessionId: string, options?: RequestOptions): Promise<ResetResponse>;
+}
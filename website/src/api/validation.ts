@@ -0,0 +1,461 @@
+import type {
+  AnalyzeResponse,
+  ApiErrorBody,
+  CatalogModel,
+  ChatResponse,
+  ChunkedUploadStatus,
+  HealthResponse,
+  HistoryResponse,
+  InitStatusResponse,
+  LogEntry,
+  ModelTokenUsage,
+  LogHistogram,
+  LogNeighboursResponse,
+  LogsResponse,
+  PlatformCatalogEntry,
+  PlatformCatalogResponse,
+  PlatformId,
+  ResetResponse,
+  TokenUsage,
+  ToolCall,
+  TraceResponse,
+  TraceStep,
+  UploadResponse,
+} from './types';
+
+/**
+ * Thrown by the decoders below; the client wraps it into an ApiResponseFormatError.
+ */
+export class DecodeError extends Error {}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function expectObject(value: unknown, path: string): JsonObject {
+  if (!isObject(value)) {
+    throw new DecodeError(`${path} must be an object`);
+  }
+  return value;
+}
+
+export function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string') {
+    throw new DecodeError(`${path} must be a string`);
+  }
+  return value;
+}
+
+export function expectNumber(value: unknown, path: string): number {
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    throw new DecodeError(`${path} must be a number`);
+  }
+  return value;
+}
+
+export function expectBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== 'boolean') {
+    throw new DecodeError(`${path} must be a boolean`);
+  }
+  return value;
+}
+
+export function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new DecodeError(`${path} must be an array`);
+  }
+  return value;
+}
+
+export function optionalString(value: unknown, path: string): string | undefined {
+  return value === undefined || value === null ? undefined : expectString(value, path);
+}
+
+export function optionalNumber(value: unknown, path: string): number | undefined {
+  return value === undefined || value === null ? undefined : expectNumber(value, path);
+}
+
+/**
+ * PHP encodes an empty associative array as `[]`, so an empty context
+ * arrives as a list rather than an object.
+ */
+function decodeContext(value: unknown, path: string): Record<string, unknown> | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (Array.isArray(value) && value.length === 0) {
+    return {};
+  }
+  return expectObject(value, path);
+}
+
+export function decodeLogEntry(value: unknown, path = 'log'): LogEntry {
+  const data = expectObject(value, path);
+  return {
+    id: String(data.id ?? ''),
+    level: expectString(data.level, `${path}.level`).toUpperCase(),
+    message: expectString(data.message, `${path}.message`),
+    timestamp: expectString(data.timestamp, `${path}.timestamp`),
+    category: optionalString(data.category, `${path}.category`),
+    channel: optionalString(data.channel, `${path}.channel`),
+    context: decodeContext(data.context, `${path}.context`),
+    extra: decodeContext(data.extra, `${path}.extra`),
+    enriched_data: decodeContext(data.enriched_data, `${path}.enriched_data`),
+    raw: optionalString(data.raw, `${path}.raw`),
+    source: optionalString(data.source, `${path}.source`),
+  };
+}
+
+export function decodeLogEntries(value: unknown, path: string): LogEntry[] {
+  return expectArray(value, path).map((entry, i) => decodeLogEntry(entry, `${path}[${i}]`));
+}
+
+export function decodeHealth(value: unknown): HealthResponse {
+  const data = expectObject(value, 'health');
+  return {
+    status: expectString(data.status, 'status'),
+    storage: String(data.storage ?? ''),
+    supported_platforms: expectArray(data.supported_platforms ?? [], 'supported_platforms').map(String),
+    message: String(data.message ?? ''),
+    features: expectArray(data.features ?? [], 'features').map(String),
+  };
+}
+
+function decodePhases(value: unknown): InitStatusResponse['phases'] {
+  if (value === undefined || value === null || (Array.isArray(value) && value.length === 0)) {
+    return undefined;
+  }
+  const phases: NonNullable<InitStatusResponse['phases']> = {};
+  for (const [phase, counts] of Object.entries(expectObject(value, 'phases'))) {
+    const data = expectObject(counts, `phases.${phase}`);
+    phases[phase as keyof typeof phases] = {
+      done: expectNumber(data.done, `phases.${phase}.done`),
+      total: expectNumber(data.total, `phases.${phase}.total`),
+    };
+  }
+  return phases;
+}
+
+export function decodeInitStatus(value: unknown): InitStatusResponse {
+  const data = expectObject(value, 'status');
+  return {
+    initialized: expectBoolean(data.initialized, 'initialized'),
+    status: expectString(data.status, 'status'),
+    message: String(data.message ?? ''),
+    progress: expectNumber(data.progress, 'progress'),
+    logs_count: expectNumber(data.logs_count, 'logs_count'),
+    storage: optionalString(data.storage, 'storage'),
+    session_id: optionalString(data.session_id, 'session_id'),
+    brain_model: optionalString(data.brain_model, 'brain_model'),
+    embedding_model: optionalString(data.embedding_model, 'embedding_model'),
+    phase: optionalString(data.phase, 'phase'),
+    phases: decodePhases(data.phases),
+    eta_seconds: optionalNumber(data.eta_seconds, 'eta_seconds'),
+    elapsed_ms: optionalNumber(data.elapsed_ms, 'elapsed_ms'),
+    file_name: optionalString(data.file_name, 'file_name'),
+    source: optionalString(data.source, 'source'),
+    added_count: optionalNumber(data.added_count, 'added_count'),
+    sources: data.sources === undefined ? undefined : decodeCounts(data.sources, 'sources'),
+    usage: data.usage === undefined ? undefined : decodeTokenUsage(data.usage),
+  };
+}
+
+export function decodeUpload(value: unknown): UploadResponse {
+  const data = expectObject(value, 'upload');
+  return {
+    ...decodeInitStatus(data),
+    indexed_with_embeddings:
+      data.indexed_with_embeddings === undefined
+        ? undefined
+        : expectBoolean(data.indexed_with_embeddings, 'indexed_with_embeddings'),
+    duration_ms: optionalNumber(data.duration_ms, 'duration_ms'),
+  };
+}
+
+export function decodeChunkedUploadStatus(value: unknown): ChunkedUploadStatus {
+  const data = expectObject(value, 'upload_status');
+  return {
+    upload_id: expectString(data.upload_id, 'upload_id'),
+    received_chunks: expectArray(data.received_chunks, 'received_chunks').map((index, i) =>
+      expectNumber(index, `received_chunks[${i}]`),
+    ),
+    received_bytes: expectNumber(data.received_bytes, 'received_bytes'),
+  };
+}
+
+function decodeCounts(value: unknown, path: string): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const [key, count] of Object.entries(decodeContext(value, path) ?? {})) {
+    counts[key] = expectNumber(count, `${path}.${key}`);
+  }
+  return counts;
+}
+
+function decodeHistogram(value: unknown): LogHistogram | null | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (value === null) {
+    return null;
+  }
+  const data = expectObject(value, 'histogram');
+  return {
+    from: expectString(data.from, 'histogram.from'),
+    to: expectString(data.to, 'histogram.to'),
+    bucket_seconds: expectNumber(data.bucket_seconds, 'histogram.bucket_seconds'),
+    buckets: expectArray(data.buckets, 'histogram.buckets').map((bucket, i) => {
+      const path = `histogram.buckets[${i}]`;
+      const entry = expectObject(bucket, path);
+      return {
+        start: expectString(entry.start, `${path}.start`),
+        counts: decodeCounts(entry.counts, `${path}.counts`),
+      };
+    }),
+  };
+}
+
+/**
+ * Servers without paging return every log and only `count`.
+ */
+export function decodeLogs(value: unknown): LogsResponse {
+  const data = expectObject(value, 'logs');
+  const logs = decodeLogEntries(data.logs, 'logs');
+  const total = optionalNumber(data.total, 'total') ?? logs.length;
+  const facets = data.facets === undefined ? {} : expectObject(data.facets, 'facets');
+  return {
+    logs,
+    count: optionalNumber(data.count, 'count') ?? logs.length,
+    total,
+    filtered: optionalNumber(data.filtered, 'filtered') ?? total,
+    offset: optionalNumber(data.offset, 'offset') ?? 0,
+    limit: optionalNumber(data.limit, 'limit') ?? logs.length,
+    facets: {
+      levels: decodeCounts(facets.levels, 'facets.levels'),
+      categories: decodeCounts(facets.categories, 'facets.categories'),
+      sources: decodeCounts(facets.sources, 'facets.sources'),
+    },
+    histogram: decodeHistogram(data.histogram),
+  };
+}
+
+export function decodeLogNeighbours(value: unknown): LogNeighboursResponse {
+  const data = expectObject(value, 'neighbours');
+  return {
+    log: decodeLogEntry(data.log),
+    before: decodeLogEntries(data.before, 'before'),
+    after: decodeLogEntries(data.after, 'after'),
+  };
+}
+
+function decodeToolCall(value: unknown, path: string): ToolCall {
+  const data = expectObject(value, path);
+  return {
+    tool: expectString(data.tool, `${path}.tool`),
+    arguments: decodeContext(data.arguments, `${path}.arguments`) ?? {},
+    success: expectBoolean(data.success, `${path}.success`),
+    summary: String(data.summary ?? ''),
+    search_method: optionalString(data.search_method, `${path}.search_method`) ?? null,
+    log_count: optionalNumber(data.log_count, `${path}.log_count`) ?? 0,
+    log_ids: expectArray(data.log_ids ?? [], `${path}.log_ids`).map(String),
+    fallback: Boolean(data.fallback),
+    fallback_reason: optionalString(data.fallback_reason, `${path}.fallback_reason`) ?? null,
+    duration_ms: optionalNumber(data.duration_ms, `${path}.duration_ms`) ?? 0,
+  };
+}
+
+function decodeModelTokenUsage(value: unknown, path: string): ModelTokenUsage {
+  const data = expectObject(value, path);
+  return {
+    prompt_tokens: optionalNumber(data.prompt_tokens, `${path}.prompt_tokens`) ?? 0,
+    completion_tokens: optionalNumber(data.completion_tokens, `${path}.completion_tokens`) ?? 0,
+    embedding_tokens: optionalNumber(data.embedding_tokens, `${path}.embedding_tokens`) ?? 0,
+    calls: optionalNumber(data.calls, `${path}.calls`) ?? 0,
+  };
+}
+
+function decodeTokenUsage(value: unknown): TokenUsage | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  const data = expectObject(value, 'usage');
+  const models: Record<string, ModelTokenUsage> = {};
+  for (const [model, usage] of Object.entries(decodeContext(data.models, 'usage.models') ?? {})) {
+    models[model] = decodeModelTokenUsage(usage, `usage.models.${model}`);
+  }
+  return {
+    prompt_tokens: optionalNumber(data.prompt_tokens, 'usage.prompt_tokens') ?? 0,
+    completion_tokens: optionalNumber(data.completion_tokens, 'usage.completion_tokens') ?? 0,
+    embedding_tokens: optionalNumber(data.embedding_tokens, 'usage.embedding_tokens') ?? 0,
+    total_tokens: expectNumber(data.total_tokens, 'usage.total_tokens'),
+    calls: optionalNumber(data.calls, 'usage.calls') ?? 0,
+    estimated: Boolean(data.estimated),
+    models,
+  };
+}
+
+export function decodeChat(value: unknown): ChatResponse {
+  const data = expectObject(value, 'chat');
+  return {
+    success: expectBoolean(data.success, 'success'),
+    content: expectString(data.content, 'content'),
+    evidence_logs: decodeLogEntries(data.evidence_logs ?? [], 'evidence_logs'),
+    tool_calls: expectArray(data.tool_calls ?? [], 'tool_calls').map((call, i) => decodeToolCall(call, `tool_calls[${i}]`)),
+    usage: decodeTokenUsage(data.usage),
+    duration_ms: expectNumber(data.duration_ms, 'duration_ms'),
+    model: expectString(data.model, 'model'),
+    embedding_model: optionalString(data.embedding_model, 'embedding_model'),
+    platform: optionalString(data.platform, 'platform'),
+    session_id: optionalString(data.session_id, 'session_id'),
+  };
+}
+
+export function decodeAnalyze(value: unknown): AnalyzeResponse {
+  const data = expectObject(value, 'analyze');
+  return {
+    success: expectBoolean(data.success, 'success'),
+    content: expectString(data.content, 'content'),
+    log_count: expectNumber(data.log_count, 'log_count'),
+    usage: decodeTokenUsage(data.usage),
+    duration_ms: expectNumber(data.duration_ms, 'duration_ms'),
+    model: expectString(data.model, 'model'),
+    platform: optionalString(data.platform, 'platform'),
+  };
+}
+
+function optionalNullableNumber(value: unknown, path: string): number | null {
+  return value === undefined || value === null ? null : expectNumber(value, path);
+}
+
+function decodeTraceStep(value: unknown, path: string): TraceStep {
+  const data = expectObject(value, path);
+  return {
+    id: String(data.id ?? ''),
+    timestamp: optionalString(data.timestamp, `${path}.timestamp`) ?? null,
+    level: expectString(data.level, `${path}.level`).toUpperCase(),
+    service: String(data.service ?? 'unknown'),
+    event_type: String(data.event_type ?? 'info'),
+    description: String(data.description ?? ''),
+    content: String(data.content ?? ''),
+    offset_seconds: optionalNullableNumber(data.offset_seconds, `${path}.offset_seconds`),
+    gap_seconds: optionalNullableNumber(data.gap_seconds, `${path}.gap_seconds`),
+    is_failure: expectBoolean(data.is_failure, `${path}.is_failure`),
+  };
+}
+
+export function decodeTrace(value: unknown): TraceResponse {
+  const data = expectObject(value, 'trace');
+  const span = data.time_span === null || data.time_span === undefined ? null : expectObject(data.time_span, 'time_span');
+  return {
+    success: expectBoolean(data.success, 'success'),
+    message: String(data.message ?? ''),
+    identifier: expectString(data.identifier, 'identifier'),
+    steps: expectArray(data.steps, 'steps').map((step, i) => decodeTraceStep(step, `steps[${i}]`)),
+    services: decodeCounts(data.services, 'services'),
+    failing_step: optionalNullableNumber(data.failing_step, 'failing_step'),
+    time_span: span && {
+      start_time: expectString(span.start_time, 'time_span.start_time'),
+      end_time: expectString(span.end_time, 'time_span.end_time'),
+      duration_seconds: expectNumber(span.duration_seconds, 'time_span.duration_seconds'),
+      duration_human: expectString(span.duration_human, 'time_span.duration_human'),
+    },
+    search_method: String(data.search_method ?? ''),
+    duration_ms: optionalNumber(data.duration_ms, 'duration_ms'),
+  };
+}
+
+export function decodeHistory(value: unknown): HistoryResponse {
+  const data = expectObject(value, 'history');
+  return {
+    session_id: expectString(data.session_id, 'session_id'),
+    exists: expectBoolean(data.exists, 'exists'),
+    updated_at: optionalString(data.updated_at, 'updated_at') ?? null,
+    messages: expectArray(data.messages, 'messages').map((item, i) => {
+      const message = expectObject(item, `messages[${i}]`);
+      const role = expectString(message.role, `messages[${i}].role`);
+      if (role !== 'user' && role !== 'assistant') {
+        throw new DecodeError(`messages[${i}].role must be "user" or "assistant"`);
+      }
+      return { role, content: expectString(message.content, `messages[${i}].content`) };
+    }),
+  };
+}
+
+const PLATFORM_IDS: readonly string[] = ['openai', 'anthropic', 'ollama'] satisfies PlatformId[];
+
+function decodeCatalogModels(value: unknown, path: string): CatalogModel[] {
+  return expectArray(value, path).map((item, i) => {
+    const model = expectObject(item, `${path}[${i}]`);
+    return {
+      name: expectString(model.name, `${path}[${i}].name`),
+      installed: model.installed === null || model.installed === undefined
+        ? null
+        : expectBoolean(model.installed, `${path}[${i}].installed`),
+    };
+  });
+}
+
+/**
+ * Platforms this client does not know are left out.
+ */
+export function decodePlatformCatalog(value: unknown): PlatformCatalogResponse {
+  const data = expectObject(value, 'catalog');
+  const platforms: PlatformCatalogEntry[] = [];
+  expectArray(data.platforms, 'platforms').forEach((item, i) => {
+    const path = `platforms[${i}]`;
+    const entry = expectObject(item, path);
+    const id = expectString(entry.id, `${path}.id`);
+    if (!PLATFORM_IDS.includes(id)) {
+      return;
+    }
+    platforms.push({
+      id: id as PlatformId,
+      requires_api_key: expectBoolean(entry.requires_api_key, `${path}.requires_api_key`),
+      supports_embeddings: expectBoolean(entry.supports_embeddings, `${path}.supports_embeddings`),
+      default_brain_model: expectString(entry.default_brain_model, `${path}.default_brain_model`),
+      default_embedding_model: optionalString(entry.default_embedding_model, `${path}.default_embedding_model`) ?? null,
+      brain_models: decodeCatalogModels(entry.brain_models, `${path}.brain_models`),
+      embedding_models: decodeCatalogModels(entry.embedding_models, `${path}.embedding_models`),
+    });
+  });
+
+  let ollama: PlatformCatalogResponse['ollama'] = null;
+  if (data.ollama !== null && data.ollama !== undefined) {
+    const discovery = expectObject(data.ollama, 'ollama');
+    ollama = {
+      host: expectString(discovery.host, 'ollama.host'),
+      reachable: expectBoolean(discovery.reachable, 'ollama.reachable'),
+      installed: expectArray(discovery.installed, 'ollama.installed').map((name, i) =>
+        expectString(name, `ollama.installed[${i}]`),
+      ),
+      error: optionalString(discovery.error, 'ollama.error') ?? null,
+    };
+  }
+
+  return { platforms, ollama };
+}
+
+export function decodeReset(value: unknown): ResetResponse {
+  const data = expectObject(value, 'reset');
+  return {
+    status: expectString(data.status, 'status'),
+    message: String(data.message ?? ''),
+  };
+}
+
+/**
+ * Returns the error body when the payload carries an `error` field. Optional
+ * fields of the wrong type are left out rather than hiding the error itself.
+ */
+export function decodeErrorBody(value: unknown): ApiErrorBody | null {
+  if (!isObject(value) || typeof value.error !== 'string') {
+    return null;
+  }
+  return {
+    error: value.error,
+    file: typeof value.file === 'string' ? value.file : undefined,
+    line: typeof value.line === 'number' ? value.line : undefined,
+    path: typeof value.path === 'string' ? value.path : undefined,
+  };
+}
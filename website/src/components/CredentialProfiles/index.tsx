@@ -0,0 +1,242 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import {
+  WrongPassphraseError,
+  deleteCredentialProfile,
+  forgetAllCredentialProfiles,
+  isCredentialStorageAvailable,
+  listCredentialProfiles,
+  saveCredentialProfile,
+  unlockCredentialProfile,
+  type CredentialProfile,
+  type CredentialProfileSummary,
+} from '@site/src/storage';
+import styles from './styles.module.css';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+interface CredentialProfilesProps {
+  /** What the configuration screen holds now; saved as a profile on request. */
+  current: Omit<CredentialProfile, 'name'>;
+  /** Icon by platform id, for the profile list. */
+  platformIcons: Record<string, string>;
+  defaultName: string;
+  onUnlock: (profile: CredentialProfile) => void;
+  /** Called after every profile was removed, to clear credentials kept elsewhere too. */
+  onForgetAll: () => void;
+}
+
+/**
+ * Named credential profiles remembered on this device, encrypted with a
+ * passphrase: unlock one to fill in the configuration, or save the current one.
+ */
+export default function CredentialProfiles({
+  current,
+  platformIcons,
+  defaultName,
+  onUnlock,
+  onForgetAll,
+}: CredentialProfilesProps): ReactNode {
+  const [available, setAvailable] = useState(false);
+  const [profiles, setProfiles] = useState<CredentialProfileSummary[]>([]);
+  const [unlocking, setUnlocking] = useState<string | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [remember, setRemember] = useState(false);
+  const [name, setName] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<{ error: boolean; text: string } | null>(null);
+
+  // localStorage only exists in the browser, not while the page is pre-rendered
+  useEffect(() => {
+    setAvailable(isCredentialStorageAvailable());
+    setProfiles(listCredentialProfiles());
+  }, []);
+
+  if (!available) {
+    return null;
+  }
+
+  const startUnlock = (profileName: string) => {
+    setUnlocking(profileName);
+    setRemember(false);
+    setPassphrase('');
+    setStatus(null);
+  };
+
+  const unlock = async () => {
+    if (!unlocking) {
+      return;
+    }
+    setBusy(true);
+    try {
+      const profile = await unlockCredentialProfile(unlocking, passphrase);
+      onUnlock(profile);
+      setUnlocking(null);
+      setStatus({ error: false, text: `🔓 Loaded "${profile.name}".` });
+    } catch (error) {
+      setStatus({
+        error: true,
+        text: error instanceof WrongPassphraseError ? '❌ Wrong passphrase.' : `❌ ${String(error)}`,
+      });
+    } finally {
+      setPassphrase('');
+      setBusy(false);
+    }
+  };
+
+  const remove = (profileName: string) => {
+    if (!confirm(`Forget the credentials "${profileName}" on this device?`)) {
+      return;
+    }
+    deleteCredentialProfile(profileName);
+    setProfiles(listCredentialProfiles());
+    setUnlocking(prev => (prev === profileName ? null : prev));
+  };
+
+  const forgetAll = () => {
+    if (!confirm('Forget every credential remembered on this device, including the current session?')) {
+      return;
+    }
+    forgetAllCredentialProfiles();
+    setProfiles([]);
+    setUnlocking(null);
+    onForgetAll();
+    setStatus({ error: false, text: '🧹 All credentials forgotten.' });
+  };
+
+  const profileName = name.trim() || defaultName;
+  const saveError =
+    passphrase.length < MIN_PASSPHRASE_LENGTH
+      ? `The passphrase needs at least ${MIN_PASSPHRASE_LENGTH} characters`
+      : passphrase !== confirmation
+        ? 'The passphrases do not match'
+        : null;
+
+  const save = async () => {
+    setBusy(true);
+    try {
+      await saveCredentialProfile({ ...current, name: profileName }, passphrase);
+      setProfiles(listCredentialProfiles());
+      setRemember(false);
+      setName('');
+      setStatus({ error: false, text: `💾 Saved "${profileName}", encrypted with your passphrase.` });
+    } catch (error) {
+      setStatus({ error: true, text: `❌ Could not save: ${String(error)}` });
+    } finally {
+      setPassphrase('');
+      setConfirmation('');
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className={styles.profiles}>
+      {profiles.length > 0 && (
+        <ul className={styles.list}>
+          {profiles.map(profile => (
+            <li key={profile.name} className={styles.item}>
+              <button
+                type="button"
+                className={`${styles.profileButton} ${unlocking === profile.name ? styles.selected : ''}`}
+                onClick={() => startUnlock(profile.name)}
+                title={`Saved ${new Date(profile.updatedAt).toLocaleString()}`}
+              >
+                {platformIcons[profile.platform] ?? '🔑'} {profile.name}
+              </button>
+              <button
+                type="button"
+                className={styles.iconButton}
+                onClick={() => remove(profile.name)}
+                title="Forget this profile"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {unlocking && (
+        <div className={styles.form}>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={e => setPassphrase(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && passphrase && !busy && unlock()}
+            placeholder={`Passphrase for "${unlocking}"`}
+            className={styles.input}
+            autoFocus
+          />
+          <button type="button" className={styles.button} onClick={unlock} disabled={!passphrase || busy}>
+            {busy ? '⏳' : '🔓'} Unlock
+          </button>
+          <button type="button" className={styles.button} onClick={() => setUnlocking(null)}>
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {remember ? (
+        <div className={styles.form}>
+          <input
+            type="text"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder={defaultName}
+            className={styles.input}
+            title="Profile name"
+          />
+          <input
+            type="password"
+            value={passphrase}
+            onChange={e => setPassphrase(e.target.value)}
+            placeholder="Passphrase"
+            className={styles.input}
+            autoComplete="new-password"
+          />
+          <input
+            type="password"
+            value={confirmation}
+            onChange={e => setConfirmation(e.target.value)}
+            placeholder="Repeat passphrase"
+            className={styles.input}
+            autoComplete="new-password"
+          />
+          <button
+            type="button"
+            className={styles.button}
+            onClick={save}
+            disabled={saveError !== null || busy}
+            title={saveError ?? undefined}
+          >
+            💾 Save
+          </button>
+          <button type="button" className={styles.button} onClick={() => setRemember(false)}>
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <div className={styles.actions}>
+          <button
+            type="button"
+            className={styles.linkButton}
+            onClick={() => {
+              setRemember(true);
+              setUnlocking(null);
+              setPassphrase('');
+              setStatus(null);
+            }}
+            disabled={!(current.apiKey || current.ollamaHost)}
+          >
+            💾 Remember on this device...
+          </button>
+          <button type="button" className={styles.linkButton} onClick={forgetAll}>
+            🧹 Forget all credentials
+          </button>
+        </div>
+      )}
+
+      {status && <p className={status.error ? styles.error : styles.status}>{status.text}</p>}
+    </div>
+  );
+}
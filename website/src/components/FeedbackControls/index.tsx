@@ -0,0 +1,94 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import { FEEDBACK_TAGS, type AnswerFeedback, type FeedbackRating } from '@site/src/storage';
+import styles from './styles.module.css';
+
+type FeedbackFields = Pick<AnswerFeedback, 'rating' | 'tags' | 'comment'>;
+
+interface FeedbackControlsProps {
+  /** Null until the answer gets some feedback. */
+  feedback: AnswerFeedback | null;
+  /** Evidence logs of the answer, which can be marked as relevant. */
+  evidenceCount: number;
+  onChange: (fields: Partial<FeedbackFields>) => void;
+}
+
+/**
+ * 👍 / 👎 under an answer, then tags and a comment to say what was wrong.
+ */
+export default function FeedbackControls({ feedback, evidenceCount, onChange }: FeedbackControlsProps): ReactNode {
+  const rating = feedback?.rating ?? null;
+  const tags = feedback?.tags ?? [];
+  const [comment, setComment] = useState(feedback?.comment ?? '');
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => setComment(feedback?.comment ?? ''), [feedback?.comment]);
+
+  const rate = (next: FeedbackRating) => {
+    onChange({ rating: rating === next ? null : next });
+    setOpen(next === 'down' && rating !== next);
+  };
+
+  const toggleTag = (tag: string) =>
+    onChange({ tags: tags.includes(tag) ? tags.filter(t => t !== tag) : [...tags, tag] });
+
+  const relevantCount = feedback?.relevantIds.length ?? 0;
+
+  return (
+    <div className={styles.feedback}>
+      <div className={styles.actions}>
+        <button
+          type="button"
+          className={`${styles.rate} ${rating === 'up' ? styles.active : ''}`}
+          onClick={() => rate('up')}
+          title="Good answer"
+          aria-pressed={rating === 'up'}
+        >
+          👍
+        </button>
+        <button
+          type="button"
+          className={`${styles.rate} ${rating === 'down' ? styles.active : ''}`}
+          onClick={() => rate('down')}
+          title="Wrong or unhelpful answer"
+          aria-pressed={rating === 'down'}
+        >
+          👎
+        </button>
+        <button type="button" className={styles.details} onClick={() => setOpen(!open)}>
+          {tags.length > 0 || comment ? '💬 Edit feedback' : '💬 Add details'}
+        </button>
+        {evidenceCount > 0 && (
+          <span className={styles.summary} title="Mark evidence logs as relevant in the list above">
+            ✓ {relevantCount}/{evidenceCount} evidence relevant
+          </span>
+        )}
+      </div>
+
+      {open && (
+        <div className={styles.form}>
+          <div className={styles.tags}>
+            {FEEDBACK_TAGS.map(tag => (
+              <button
+                key={tag}
+                type="button"
+                className={`${styles.tag} ${tags.includes(tag) ? styles.active : ''}`}
+                onClick={() => toggleTag(tag)}
+                aria-pressed={tags.includes(tag)}
+              >
+                {tag}
+              </button>
+            ))}
+          </div>
+          <textarea
+            className={styles.comment}
+            rows={2}
+            placeholder="What should the answer have said?"
+            value={comment}
+            onChange={e => setComment(e.target.value)}
+            onBlur={() => comment !== (feedback?.comment ?? '') && onChange({ comment })}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
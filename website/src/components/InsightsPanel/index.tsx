@@ -0,0 +1,268 @@
+import { useEffect, useMemo, useRef, useState, type ReactNode } from 'react';
+import type { LogEntry, LogsQuery, LogsResponse } from '@site/src/api';
+import Markdown from '@site/src/components/Markdown';
+import {
+  buildLogInsights,
+  categoryIcon,
+  categorySummaryLogs,
+  compareErrorRates,
+  fetchAllLogs,
+  formatTimestamp,
+  isFailingLevel,
+  isFailingPattern,
+} from '@site/src/logs';
+import styles from './styles.module.css';
+
+interface InsightsPanelProps {
+  fetchPage: (query: LogsQuery, signal: AbortSignal) => Promise<LogsResponse>;
+  /** Change to load the logs again, e.g. after a new file was indexed. */
+  reloadKey?: unknown;
+  /** Root cause of `lines` according to the session's brain model. */
+  summarize: (lines: string[], signal: AbortSignal) => Promise<string>;
+  onClose: () => void;
+}
+
+type Summary = { status: 'loading' } | { status: 'done'; text: string } | { status: 'error'; text: string };
+
+function formatRate(rate: number | null): string {
+  return rate === null ? '—' : `${Math.round(rate * 100)}%`;
+}
+
+/**
+ * Health of the session's logs at a glance: failing logs per category, the
+ * level distribution, the most frequent templates and how error rates
+ * moved between two time windows, with a summary of each category on demand.
+ */
+export default function InsightsPanel({ fetchPage, reloadKey, summarize, onClose }: InsightsPanelProps): ReactNode {
+  const [logs, setLogs] = useState<LogEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [split, setSplit] = useState<number | null>(null);
+  const [summaries, setSummaries] = useState<Record<string, Summary>>({});
+  const summaryControllers = useRef(new Map<string, AbortController>());
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLogs(null);
+    setError(null);
+    setSplit(null);
+    fetchAllLogs(fetchPage, controller.signal)
+      .then(setLogs)
+      .catch(err => {
+        if (!controller.signal.aborted) {
+          setError(err instanceof Error ? err.message : 'Failed to load logs');
+        }
+      });
+    return () => controller.abort();
+  }, [fetchPage, reloadKey]);
+
+  useEffect(() => {
+    const controllers = summaryControllers.current;
+    return () => controllers.forEach(controller => controller.abort());
+  }, []);
+
+  const insights = useMemo(() => (logs ? buildLogInsights(logs) : null), [logs]);
+  const range = insights?.timeRange ?? null;
+  // Halves of the time range until another split point is picked
+  const splitAt = range ? (split ?? (range.from + range.to) / 2) : 0;
+  const rates = useMemo(
+    () => (logs && range ? compareErrorRates(logs, range, splitAt) : []),
+    [logs, range, splitAt],
+  );
+
+  const runSummary = (category: string, lines: string[]) => {
+    summaryControllers.current.get(category)?.abort();
+    const controller = new AbortController();
+    summaryControllers.current.set(category, controller);
+    setSummaries(current => ({ ...current, [category]: { status: 'loading' } }));
+    summarize(lines, controller.signal)
+      .then(text => setSummaries(current => ({ ...current, [category]: { status: 'done', text } })))
+      .catch(err => {
+        if (!controller.signal.aborted) {
+          const text = err instanceof Error ? err.message : 'Failed to summarize';
+          setSummaries(current => ({ ...current, [category]: { status: 'error', text } }));
+        }
+      });
+  };
+
+  const maxCategory = Math.max(1, ...(insights?.categories.map(health => health.total) ?? []));
+  const levels = Object.entries(insights?.levels ?? {}).sort(([, a], [, b]) => b - a);
+  const maxLevel = Math.max(1, ...levels.map(([, count]) => count));
+
+  return (
+    <div className={styles.backdrop} onClick={onClose}>
+      <div className={styles.panel} onClick={e => e.stopPropagation()} role="dialog" aria-label="Insights">
+        <header className={styles.header}>
+          <h3>📊 Insights</h3>
+          <button type="button" className={styles.iconButton} onClick={onClose} title="Close (Esc)">
+            ✕
+          </button>
+        </header>
+
+        {error && <p className={styles.hint}>⚠️ {error}</p>}
+        {!error && !insights && <p className={styles.hint}>⏳ Loading logs...</p>}
+
+        {logs && insights && (
+          <div className={styles.body}>
+            <p className={styles.hint}>
+              {insights.failing} failing of {insights.total} logs
+              {range && ` · ${formatTimestamp(range.from)} → ${formatTimestamp(range.to)}`}
+            </p>
+
+            <section className={styles.section}>
+              <h4>By category</h4>
+              {insights.categories.map(health => {
+                const lines = categorySummaryLogs(health.category, logs);
+                const summary = summaries[health.category];
+                return (
+                  <div key={health.category} className={styles.category}>
+                    <div className={styles.row}>
+                      <span className={styles.label}>
+                        {categoryIcon(health.category)} {health.category}
+                      </span>
+                      <span className={styles.track}>
+                        <span
+                          className={`${styles.bar} ${styles.failingBar}`}
+                          style={{ width: `${(health.failing / maxCategory) * 100}%` }}
+                        />
+                        <span
+                          className={`${styles.bar} ${styles.warningBar}`}
+                          style={{ width: `${(health.warnings / maxCategory) * 100}%` }}
+                        />
+                      </span>
+                      <span className={styles.count} title={`${health.warnings} warnings of ${health.total} logs`}>
+                        {health.failing}/{health.total}
+                      </span>
+                      <button
+                        type="button"
+                        className={styles.action}
+                        onClick={() => lines && runSummary(health.category, lines)}
+                        disabled={!lines || summary?.status === 'loading'}
+                        title={lines ? 'Ask the model what went wrong in this category' : 'No errors or warnings to summarize'}
+                      >
+                        🧠 Summarize
+                      </button>
+                    </div>
+                    {summary?.status === 'loading' && <div className={styles.summary}>⏳ Summarizing...</div>}
+                    {summary?.status === 'error' && <div className={styles.summaryError}>⚠️ {summary.text}</div>}
+                    {summary?.status === 'done' && (
+                      <div className={styles.summary}>
+                        <Markdown>{summary.text}</Markdown>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </section>
+
+            <section className={styles.section}>
+              <h4>By level</h4>
+              {levels.map(([level, count]) => (
+                <div key={level} className={styles.row}>
+                  <span className={styles.label}>{level}</span>
+                  <span className={styles.track}>
+                    <span
+                      className={`${styles.bar} ${isFailingLevel(level) ? styles.failingBar : ''}`}
+                      style={{ width: `${(count / maxLevel) * 100}%` }}
+                    />
+                  </span>
+                  <span className={styles.count}>{count}</span>
+                </div>
+              ))}
+            </section>
+
+            <section className={styles.section}>
+              <h4>Top recurring messages</h4>
+              {insights.topPatterns.length === 0 && <p className={styles.empty}>No logs.</p>}
+              {insights.topPatterns.map(pattern => (
+                <div key={pattern.id} className={styles.pattern}>
+                  <span
+                    className={`${styles.patternCount} ${isFailingPattern(pattern) ? styles.failingCount : ''}`}
+                    title={Object.entries(pattern.levels)
+                      .map(([level, count]) => `${count} ${level}`)
+                      .join(' · ')}
+                  >
+                    ×{pattern.count}
+                  </span>
+                  <span className={styles.template}>{pattern.template}</span>
+                </div>
+              ))}
+            </section>
+
+            <section className={styles.section}>
+              <h4>Recent vs. baseline</h4>
+              {!range ? (
+                <p className={styles.empty}>No readable timestamps to split the logs on.</p>
+              ) : (
+                <>
+                  <label className={styles.split}>
+                    Split at {formatTimestamp(splitAt)}
+                    <input
+                      type="range"
+                      min={range.from}
+                      max={range.to}
+                      step={Math.max(1, (range.to - range.from) / 100)}
+                      value={splitAt}
+                      onChange={e => setSplit(Number(e.target.value))}
+                    />
+                  </label>
+                  <table className={styles.table}>
+                    <thead>
+                      <tr>
+                        <th>Category</th>
+                        <th title={`${formatTimestamp(range.from)} → ${formatTimestamp(splitAt)}`}>Baseline</th>
+                        <th title={`${formatTimestamp(splitAt)} → ${formatTimestamp(range.to)}`}>Recent</th>
+                        <th>Change</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {rates.map(change => {
+                        const delta =
+                          change.baseline.rate !== null && change.recent.rate !== null
+                            ? change.recent.rate - change.baseline.rate
+                            : null;
+                        return (
+                          <tr key={change.category}>
+                            <td>
+                              {categoryIcon(change.category)} {change.category}
+                            </td>
+                            <td title={`${change.baseline.failing} of ${change.baseline.total} logs`}>
+                              {formatRate(change.baseline.rate)}
+                            </td>
+                            <td title={`${change.recent.failing} of ${change.recent.total} logs`}>
+                              {formatRate(change.recent.rate)}
+                            </td>
+                            <td>
+                              {change.isNew ? (
+                                <span className={styles.newBadge}>new</span>
+                              ) : delta === null ? (
+                                '—'
+                              ) : (
+                                <span className={delta > 0 ? styles.worse : delta < 0 ? styles.better : undefined}>
+                                  {delta > 0 ? '▲' : delta < 0 ? '▼' : ''} {Math.abs(Math.round(delta * 100))} pts
+                                </span>
+                              )}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </>
+              )}
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
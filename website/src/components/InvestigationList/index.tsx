@@ -0,0 +1,132 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import type { Investigation } from '@site/src/storage';
+import styles from './styles.module.css';
+
+interface InvestigationListProps {
+  investigations: Investigation[];
+  currentId: string;
+  /** Why an investigation cannot be resumed right now, or null when it can. */
+  getBlockedReason: (investigation: Investigation) => string | null;
+  onResume: (investigation: Investigation) => void;
+  onRename: (investigation: Investigation, title: string) => void;
+  onDelete: (investigation: Investigation) => void;
+  onClose: () => void;
+}
+
+function formatDate(iso: string): string {
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? iso : date.toLocaleString();
+}
+
+/**
+ * Investigations saved in this browser, with rename, delete and resume.
+ */
+export default function InvestigationList({
+  investigations,
+  currentId,
+  getBlockedReason,
+  onResume,
+  onRename,
+  onDelete,
+  onClose,
+}: InvestigationListProps): ReactNode {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && editingId === null) {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose, editingId]);
+
+  const startEditing = (investigation: Investigation) => {
+    setEditingId(investigation.id);
+    setDraftTitle(investigation.title);
+  };
+
+  const commitTitle = (investigation: Investigation) => {
+    const title = draftTitle.trim();
+    if (title && title !== investigation.title) {
+      onRename(investigation, title);
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className={styles.backdrop} onClick={onClose}>
+      <div className={styles.panel} onClick={e => e.stopPropagation()} role="dialog" aria-label="Saved investigations">
+        <header className={styles.header}>
+          <h3>📂 Investigations</h3>
+          <button type="button" className={styles.iconButton} onClick={onClose} title="Close (Esc)">
+            ✕
+          </button>
+        </header>
+
+        {investigations.length === 0 ? (
+          <p className={styles.empty}>Ask a question and the conversation will be saved here.</p>
+        ) : (
+          <ul className={styles.list}>
+            {investigations.map(investigation => {
+              const current = investigation.id === currentId;
+              const blockedReason = current ? null : getBlockedReason(investigation);
+              return (
+                <li key={investigation.id} className={`${styles.item} ${current ? styles.current : ''}`}>
+                  <div className={styles.itemMain}>
+                    {editingId === investigation.id ? (
+                      <input
+                        className={styles.titleInput}
+                        value={draftTitle}
+                        autoFocus
+                        onChange={e => setDraftTitle(e.target.value)}
+                        onBlur={() => commitTitle(investigation)}
+                        onKeyDown={e => {
+                          if (e.key === 'Enter') commitTitle(investigation);
+                          if (e.key === 'Escape') setEditingId(null);
+                        }}
+                      />
+                    ) : (
+                      <span className={styles.title}>{investigation.title}</span>
+                    )}
+                    <div className={styles.meta}>
+                      <span>{investigation.platform} · {investigation.brainModel}</span>
+                      <span>📄 {investigation.source}</span>
+                      <span>💬 {investigation.messageCount}</span>
+                      <span title={`Updated ${formatDate(investigation.updatedAt)}`}>
+                        🗓️ {formatDate(investigation.createdAt)}
+                      </span>
+                    </div>
+                  </div>
+                  <div className={styles.actions}>
+                    {current ? (
+                      <span className={styles.currentBadge}>Current</span>
+                    ) : (
+                      <button
+                        type="button"
+                        className={styles.resumeButton}
+                        onClick={() => onResume(investigation)}
+                        disabled={blockedReason !== null}
+                        title={blockedReason ?? 'Continue this investigation'}
+                      >
+                        ▶ Resume
+                      </button>
+                    )}
+                    <button type="button" className={styles.iconButton} onClick={() => startEditing(investigation)} title="Rename">
+                      ✏️
+                    </button>
+                    <button type="button" className={styles.iconButton} onClick={() => onDelete(investigation)} title="Delete">
+                      🗑️
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { useState, type ReactNode } from 'react';
+import styles from './styles.module.css';
+
+interface JsonTreeProps {
+  value: unknown;
+  /** Label of the root node; omitted for the top level. */
+  name?: string;
+  /** Nodes deeper than this start collapsed. */
+  expandDepth?: number;
+  depth?: number;
+}
+
+function isContainer(value: unknown): value is Record<string, unknown> | unknown[] {
+  return typeof value === 'object' && value !== null;
+}
+
+function renderScalar(value: unknown): ReactNode {
+  if (value === null || value === undefined) {
+    return <span className={styles.null}>null</span>;
+  }
+  switch (typeof value) {
+    case 'string':
+      return <span className={styles.string}>"{value}"</span>;
+    case 'number':
+      return <span className={styles.number}>{value}</span>;
+    case 'boolean':
+      return <span className={styles.boolean}>{String(value)}</span>;
+    default:
+      return <span>{String(value)}</span>;
+  }
+}
+
+/**
+ * Collapsible view of any JSON value.
+ */
+export default function JsonTree({ value, name, expandDepth = 2, depth = 0 }: JsonTreeProps): ReactNode {
+  const [expanded, setExpanded] = useState(depth < expandDepth);
+  const label = name !== undefined ? <span className={styles.key}>{name}: </span> : null;
+
+  if (!isContainer(value)) {
+    return (
+      <div className={styles.node}>
+        {label}
+        {renderScalar(value)}
+      </div>
+    );
+  }
+
+  const entries = Array.isArray(value) ? value.map((item, i) => [String(i), item] as const) : Object.entries(value);
+  const [open, close] = Array.isArray(value) ? ['[', ']'] : ['{', '}'];
+
+  if (entries.length === 0) {
+    return (
+      <div className={styles.node}>
+        {label}
+        <span className={styles.punctuation}>{open}{close}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.node}>
+      <button type="button" className={styles.toggle} onClick={() => setExpanded(!expanded)}>
+        {expanded ? '▾' : '▸'}
+      </button>
+      {label}
+      <span className={styles.punctuation}>{open}</span>
+      {expanded ? (
+        <div className={styles.children}>
+          {entries.map(([key, child]) => (
+            <JsonTree key={key} name={key} value={child} expandDepth={expandDepth} depth={depth + 1} />
+          ))}
+        </div>
+      ) : (
+        <span className={styles.summary}> {entries.length} {entries.length === 1 ? 'item' : 'items'} </span>
+      )}
+      <span className={styles.punctuation}>{close}</span>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import type { LogEntry, LogNeighboursResponse } from '@site/src/api';
+import JsonTree from '@site/src/components/JsonTree';
+import { identifiersFromContext } from '@site/src/logs';
+import styles from './styles.module.css';
+
+interface LogDetailDrawerProps {
+  log: LogEntry;
+  loadNeighbours: (log: LogEntry, signal: AbortSignal) => Promise<LogNeighboursResponse | null>;
+  /** Opens another entry, e.g. a neighbouring line. */
+  onSelect: (log: LogEntry) => void;
+  /** Opens the request trace for an identifier found in the context. */
+  onTrace?: (identifier: string) => void;
+  onClose: () => void;
+}
+
+function isEmpty(value?: Record<string, unknown>): boolean {
+  return !value || Object.keys(value).length === 0;
+}
+
+function CopyButton({ text, label }: { text: string; label: string }): ReactNode {
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      // Clipboard access can be denied (e.g. insecure origin); nothing to do
+    }
+  };
+
+  return (
+    <button type="button" className={styles.copyButton} onClick={copy}>
+      {copied ? '✓ Copied' : `📋 ${label}`}
+    </button>
+  );
+}
+
+/**
+ * Side panel with everything known about a log entry: all fields as a
+ * JSON tree, the original line and the lines around it in its file.
+ */
+export default function LogDetailDrawer({
+  log,
+  loadNeighbours,
+  onSelect,
+  onTrace,
+  onClose,
+}: LogDetailDrawerProps): ReactNode {
+  const [neighbours, setNeighbours] = useState<LogNeighboursResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    setNeighbours(null);
+    loadNeighbours(log, controller.signal)
+      .then(result => setNeighbours(result))
+      .catch(() => setNeighbours(null))
+      .finally(() => !controller.signal.aborted && setLoading(false));
+    return () => controller.abort();
+  }, [log, loadNeighbours]);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  const sections: Array<[string, Record<string, unknown> | undefined]> = [
+    ['Context', log.context],
+    ['Extra', log.extra],
+    ['Enriched data', log.enriched_data],
+  ];
+
+  const renderLine = (entry: LogEntry, current = false) => (
+    <button
+      key={entry.id}
+      type="button"
+      className={`${styles.line} ${current ? styles.lineCurrent : ''}`}
+      onClick={() => !current && onSelect(entry)}
+      disabled={current}
+    >
+      {entry.raw ?? `[${entry.timestamp}] ${entry.level}: ${entry.message}`}
+    </button>
+  );
+
+  return (
+    <div className={styles.backdrop} onClick={onClose}>
+      <aside className={styles.drawer} onClick={e => e.stopPropagation()} role="dialog" aria-label="Log details">
+        <header className={styles.header}>
+          <div>
+            <span className={styles.level}>{log.level}</span>
+            <code className={styles.id}>{log.id}</code>
+          </div>
+          <button type="button" className={styles.closeButton} onClick={onClose} title="Close (Esc)">
+            ✕
+          </button>
+        </header>
+
+        <div className={styles.body}>
+          <p className={styles.message}>{log.message}</p>
+          <dl className={styles.meta}>
+            <dt>Timestamp</dt>
+            <dd>{log.timestamp}</dd>
+            {log.channel && (
+              <>
+                <dt>Channel</dt>
+                <dd>{log.channel}</dd>
+              </>
+            )}
+            {log.category && (
+              <>
+                <dt>Category</dt>
+                <dd>{log.category}</dd>
+              </>
+            )}
+            {log.source && (
+              <>
+                <dt>File</dt>
+                <dd>{log.source}</dd>
+              </>
+            )}
+          </dl>
+
+          {onTrace && identifiersFromContext(log.context).length > 0 && (
+            <div className={styles.traceActions}>
+              {identifiersFromContext(log.context).map(identifier => (
+                <button key={identifier} type="button" className={styles.copyButton} onClick={() => onTrace(identifier)}>
+                  🔗 Trace {identifier}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {log.raw && (
+            <section className={styles.section}>
+              <div className={styles.sectionHeader}>
+                <h4>Original line</h4>
+                <CopyButton text={log.raw} label="Copy line" />
+              </div>
+              <pre className={styles.raw}>{log.raw}</pre>
+            </section>
+          )}
+
+          {sections.map(([title, value]) =>
+            isEmpty(value) ? null : (
+              <section key={title} className={styles.section}>
+                <h4>{title}</h4>
+                <JsonTree value={value} />
+              </section>
+            ),
+          )}
+
+          <section className={styles.section}>
+            <div className={styles.sectionHeader}>
+              <h4>All fields</h4>
+              <CopyButton text={JSON.stringify(log, null, 2)} label="Copy JSON" />
+            </div>
+            <JsonTree value={log} expandDepth={1} />
+          </section>
+
+          <section className={styles.section}>
+            <h4>Surrounding lines</h4>
+            {loading && <p className={styles.hint}>Loading…</p>}
+            {!loading && !neighbours && <p className={styles.hint}>Not available for this entry.</p>}
+            {neighbours && (
+              <div className={styles.lines}>
+                {neighbours.before.map(entry => renderLine(entry))}
+                {renderLine(neighbours.log, true)}
+                {neighbours.after.map(entry => renderLine(entry))}
+              </div>
+            )}
+          </section>
+        </div>
+      </aside>
+    </div>
+  );
+}
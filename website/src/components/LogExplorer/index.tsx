@@ -0,0 +1,289 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from 'react';
+import type { LogEntry, LogFacets, LogHistogram, LogsQuery, LogsResponse } from '@site/src/api';
+import LogTimeline from '@site/src/components/LogTimeline';
+import styles from './styles.module.css';
+
+/** Logs fetched per `/logs` request. */
+const PAGE_SIZE = 200;
+/** Rows rendered above and below the visible area. */
+const OVERSCAN = 8;
+/** Bars of the timeline, computed server-side along with the first page. */
+const HISTOGRAM_BUCKETS = 60;
+
+export interface LogFilters {
+  levels: string[];
+  categories: string[];
+  sources: string[];
+  id: string;
+  /** `datetime-local` values, empty when unset. */
+  from: string;
+  to: string;
+}
+
+export const EMPTY_FILTERS: LogFilters = { levels: [], categories: [], sources: [], id: '', from: '', to: '' };
+
+interface LogExplorerProps {
+  fetchPage: (query: LogsQuery, signal: AbortSignal) => Promise<LogsResponse>;
+  renderEntry: (log: LogEntry) => ReactNode;
+  /** Fixed height of a rendered entry in pixels, margins included. */
+  rowHeight?: number;
+  /** Change to drop every loaded page, e.g. after a new file was indexed. */
+  reloadKey?: unknown;
+  onCountsChange?: (filtered: number, total: number) => void;
+  /** Called with the time filter ("YYYY-MM-DD HH:MM:SS" bounds), or null once it is cleared. */
+  onTimeRangeChange?: (range: { from: string; to: string } | null) => void;
+}
+
+function toggle(values: string[], value: string): string[] {
+  return values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+}
+
+function hasFilters(filters: LogFilters): boolean {
+  return (
+    filters.levels.length > 0 ||
+    filters.categories.length > 0 ||
+    filters.sources.length > 0 ||
+    filters.id !== '' ||
+    filters.from !== '' ||
+    filters.to !== ''
+  );
+}
+
+/**
+ * Filterable log list that only renders the visible rows and fetches
+ * `/logs` page by page as the user scrolls.
+ */
+export default function LogExplorer({
+  fetchPage,
+  renderEntry,
+  rowHeight = 108,
+  reloadKey,
+  onCountsChange,
+  onTimeRangeChange,
+}: LogExplorerProps): ReactNode {
+  const [filters, setFilters] = useState<LogFilters>(EMPTY_FILTERS);
+  const [idSearch, setIdSearch] = useState('');
+  const [pages, setPages] = useState<Map<number, LogEntry[]>>(new Map());
+  const [filtered, setFiltered] = useState(0);
+  const [facets, setFacets] = useState<LogFacets>({ levels: {}, categories: {}, sources: {} });
+  const [histogram, setHistogram] = useState<LogHistogram | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  const listRef = useRef<HTMLDivElement>(null);
+  const loadingRef = useRef<Set<number>>(new Set());
+  const controllerRef = useRef<AbortController>(new AbortController());
+  const onCountsChangeRef = useRef(onCountsChange);
+  onCountsChangeRef.current = onCountsChange;
+  const onTimeRangeChangeRef = useRef(onTimeRangeChange);
+  onTimeRangeChangeRef.current = onTimeRangeChange;
+
+  // Typing in the ID field should not fire a request per keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => setFilters(prev => ({ ...prev, id: idSearch.trim() })), 300);
+    return () => clearTimeout(timer);
+  }, [idSearch]);
+
+  const query = useMemo<LogsQuery>(
+    () => ({
+      levels: filters.levels,
+      categories: filters.categories,
+      sources: filters.sources,
+      id: filters.id || undefined,
+      from: filters.from || undefined,
+      to: filters.to || undefined,
+    }),
+    [filters],
+  );
+
+  const loadPage = useCallback(
+    (page: number) => {
+      if (loadingRef.current.has(page)) {
+        return;
+      }
+      loadingRef.current.add(page);
+      const controller = controllerRef.current;
+
+      const histogram = page === 0 ? HISTOGRAM_BUCKETS : undefined;
+      fetchPage({ ...query, offset: page * PAGE_SIZE, limit: PAGE_SIZE, histogram }, controller.signal)
+        .then(response => {
+          if (controller.signal.aborted) {
+            return;
+          }
+          if (page === 0) {
+            setHistogram(response.histogram ?? null);
+          }
+          setPages(prev => new Map(prev).set(page, response.logs));
+          setFiltered(response.filtered);
+          setFacets(response.facets);
+          setError(null);
+          onCountsChangeRef.current?.(response.filtered, response.total);
+        })
+        .catch(err => {
+          if (controller.signal.aborted) {
+            return;
+          }
+          // Allow a retry when the page scrolls into view again
+          loadingRef.current.delete(page);
+          setError(err instanceof Error ? err.message : 'Failed to load logs');
+        });
+    },
+    [fetchPage, query],
+  );
+
+  // New filters or a new session: start over from the first page
+  useEffect(() => {
+    controllerRef.current.abort();
+    controllerRef.current = new AbortController();
+    loadingRef.current = new Set();
+    setPages(new Map());
+    listRef.current?.scrollTo({ top: 0 });
+    setScrollTop(0);
+    loadPage(0);
+  }, [loadPage, reloadKey]);
+
+  useEffect(() => () => controllerRef.current.abort(), []);
+
+  useEffect(() => {
+    onTimeRangeChangeRef.current?.(
+      filters.from && filters.to
+        ? { from: filters.from.replace('T', ' '), to: filters.to.replace('T', ' ') }
+        : null,
+    );
+  }, [filters.from, filters.to]);
+
+  useEffect(() => {
+    const list = listRef.current;
+    if (!list) {
+      return;
+    }
+    const observer = new ResizeObserver(() => setViewportHeight(list.clientHeight));
+    observer.observe(list);
+    return () => observer.disconnect();
+  }, []);
+
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - OVERSCAN);
+  const end = Math.min(filtered, Math.ceil((scrollTop + viewportHeight) / rowHeight) + OVERSCAN);
+
+  useEffect(() => {
+    if (end <= start) {
+      return;
+    }
+    for (let page = Math.floor(start / PAGE_SIZE); page <= Math.floor((end - 1) / PAGE_SIZE); page++) {
+      if (!pages.has(page)) {
+        loadPage(page);
+      }
+    }
+  }, [start, end, pages, loadPage]);
+
+  const rows: ReactNode[] = [];
+  for (let index = start; index < end; index++) {
+    const log = pages.get(Math.floor(index / PAGE_SIZE))?.[index % PAGE_SIZE];
+    rows.push(
+      <div key={index} className={styles.row} style={{ top: index * rowHeight, height: rowHeight }}>
+        {log ? renderEntry(log) : <div className={styles.placeholder}>Loading…</div>}
+      </div>,
+    );
+  }
+
+  return (
+    <div className={styles.explorer}>
+      <div className={styles.filters}>
+        {histogram && histogram.buckets.length > 0 && (
+          <LogTimeline
+            histogram={histogram}
+            onBrush={(from, to) => setFilters(prev => ({ ...prev, from: from.replace(' ', 'T'), to: to.replace(' ', 'T') }))}
+            onReset={filters.from || filters.to ? () => setFilters(prev => ({ ...prev, from: '', to: '' })) : undefined}
+          />
+        )}
+        <div className={styles.chips}>
+          {Object.entries(facets.levels).map(([level, count]) => (
+            <button
+              key={level}
+              type="button"
+              className={`${styles.chip} ${filters.levels.includes(level) ? styles.chipActive : ''}`}
+              onClick={() => setFilters(prev => ({ ...prev, levels: toggle(prev.levels, level) }))}
+            >
+              {level} <span className={styles.chipCount}>{count}</span>
+            </button>
+          ))}
+        </div>
+        <div className={styles.chips}>
+          {Object.entries(facets.categories).map(([category, count]) => (
+            <button
+              key={category}
+              type="button"
+              className={`${styles.chip} ${filters.categories.includes(category) ? styles.chipActive : ''}`}
+              onClick={() => setFilters(prev => ({ ...prev, categories: toggle(prev.categories, category) }))}
+            >
+              {category} <span className={styles.chipCount}>{count}</span>
+            </button>
+          ))}
+        </div>
+        {Object.keys(facets.sources).length > 1 && (
+          <div className={styles.chips}>
+            {Object.entries(facets.sources).map(([source, count]) => (
+              <button
+                key={source}
+                type="button"
+                className={`${styles.chip} ${filters.sources.includes(source) ? styles.chipActive : ''}`}
+                onClick={() => setFilters(prev => ({ ...prev, sources: toggle(prev.sources, source) }))}
+                title={`Logs from ${source}`}
+              >
+                📄 {source} <span className={styles.chipCount}>{count}</span>
+              </button>
+            ))}
+          </div>
+        )}
+        <input
+          type="search"
+          className={styles.input}
+          placeholder="🔎 Filter by log ID"
+          value={idSearch}
+          onChange={e => setIdSearch(e.target.value)}
+        />
+        <div className={styles.timeRange}>
+          <input
+            type="datetime-local"
+            step={1}
+            className={styles.input}
+            value={filters.from}
+            onChange={e => setFilters(prev => ({ ...prev, from: e.target.value }))}
+            title="From"
+          />
+          <span>→</span>
+          <input
+            type="datetime-local"
+            step={1}
+            className={styles.input}
+            value={filters.to}
+            onChange={e => setFilters(prev => ({ ...prev, to: e.target.value }))}
+            title="To"
+          />
+        </div>
+        {hasFilters(filters) && (
+          <button
+            type="button"
+            className={styles.clearButton}
+            onClick={() => {
+              setIdSearch('');
+              setFilters(EMPTY_FILTERS);
+            }}
+          >
+            ✕ Clear filters
+          </button>
+        )}
+      </div>
+
+      {error && <div className={styles.error}>⚠️ {error}</div>}
+
+      <div ref={listRef} className={styles.list} onScroll={e => setScrollTop(e.currentTarget.scrollTop)}>
+        <div className={styles.spacer} style={{ height: filtered * rowHeight }}>
+          {rows}
+        </div>
+        {filtered === 0 && pages.size > 0 && <div className={styles.empty}>No logs match these filters.</div>}
+      </div>
+    </div>
+  );
+}
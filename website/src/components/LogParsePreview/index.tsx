@@ -0,0 +1,152 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import { LOG_FORMAT_LABELS, previewLogFile, type LogFilePreview } from '@site/src/logs';
+import styles from './styles.module.css';
+
+interface LogParsePreviewProps {
+  file: File;
+}
+
+function sortedCounts(counts: Record<string, number>): Array<[string, number]> {
+  return Object.entries(counts).sort((a, b) => b[1] - a[1]);
+}
+
+function levelClass(level: string): string {
+  switch (level) {
+    case 'ERROR':
+    case 'CRITICAL':
+    case 'FATAL':
+      return styles.levelError;
+    case 'WARNING':
+    case 'WARN':
+      return styles.levelWarning;
+    default:
+      return styles.levelInfo;
+  }
+}
+
+/**
+ * Shows how the server's parseLogLine() will read the selected file,
+ * before anything is uploaded or indexed.
+ */
+export default function LogParsePreview({ file }: LogParsePreviewProps): ReactNode {
+  const [preview, setPreview] = useState<LogFilePreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [showUnparsed, setShowUnparsed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPreview(null);
+    setError(null);
+    previewLogFile(file)
+      .then(result => !cancelled && setPreview(result))
+      .catch(err => !cancelled && setError(err instanceof Error ? err.message : 'Could not read file'));
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  if (error) {
+    return <div className={styles.preview}>⚠️ Could not preview file: {error}</div>;
+  }
+  if (!preview) {
+    return <div className={styles.preview}>🔍 Reading file...</div>;
+  }
+  if (preview.totalLines === 0) {
+    return <div className={styles.preview}>⚠️ The file contains no log lines.</div>;
+  }
+
+  const parsedPercent = Math.round((preview.parsedLines / preview.totalLines) * 100);
+
+  return (
+    <div className={styles.preview}>
+      <div className={styles.summary}>
+        <div>
+          <span className={styles.label}>Format</span>
+          <span className={preview.format ? styles.value : styles.valueWarning}>
+            {preview.format ? LOG_FORMAT_LABELS[preview.format] : 'Unknown – no line matches a supported pattern'}
+          </span>
+        </div>
+        <div>
+          <span className={styles.label}>Parsed</span>
+          <span className={parsedPercent < 80 ? styles.valueWarning : styles.value}>
+            {preview.parsedLines} / {preview.totalLines} lines ({parsedPercent}%)
+          </span>
+        </div>
+        <div>
+          <span className={styles.label}>Time range</span>
+          <span className={styles.value}>
+            {preview.firstTimestamp ? `${preview.firstTimestamp} → ${preview.lastTimestamp}` : 'No timestamps found'}
+            {preview.missingTimestamps > 0 && ` (${preview.missingTimestamps} lines without timestamp)`}
+          </span>
+        </div>
+      </div>
+
+      <div className={styles.chips}>
+        {sortedCounts(preview.levels).map(([level, count]) => (
+          <span key={level} className={`${styles.chip} ${levelClass(level)}`}>
+            {level} {count}
+          </span>
+        ))}
+      </div>
+      <div className={styles.chips}>
+        {sortedCounts(preview.categories).map(([category, count]) => (
+          <span key={category} className={styles.chip}>
+            {category} {count}
+          </span>
+        ))}
+      </div>
+
+      <div className={styles.tableWrapper}>
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>#</th>
+              <th>Timestamp</th>
+              <th>Level</th>
+              <th>Category</th>
+              <th>Message</th>
+            </tr>
+          </thead>
+          <tbody>
+            {preview.rows.map(row => (
+              <tr key={row.lineNumber} className={row.format ? undefined : styles.unparsedRow}>
+                <td>{row.lineNumber}</td>
+                <td>{row.timestamp ?? '—'}</td>
+                <td className={levelClass(row.level)}>{row.level}</td>
+                <td>{row.category}</td>
+                <td className={styles.message}>{row.message}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {preview.unparsedCount > 0 && (
+        <div className={styles.unparsed}>
+          <button type="button" className={styles.toggle} onClick={() => setShowUnparsed(!showUnparsed)}>
+            {showUnparsed ? '▾' : '▸'} {preview.unparsedCount} unparsed lines (indexed as INFO with the raw line as message)
+          </button>
+          {showUnparsed && (
+            <ul className={styles.unparsedList}>
+              {preview.unparsed.map(line => (
+                <li key={line.lineNumber}>
+                  <span className={styles.lineNumber}>{line.lineNumber}</span>
+                  <code>{line.content}</code>
+                </li>
+              ))}
+              {preview.unparsedCount > preview.unparsed.length && (
+                <li className={styles.more}>… and {preview.unparsedCount - preview.unparsed.length} more</li>
+              )}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {preview.truncated && (
+        <p className={styles.note}>
+          Preview based on the first {(preview.bytesRead / (1024 * 1024)).toFixed(0)} MB of the file.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { useEffect, useMemo, useState, type ReactNode } from 'react';
+import type { LogEntry, LogsQuery, LogsResponse } from '@site/src/api';
+import { FAILING_LEVELS, PATTERN_SLOT, fetchAllLogs, mineLogPatterns, type LogPattern } from '@site/src/logs';
+import styles from './styles.module.css';
+
+interface LogPatternsProps {
+  fetchPage: (query: LogsQuery, signal: AbortSignal) => Promise<LogsResponse>;
+  /** Change to mine the logs again, e.g. after a new file was indexed. */
+  reloadKey?: unknown;
+  onSelect: (log: LogEntry) => void;
+  onAsk: (pattern: LogPattern) => void;
+  /** An answer is on its way. */
+  askDisabled: boolean;
+}
+
+function failingCount(pattern: LogPattern): number {
+  return Object.entries(pattern.levels).reduce(
+    (sum, [level, count]) => sum + (FAILING_LEVELS.includes(level.toLowerCase()) ? count : 0),
+    0,
+  );
+}
+
+function renderTemplate(template: string): ReactNode {
+  return template.split(PATTERN_SLOT).map((part, i) => (
+    <span key={i}>
+      {i > 0 && <span className={styles.slot}>{PATTERN_SLOT}</span>}
+      {part}
+    </span>
+  ));
+}
+
+/**
+ * The logs of the session reduced to their templates, most frequent first,
+ * with when each one was seen and a few examples.
+ */
+export default function LogPatterns({ fetchPage, reloadKey, onSelect, onAsk, askDisabled }: LogPatternsProps): ReactNode {
+  const [logs, setLogs] = useState<LogEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState('');
+  const [failingOnly, setFailingOnly] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLogs(null);
+    setError(null);
+    fetchAllLogs(fetchPage, controller.signal)
+      .then(setLogs)
+      .catch(err => {
+        if (!controller.signal.aborted) {
+          setError(err instanceof Error ? err.message : 'Failed to load logs');
+        }
+      });
+    return () => controller.abort();
+  }, [fetchPage, reloadKey]);
+
+  const patterns = useMemo(() => (logs ? mineLogPatterns(logs) : []), [logs]);
+
+  const shown = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    return patterns.filter(
+      pattern =>
+        (!failingOnly || failingCount(pattern) > 0) && (needle === '' || pattern.template.toLowerCase().includes(needle)),
+    );
+  }, [patterns, filter, failingOnly]);
+
+  if (error) {
+    return <div className={styles.status}>⚠️ {error}</div>;
+  }
+  if (!logs) {
+    return <div className={styles.status}>⏳ Mining log patterns...</div>;
+  }
+
+  return (
+    <div className={styles.patterns}>
+      <div className={styles.filters}>
+        <input
+          type="search"
+          className={styles.input}
+          placeholder="Filter templates..."
+          value={filter}
+          onChange={e => setFilter(e.target.value)}
+        />
+        <label className={styles.toggle}>
+          <input type="checkbox" checked={failingOnly} onChange={e => setFailingOnly(e.target.checked)} />
+          Errors only
+        </label>
+      </div>
+      <div className={styles.status}>
+        {patterns.length} patterns in {logs.length} logs
+        {shown.length !== patterns.length && ` · ${shown.length} shown`}
+      </div>
+
+      <div className={styles.list}>
+        {shown.map(pattern => (
+          <div key={pattern.id} className={`${styles.pattern} ${failingCount(pattern) > 0 ? styles.failing : ''}`}>
+            <div className={styles.patternHeader}>
+              <span className={styles.count} title={`${pattern.count} logs`}>
+                ×{pattern.count}
+              </span>
+              <span className={styles.levels}>
+                {Object.entries(pattern.levels)
+                  .map(([level, count]) => `${count} ${level}`)
+                  .join(' · ')}
+              </span>
+            </div>
+            <div className={styles.template}>{renderTemplate(pattern.template)}</div>
+            {pattern.firstSeen && (
+              <div className={styles.seen}>
+                {pattern.firstSeen === pattern.lastSeen ? pattern.firstSeen : `${pattern.firstSeen} → ${pattern.lastSeen}`}
+              </div>
+            )}
+            <div className={styles.actions}>
+              <button
+                type="button"
+                className={styles.action}
+                onClick={() => setExpanded(expanded === pattern.id ? null : pattern.id)}
+              >
+                {expanded === pattern.id ? '▼' : '▶'} Examples
+              </button>
+              <button
+                type="button"
+                className={styles.action}
+                onClick={() => onAsk(pattern)}
+                disabled={askDisabled}
+                title="Send the template and its examples to the chat"
+              >
+                💬 Ask about this pattern
+              </button>
+            </div>
+            {expanded === pattern.id && (
+              <div className={styles.examples}>
+                {pattern.examples.map(log => (
+                  <button key={log.id} type="button" className={styles.example} onClick={() => onSelect(log)}>
+                    <span className={styles.exampleId}>{log.id}</span> {log.message}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
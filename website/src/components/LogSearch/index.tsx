@@ -0,0 +1,128 @@
+import { useEffect, useMemo, useRef, useState, type ReactNode } from 'react';
+import type { LogEntry, LogsQuery, LogsResponse } from '@site/src/api';
+import { buildLogSearchIndex, fetchAllLogs, highlightTerms, searchLogIndex } from '@site/src/logs';
+import styles from './styles.module.css';
+
+const MAX_HITS = 50;
+
+interface LogSearchProps {
+  fetchPage: (query: LogsQuery, signal: AbortSignal) => Promise<LogsResponse>;
+  /** Change to rebuild the index, e.g. after a new file was indexed. */
+  reloadKey?: unknown;
+  onSelect: (log: LogEntry) => void;
+}
+
+/**
+ * Ranked keyword search over every log of the session, in the browser.
+ * Logs are fetched and indexed on the first search, then each keystroke
+ * searches the index without a request.
+ */
+export default function LogSearch({ fetchPage, reloadKey, onSelect }: LogSearchProps): ReactNode {
+  const [query, setQuery] = useState('');
+  const [logs, setLogs] = useState<LogEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // New logs in the session: the index is rebuilt on the next search
+  useEffect(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setLogs(null);
+  }, [fetchPage, reloadKey]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const searching = query.trim() !== '';
+
+  useEffect(() => {
+    if (!searching || logs !== null || controllerRef.current) {
+      return;
+    }
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError(null);
+    fetchAllLogs(fetchPage, controller.signal)
+      .then(loaded => {
+        if (!controller.signal.aborted) {
+          setLogs(loaded);
+        }
+      })
+      .catch(err => {
+        if (!controller.signal.aborted) {
+          setError(err instanceof Error ? err.message : 'Failed to load logs');
+        }
+      })
+      .finally(() => {
+        if (controllerRef.current === controller) {
+          controllerRef.current = null;
+        }
+      });
+  }, [searching, logs, fetchPage]);
+
+  const index = useMemo(() => (logs ? buildLogSearchIndex(logs) : null), [logs]);
+
+  const results = useMemo(() => {
+    if (!index || !searching) {
+      return null;
+    }
+    const started = performance.now();
+    const hits = searchLogIndex(index, query, MAX_HITS);
+    return { hits, ms: performance.now() - started };
+  }, [index, query, searching]);
+
+  const bestScore = results?.hits[0]?.score ?? 1;
+
+  return (
+    <div className={styles.search}>
+      <div className={styles.inputRow}>
+        <input
+          type="search"
+          className={styles.input}
+          placeholder="🔍 Search messages, context, levels..."
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          onKeyDown={e => e.key === 'Escape' && setQuery('')}
+          title="Keyword search ranked with BM25, like the agent's keyword fallback"
+        />
+      </div>
+
+      {searching && (
+        <div className={styles.results}>
+          {error && <div className={styles.status}>⚠️ {error}</div>}
+          {!error && !results && <div className={styles.status}>⏳ Indexing logs...</div>}
+          {results && (
+            <div className={styles.status}>
+              {results.hits.length === 0
+                ? 'No log matches these words.'
+                : `${results.hits.length === MAX_HITS ? `Top ${MAX_HITS}` : results.hits.length} matches in ${results.ms.toFixed(1)} ms`}
+            </div>
+          )}
+          {results?.hits.map(hit => (
+            <button
+              key={hit.log.id}
+              type="button"
+              className={styles.hit}
+              onClick={() => onSelect(hit.log)}
+              title={`Score ${hit.score.toFixed(2)} · matched ${hit.terms.join(', ')}`}
+            >
+              <div className={styles.hitHeader}>
+                <span className={`${styles.level} ${styles[`level${hit.log.level.toUpperCase()}`] ?? ''}`}>
+                  {hit.log.level}
+                </span>
+                <span className={styles.hitId}>{hit.log.id}</span>
+                <span className={styles.scoreBar}>
+                  <span style={{ width: `${Math.max(8, (hit.score / bestScore) * 100)}%` }} />
+                </span>
+              </div>
+              <div className={styles.hitMessage}>
+                {highlightTerms(hit.log.message, hit.terms).map((segment, i) =>
+                  segment.match ? <mark key={i}>{segment.text}</mark> : <span key={i}>{segment.text}</span>,
+                )}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
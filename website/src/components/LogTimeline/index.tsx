@@ -0,0 +1,145 @@
+import { useState, type PointerEvent, type ReactNode } from 'react';
+import type { LogHistogram } from '@site/src/api';
+import { formatTimestamp, parseTimestamp } from '@site/src/logs';
+import styles from './styles.module.css';
+
+/** Stacked bottom to top, with the colors of the playground log entries. */
+const SERIES = [
+  { level: 'INFO', color: '#0d6efd' },
+  { level: 'WARNING', color: '#ffc107' },
+  { level: 'ERROR', color: '#dc3545' },
+  { level: 'CRITICAL', color: '#880808' },
+] as const;
+
+type Series = (typeof SERIES)[number]['level'];
+
+const WIDTH = 300;
+const HEIGHT = 60;
+
+/**
+ * Same grouping as getLevelColor() in the playground: anything that is not
+ * an error, critical or warning is drawn as INFO.
+ */
+function seriesOf(level: string): Series {
+  switch (level) {
+    case 'ERROR':
+    case 'CRITICAL':
+    case 'WARNING':
+      return level;
+    default:
+      return 'INFO';
+  }
+}
+
+interface LogTimelineProps {
+  histogram: LogHistogram;
+  /** Called with the selected range as "YYYY-MM-DD HH:MM:SS" bounds. */
+  onBrush: (from: string, to: string) => void;
+  /** Shown as a "reset zoom" action when the chart is zoomed in. */
+  onReset?: () => void;
+}
+
+/**
+ * Log volume over time, stacked by level. Drag across the chart to zoom in.
+ */
+export default function LogTimeline({ histogram, onBrush, onReset }: LogTimelineProps): ReactNode {
+  const [brush, setBrush] = useState<{ start: number; end: number } | null>(null);
+
+  const bucketCount = Math.max(1, histogram.buckets.length);
+  const barWidth = WIDTH / bucketCount;
+  const stacks = histogram.buckets.map(bucket => {
+    const totals: Record<Series, number> = { INFO: 0, WARNING: 0, ERROR: 0, CRITICAL: 0 };
+    for (const [level, count] of Object.entries(bucket.counts)) {
+      totals[seriesOf(level)] += count;
+    }
+    return totals;
+  });
+  const max = Math.max(1, ...stacks.map(totals => Object.values(totals).reduce((a, b) => a + b, 0)));
+
+  const bucketAt = (event: PointerEvent<SVGSVGElement>): number => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const ratio = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width));
+    return Math.min(bucketCount - 1, Math.floor(ratio * bucketCount));
+  };
+
+  const handlePointerDown = (event: PointerEvent<SVGSVGElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const index = bucketAt(event);
+    setBrush({ start: index, end: index });
+  };
+
+  const handlePointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    if (brush) {
+      setBrush({ ...brush, end: bucketAt(event) });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!brush) {
+      return;
+    }
+    setBrush(null);
+    const first = Math.min(brush.start, brush.end);
+    const last = Math.max(brush.start, brush.end);
+    const start = parseTimestamp(histogram.buckets[first]?.start ?? '');
+    const lastStart = parseTimestamp(histogram.buckets[last]?.start ?? '');
+    if (start === null || lastStart === null) {
+      return;
+    }
+    // The range ends with the last second of the last selected bucket
+    onBrush(formatTimestamp(start), formatTimestamp(lastStart + (histogram.bucket_seconds - 1) * 1000));
+  };
+
+  return (
+    <div className={styles.timeline}>
+      <svg
+        className={styles.chart}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => setBrush(null)}
+      >
+        {stacks.map((totals, i) => {
+          let y = HEIGHT;
+          const total = Object.values(totals).reduce((a, b) => a + b, 0);
+          return (
+            <g key={histogram.buckets[i].start}>
+              <title>
+                {histogram.buckets[i].start} – {total} logs
+                {SERIES.filter(s => totals[s.level] > 0).map(s => `\n${s.level}: ${totals[s.level]}`).join('')}
+              </title>
+              <rect x={i * barWidth} y={0} width={barWidth} height={HEIGHT} fill="transparent" />
+              {SERIES.map(({ level, color }) => {
+                const height = (totals[level] / max) * HEIGHT;
+                y -= height;
+                return height > 0 ? (
+                  <rect key={level} x={i * barWidth + 0.5} y={y} width={Math.max(0.5, barWidth - 1)} height={height} fill={color} />
+                ) : null;
+              })}
+            </g>
+          );
+        })}
+        {brush && (
+          <rect
+            className={styles.brush}
+            x={Math.min(brush.start, brush.end) * barWidth}
+            y={0}
+            width={(Math.abs(brush.end - brush.start) + 1) * barWidth}
+            height={HEIGHT}
+          />
+        )}
+      </svg>
+      <div className={styles.axis}>
+        <span>{histogram.from}</span>
+        {onReset && (
+          <button type="button" className={styles.reset} onClick={onReset}>
+            ↺ Reset zoom
+          </button>
+        )}
+        <span>{histogram.to}</span>
+      </div>
+    </div>
+  );
+}
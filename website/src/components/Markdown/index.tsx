@@ -0,0 +1,217 @@
+import { Fragment, useMemo, type ReactNode } from 'react';
+import CodeBlock from '@theme/CodeBlock';
+import type { Definition, Nodes, Parents, Root } from 'mdast';
+import { fromMarkdown } from 'mdast-util-from-markdown';
+import { gfmFromMarkdown } from 'mdast-util-gfm';
+import { gfm } from 'micromark-extension-gfm';
+import styles from './styles.module.css';
+
+interface MarkdownProps {
+  children: string;
+  className?: string;
+  /**
+   * Replaces the themed code block, e.g. when rendering outside the
+   * Docusaurus providers.
+   */
+  renderCode?: (code: string, language: string | null) => ReactNode;
+}
+
+/** Protocols a rendered link may point to; anything else stays plain text. */
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+export function safeHref(url: string): string | null {
+  try {
+    return SAFE_PROTOCOLS.includes(new URL(url).protocol) ? url : null;
+  } catch {
+    // Relative and malformed URLs point nowhere useful from a chat answer
+    return null;
+  }
+}
+
+function collectDefinitions(root: Root): Map<string, Definition> {
+  const definitions = new Map<string, Definition>();
+  const visit = (node: Nodes) => {
+    if (node.type === 'definition') {
+      definitions.set(node.identifier, node);
+    } else if ('children' in node) {
+      node.children.forEach(visit);
+    }
+  };
+  visit(root);
+  return definitions;
+}
+
+function SafeLink({ url, title, children }: { url: string; title?: string | null; children: ReactNode }): ReactNode {
+  const href = safeHref(url);
+  if (!href) {
+    return <span title={url}>{children}</span>;
+  }
+  return (
+    <a href={href} title={title ?? href} target="_blank" rel="noopener noreferrer nofollow">
+      {children}
+    </a>
+  );
+}
+
+/**
+ * Renders untrusted Markdown (GitHub flavoured) as React elements.
+ *
+ * The syntax tree is mapped to elements one node at a time, so raw HTML in the
+ * source is shown as text and never reaches the DOM. Links only keep http(s)
+ * and mailto targets, and images are turned into links so that answers cannot
+ * make the browser fetch remote resources.
+ */
+export default function Markdown({ children, className, renderCode }: MarkdownProps): ReactNode {
+  const root = useMemo(
+    () => fromMarkdown(children, { extensions: [gfm()], mdastExtensions: [gfmFromMarkdown()] }),
+    [children],
+  );
+  const definitions = useMemo(() => collectDefinitions(root), [root]);
+
+  const renderChildren = (node: Parents): ReactNode[] =>
+    node.children.map((child, index) => render(child, index));
+
+  const render = (node: Nodes, key: number): ReactNode => {
+    switch (node.type) {
+      case 'root':
+        return renderChildren(node);
+      case 'paragraph':
+        return <p key={key}>{renderChildren(node)}</p>;
+      case 'heading': {
+        // Answers live inside a chat bubble: keep headings below the page's own
+        const Heading = `h${Math.min(node.depth + 2, 6)}` as 'h3' | 'h4' | 'h5' | 'h6';
+        return (
+          <Heading key={key} className={styles.heading}>
+            {renderChildren(node)}
+          </Heading>
+        );
+      }
+      case 'text':
+      case 'html':
+        return node.value;
+      case 'strong':
+        return <strong key={key}>{renderChildren(node)}</strong>;
+      case 'emphasis':
+        return <em key={key}>{renderChildren(node)}</em>;
+      case 'delete':
+        return <del key={key}>{renderChildren(node)}</del>;
+      case 'inlineCode':
+        return (
+          <code key={key} className={styles.inlineCode}>
+            {node.value}
+          </code>
+        );
+      case 'break':
+        return <br key={key} />;
+      case 'thematicBreak':
+        return <hr key={key} />;
+      case 'blockquote':
+        return <blockquote key={key}>{renderChildren(node)}</blockquote>;
+      case 'code':
+        if (renderCode) {
+          return <Fragment key={key}>{renderCode(node.value, node.lang ?? null)}</Fragment>;
+        }
+        return (
+          <CodeBlock key={key} language={node.lang ?? 'text'} className={styles.codeBlock}>
+            {node.value}
+          </CodeBlock>
+        );
+      case 'list': {
+        const List = node.ordered ? 'ol' : 'ul';
+        return (
+          <List key={key} start={node.ordered && node.start !== 1 ? (node.start ?? undefined) : undefined}>
+            {renderChildren(node)}
+          </List>
+        );
+      }
+      case 'listItem':
+        return (
+          <li key={key} className={node.checked !== null && node.checked !== undefined ? styles.taskItem : undefined}>
+            {node.checked !== null && node.checked !== undefined && (
+              <input type="checkbox" checked={node.checked} disabled readOnly />
+            )}
+            {node.spread
+              ? renderChildren(node)
+              : // Tight list items: no paragraph margins around the text
+                node.children.map((child, index) =>
+                  child.type === 'paragraph' ? <Fragment key={index}>{renderChildren(child)}</Fragment> : render(child, index),
+                )}
+          </li>
+        );
+      case 'link':
+        return (
+          <SafeLink key={key} url={node.url} title={node.title}>
+            {renderChildren(node)}
+          </SafeLink>
+        );
+      case 'image':
+        return (
+          <SafeLink key={key} url={node.url} title={node.title}>
+            🖼️ {node.alt || node.url}
+          </SafeLink>
+        );
+      case 'linkReference': {
+        const definition = definitions.get(node.identifier);
+        return definition ? (
+          <SafeLink key={key} url={definition.url} title={definition.title}>
+            {renderChildren(node)}
+          </SafeLink>
+        ) : (
+          <span key={key}>{renderChildren(node)}</span>
+        );
+      }
+      case 'imageReference': {
+        const definition = definitions.get(node.identifier);
+        return definition ? (
+          <SafeLink key={key} url={definition.url} title={definition.title}>
+            🖼️ {node.alt || definition.url}
+          </SafeLink>
+        ) : (
+          node.alt
+        );
+      }
+      case 'table':
+        return (
+          <div key={key} className={styles.tableWrapper}>
+            <table>
+              <thead>
+                {node.children.slice(0, 1).map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {row.children.map((cell, cellIndex) => (
+                      <th key={cellIndex} style={{ textAlign: node.align?.[cellIndex] ?? undefined }}>
+                        {renderChildren(cell)}
+                      </th>
+                    ))}
+                  </tr>
+                ))}
+              </thead>
+              <tbody>
+                {node.children.slice(1).map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {row.children.map((cell, cellIndex) => (
+                      <td key={cellIndex} style={{ textAlign: node.align?.[cellIndex] ?? undefined }}>
+                        {renderChildren(cell)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case 'footnoteReference':
+        return <sup key={key}>[{node.label ?? node.identifier}]</sup>;
+      case 'footnoteDefinition':
+        return (
+          <div key={key} className={styles.footnote}>
+            <sup>[{node.label ?? node.identifier}]</sup> {renderChildren(node)}
+          </div>
+        );
+      default:
+        // definitions (resolved above), front matter and rows/cells handled by their table
+        return null;
+    }
+  };
+
+  return <div className={`${styles.markdown} ${className ?? ''}`}>{render(root, 0)}</div>;
+}
@@ -0,0 +1,353 @@
+import { useEffect, useMemo, useRef, useState, type ReactNode } from 'react';
+import { describeError, type ChatResponse, type CompareCandidate, type PlatformId } from '@site/src/api';
+import Markdown from '@site/src/components/Markdown';
+import { describeTokenUsage } from '@site/src/usage';
+import styles from './styles.module.css';
+
+/** Up to this many models answer side by side. */
+const MAX_CANDIDATES = 3;
+
+export interface ComparePlatform {
+  id: PlatformId;
+  name: string;
+  icon: string;
+  requiresApiKey: boolean;
+  brainModels: { value: string; label: string }[];
+}
+
+interface ModelComparisonProps {
+  platforms: ComparePlatform[];
+  /** First columns, usually the session's own model; their credentials are reused when switching platforms. */
+  initialCandidates: CompareCandidate[];
+  initialQuestion: string;
+  runCandidate: (candidate: CompareCandidate, question: string, signal: AbortSignal) => Promise<ChatResponse>;
+  onClose: () => void;
+}
+
+type ColumnResult =
+  | { candidate: CompareCandidate; status: 'running' }
+  | { candidate: CompareCandidate; status: 'done'; response: ChatResponse }
+  | { candidate: CompareCandidate; status: 'failed'; error: string };
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+function formatTokens(response: ChatResponse): string {
+  return response.usage ? response.usage.total_tokens.toLocaleString() : 'n/a';
+}
+
+/**
+ * Asks one question to two or three platform/model pairs at once, against the
+ * same indexed logs, and shows the answers in columns with their latency,
+ * token usage and which evidence logs they have in common.
+ */
+export default function ModelComparison({
+  platforms,
+  initialCandidates,
+  initialQuestion,
+  runCandidate,
+  onClose,
+}: ModelComparisonProps): ReactNode {
+  const [candidates, setCandidates] = useState<CompareCandidate[]>(initialCandidates);
+  const [question, setQuestion] = useState(initialQuestion);
+  const [results, setResults] = useState<ColumnResult[]>([]);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Credentials typed once are offered again whenever the same platform is picked
+  const credentialsRef = useRef(
+    new Map(initialCandidates.map(candidate => [candidate.platform, candidate] as const)),
+  );
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const running = results.some(result => result.status === 'running');
+
+  const updateCandidate = (index: number, patch: Partial<CompareCandidate>) => {
+    setCandidates(prev =>
+      prev.map((candidate, i) => {
+        if (i !== index) {
+          return candidate;
+        }
+        const next = { ...candidate, ...patch };
+        credentialsRef.current.set(next.platform, next);
+        return next;
+      }),
+    );
+  };
+
+  const changePlatform = (index: number, platformId: PlatformId) => {
+    const platform = platforms.find(p => p.id === platformId);
+    const known = credentialsRef.current.get(platformId);
+    updateCandidate(index, {
+      platform: platformId,
+      brain_model: platform?.brainModels[0]?.value ?? '',
+      api_key: known?.api_key ?? '',
+      ollama_host: known?.ollama_host ?? 'http://localhost:11434',
+    });
+  };
+
+  const addCandidate = () => {
+    const last = candidates[candidates.length - 1];
+    const platform = platforms.find(p => p.id === last.platform);
+    const unused = platform?.brainModels.find(model => !candidates.some(c => c.brain_model === model.value));
+    setCandidates(prev => [...prev, { ...last, brain_model: unused?.value ?? last.brain_model }]);
+  };
+
+  const removeCandidate = (index: number) => {
+    setCandidates(prev => prev.filter((_, i) => i !== index));
+    setResults([]);
+  };
+
+  const missingCredentials = candidates.some(candidate => {
+    const platform = platforms.find(p => p.id === candidate.platform);
+    return platform?.requiresApiKey ? !candidate.api_key.trim() : !candidate.ollama_host.trim();
+  });
+
+  const run = () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const asked = question.trim();
+    const snapshot = candidates.map(candidate => ({
+      ...candidate,
+      api_key: candidate.api_key.trim(),
+      ollama_host: candidate.ollama_host.trim(),
+    }));
+    setResults(snapshot.map(candidate => ({ candidate, status: 'running' })));
+
+    // Every column runs in parallel and shows up as soon as it is answered
+    snapshot.forEach((candidate, index) => {
+      runCandidate(candidate, asked, controller.signal)
+        .then(response => ({ candidate, status: 'done', response }) as const)
+        .catch(error => ({ candidate, status: 'failed', error: describeError(error, 'Comparison failed') }) as const)
+        .then(result => {
+          if (controller.signal.aborted && result.status === 'failed') {
+            return;
+          }
+          setResults(prev => prev.map((previous, i) => (i === index ? result : previous)));
+        });
+    });
+  };
+
+  const stop = () => {
+    controllerRef.current?.abort();
+    setResults(prev =>
+      prev.map(result => (result.status === 'running' ? { ...result, status: 'failed', error: 'Stopped' } : result)),
+    );
+  };
+
+  // Evidence log id -> number of answers citing it
+  const citations = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const result of results) {
+      if (result.status === 'done') {
+        for (const id of new Set(result.response.evidence_logs.map(log => log.id))) {
+          counts.set(id, (counts.get(id) ?? 0) + 1);
+        }
+      }
+    }
+    return counts;
+  }, [results]);
+
+  const answered = results.filter(result => result.status === 'done');
+  const citedByAll = [...citations.values()].filter(count => count === answered.length).length;
+  const fastest = answered.length > 1
+    ? Math.min(...answered.map(result => (result.status === 'done' ? result.response.duration_ms : Infinity)))
+    : null;
+
+  return (
+    <div className={styles.backdrop} onClick={onClose}>
+      <div className={styles.panel} onClick={e => e.stopPropagation()} role="dialog" aria-label="Compare models">
+        <header className={styles.header}>
+          <h3>⚖️ Compare models</h3>
+          <button type="button" className={styles.iconButton} onClick={onClose} title="Close (Esc)">
+            ✕
+          </button>
+        </header>
+
+        <div className={styles.setup}>
+          <div className={styles.candidates}>
+            {candidates.map((candidate, index) => {
+              const platform = platforms.find(p => p.id === candidate.platform);
+              return (
+                <div key={index} className={styles.candidate}>
+                  <select
+                    value={candidate.platform}
+                    onChange={e => changePlatform(index, e.target.value as PlatformId)}
+                    className={styles.select}
+                    disabled={running}
+                  >
+                    {platforms.map(p => (
+                      <option key={p.id} value={p.id}>
+                        {p.icon} {p.name}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={candidate.brain_model}
+                    onChange={e => updateCandidate(index, { brain_model: e.target.value })}
+                    className={styles.select}
+                    disabled={running}
+                  >
+                    {platform?.brainModels.map(model => (
+                      <option key={model.value} value={model.value}>
+                        {model.label}
+                      </option>
+                    ))}
+                  </select>
+                  {platform?.requiresApiKey ? (
+                    <input
+                      type="password"
+                      value={candidate.api_key}
+                      onChange={e => updateCandidate(index, { api_key: e.target.value })}
+                      placeholder={`${platform.name} API key`}
+                      className={styles.input}
+                      disabled={running}
+                    />
+                  ) : (
+                    <input
+                      type="text"
+                      value={candidate.ollama_host}
+                      onChange={e => updateCandidate(index, { ollama_host: e.target.value })}
+                      placeholder="http://localhost:11434"
+                      className={styles.input}
+                      disabled={running}
+                    />
+                  )}
+                  {candidates.length > 2 && (
+                    <button
+                      type="button"
+                      className={styles.iconButton}
+                      onClick={() => removeCandidate(index)}
+                      disabled={running}
+                      title="Remove"
+                    >
+                      ✕
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+            {candidates.length < MAX_CANDIDATES && (
+              <button type="button" className={styles.addButton} onClick={addCandidate} disabled={running}>
+                ➕ Add a model
+              </button>
+            )}
+          </div>
+
+          <div className={styles.questionRow}>
+            <input
+              type="text"
+              value={question}
+              onChange={e => setQuestion(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && !running && question.trim() && !missingCredentials && run()}
+              placeholder="Question to ask every model..."
+              className={styles.input}
+            />
+            {running ? (
+              <button type="button" className={styles.runButton} onClick={stop}>
+                ⏹️ Stop
+              </button>
+            ) : (
+              <button
+                type="button"
+                className={styles.runButton}
+                onClick={run}
+                disabled={!question.trim() || missingCredentials}
+                title={missingCredentials ? 'Every model needs its API key or Ollama host' : undefined}
+              >
+                ▶️ Compare
+              </button>
+            )}
+          </div>
+          <p className={styles.hint}>
+            Every model searches the same indexed logs. Answers are not added to the conversation.
+          </p>
+        </div>
+
+        {answered.length > 1 && (
+          <div className={styles.overlap}>
+            🔗 Evidence overlap: {citedByAll} of {citations.size} logs cited by every answer
+          </div>
+        )}
+
+        {results.length > 0 && (
+          <div className={styles.columns} style={{ gridTemplateColumns: `repeat(${results.length}, minmax(0, 1fr))` }}>
+            {results.map((result, index) => {
+              const platform = platforms.find(p => p.id === result.candidate.platform);
+              return (
+                <section key={index} className={styles.column}>
+                  <header className={styles.columnHeader}>
+                    <span className={styles.columnTitle}>
+                      {platform?.icon} {result.candidate.brain_model}
+                    </span>
+                    <span className={styles.columnPlatform}>{platform?.name ?? result.candidate.platform}</span>
+                  </header>
+
+                  {result.status === 'running' && <div className={styles.status}>⏳ Thinking...</div>}
+                  {result.status === 'failed' && <div className={styles.error}>❌ {result.error}</div>}
+                  {result.status === 'done' && (
+                    <>
+                      <div className={styles.stats}>
+                        <span className={styles.stat} title="Latency">
+                          ⏱️ {formatSeconds(result.response.duration_ms)}
+                          {fastest === result.response.duration_ms && <strong> ⚡ fastest</strong>}
+                        </span>
+                        <span
+                          className={styles.stat}
+                          title={
+                            result.response.usage
+                              ? describeTokenUsage(result.response.usage)
+                              : 'The server did not report token usage'
+                          }
+                        >
+                          🪙 {formatTokens(result.response)} tokens
+                        </span>
+                        <span className={styles.stat}>📋 {result.response.evidence_logs.length} evidence logs</span>
+                      </div>
+                      <div className={styles.answer}>
+                        <Markdown>{result.response.content}</Markdown>
+                      </div>
+                      {result.response.evidence_logs.length > 0 && (
+                        <div className={styles.evidence}>
+                          {result.response.evidence_logs.map(log => {
+                            const count = citations.get(log.id) ?? 0;
+                            const className = count === answered.length && answered.length > 1
+                              ? styles.sharedAll
+                              : count > 1
+                                ? styles.sharedSome
+                                : styles.unique;
+                            return (
+                              <span
+                                key={log.id}
+                                className={`${styles.evidenceId} ${className}`}
+                                title={`${log.message}\nCited by ${count} of ${answered.length} answers`}
+                              >
+                                {log.id}
+                              </span>
+                            );
+                          })}
+                        </div>
+                      )}
+                    </>
+                  )}
+                </section>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
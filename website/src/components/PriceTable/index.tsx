@@ -0,0 +1,175 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import type { TokenUsage } from '@site/src/api';
+import {
+  DEFAULT_PRICES,
+  emptyTokenUsage,
+  estimateCost,
+  formatCost,
+  formatTokenCount,
+  type PriceTable as Prices,
+} from '@site/src/usage';
+import styles from './styles.module.css';
+
+interface PriceTableProps {
+  prices: Prices;
+  /** Running total of the session, to show what each model cost. */
+  usage: TokenUsage | null;
+  freeModels: string[];
+  onChange: (prices: Prices) => void;
+  onClose: () => void;
+}
+
+/**
+ * Editable USD prices per million tokens, next to the tokens each model used
+ * in the session and what they cost with these prices.
+ */
+export default function PriceTable({ prices, usage, freeModels, onChange, onClose }: PriceTableProps): ReactNode {
+  const [newModel, setNewModel] = useState('');
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  // Models used in the session first, then the rest of the table
+  const usedModels = Object.keys(usage?.models ?? {});
+  const models = [...new Set([...usedModels, ...Object.keys(prices)])];
+
+  const setPrice = (model: string, field: 'input' | 'output', value: string) => {
+    const amount = Number(value);
+    if (value !== '' && (Number.isNaN(amount) || amount < 0)) {
+      return;
+    }
+    const current = prices[model] ?? { input: 0, output: 0 };
+    onChange({ ...prices, [model]: { ...current, [field]: value === '' ? 0 : amount } });
+  };
+
+  const removePrice = (model: string) => {
+    const { [model]: _removed, ...rest } = prices;
+    onChange(rest);
+  };
+
+  const addModel = () => {
+    const model = newModel.trim();
+    if (model && !prices[model]) {
+      onChange({ ...prices, [model]: { input: 0, output: 0 } });
+    }
+    setNewModel('');
+  };
+
+  const total = usage ? estimateCost(usage, prices, freeModels) : null;
+
+  return (
+    <div className={styles.backdrop} onClick={onClose}>
+      <div className={styles.panel} onClick={e => e.stopPropagation()} role="dialog" aria-label="Token prices">
+        <header className={styles.header}>
+          <h3>💲 Token prices</h3>
+          <button type="button" className={styles.iconButton} onClick={onClose} title="Close (Esc)">
+            ✕
+          </button>
+        </header>
+
+        <p className={styles.hint}>
+          USD per million tokens. Embedding tokens are charged at the input price. Changes are saved in this browser.
+        </p>
+
+        <div className={styles.tableWrapper}>
+          <table className={styles.table}>
+            <thead>
+              <tr>
+                <th>Model</th>
+                <th>Input</th>
+                <th>Output</th>
+                <th>Session tokens</th>
+                <th>Session cost</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {models.map(model => {
+                const modelUsage = usage?.models[model];
+                const tokens = modelUsage
+                  ? modelUsage.prompt_tokens + modelUsage.completion_tokens + modelUsage.embedding_tokens
+                  : 0;
+                const free = freeModels.includes(model);
+                return (
+                  <tr key={model}>
+                    <td className={styles.model}>{model}</td>
+                    <td>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={prices[model]?.input ?? ''}
+                        onChange={e => setPrice(model, 'input', e.target.value)}
+                        placeholder={free ? 'free' : '—'}
+                        className={styles.priceInput}
+                      />
+                    </td>
+                    <td>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={prices[model]?.output ?? ''}
+                        onChange={e => setPrice(model, 'output', e.target.value)}
+                        placeholder={free ? 'free' : '—'}
+                        className={styles.priceInput}
+                      />
+                    </td>
+                    <td>{modelUsage ? formatTokenCount(tokens) : ''}</td>
+                    <td>
+                      {modelUsage && (prices[model] || free)
+                        ? formatCost(estimateCost({ ...emptyTokenUsage(), models: { [model]: modelUsage } }, prices).cost)
+                        : ''}
+                    </td>
+                    <td>
+                      {prices[model] && (
+                        <button
+                          type="button"
+                          className={styles.iconButton}
+                          onClick={() => removePrice(model)}
+                          title="Remove price"
+                        >
+                          🗑️
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <footer className={styles.footer}>
+          <input
+            type="text"
+            value={newModel}
+            onChange={e => setNewModel(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && addModel()}
+            placeholder="Another model name..."
+            className={styles.modelInput}
+          />
+          <button type="button" className={styles.button} onClick={addModel} disabled={!newModel.trim()}>
+            ➕ Add
+          </button>
+          <button type="button" className={styles.button} onClick={() => onChange(DEFAULT_PRICES)}>
+            ↩️ Reset to defaults
+          </button>
+          {total && (
+            <span className={styles.total}>
+              Session: {formatCost(total.cost)}
+              {total.unpriced.length > 0 && ` (no price for ${total.unpriced.join(', ')})`}
+            </span>
+          )}
+        </footer>
+      </div>
+    </div>
+  );
+}
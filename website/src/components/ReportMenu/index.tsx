@@ -0,0 +1,118 @@
+import { useEffect, useRef, useState, type ReactNode } from 'react';
+import type { ReportFormat } from '@site/src/reports';
+import styles from './styles.module.css';
+
+interface ReportMenuProps {
+  /** Nothing to export yet. */
+  disabled: boolean;
+  onExport: (format: ReportFormat) => void;
+  onImport: (file: File) => void;
+  /** Rated answers of every session, exported as an evaluation dataset. */
+  feedbackCount: number;
+  onExportFeedback: () => void;
+  buttonClassName?: string;
+}
+
+const FORMATS: Array<{ format: ReportFormat; label: string; hint: string }> = [
+  { format: 'markdown', label: '📝 Markdown', hint: 'For tickets and postmortems' },
+  { format: 'html', label: '🌐 HTML', hint: 'Standalone page to share' },
+  { format: 'json', label: '🧾 JSON', hint: 'Can be imported again' },
+];
+
+/**
+ * "Export" dropdown of the chat header, with the JSON import next to it.
+ */
+export default function ReportMenu({
+  disabled,
+  onExport,
+  onImport,
+  feedbackCount,
+  onExportFeedback,
+  buttonClassName,
+}: ReportMenuProps): ReactNode {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+    const onPointerDown = (event: PointerEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    const onKeyDown = (event: KeyboardEvent) => event.key === 'Escape' && setOpen(false);
+    document.addEventListener('pointerdown', onPointerDown);
+    document.addEventListener('keydown', onKeyDown);
+    return () => {
+      document.removeEventListener('pointerdown', onPointerDown);
+      document.removeEventListener('keydown', onKeyDown);
+    };
+  }, [open]);
+
+  return (
+    <div className={styles.container} ref={containerRef}>
+      <button type="button" className={buttonClassName} onClick={() => setOpen(!open)} aria-expanded={open}>
+        📤 Export
+      </button>
+      {open && (
+        <div className={styles.menu} role="menu">
+          {FORMATS.map(({ format, label, hint }) => (
+            <button
+              key={format}
+              type="button"
+              role="menuitem"
+              className={styles.item}
+              disabled={disabled}
+              onClick={() => {
+                setOpen(false);
+                onExport(format);
+              }}
+            >
+              <span>{label}</span>
+              <small>{hint}</small>
+            </button>
+          ))}
+          <button
+            type="button"
+            role="menuitem"
+            className={styles.item}
+            disabled={feedbackCount === 0}
+            onClick={() => {
+              setOpen(false);
+              onExportFeedback();
+            }}
+          >
+            <span>🧪 Feedback dataset</span>
+            <small>
+              {feedbackCount === 0
+                ? 'Rate answers with 👍 or 👎 first'
+                : `JSONL of ${feedbackCount} rated answer${feedbackCount === 1 ? '' : 's'}, all sessions`}
+            </small>
+          </button>
+          <hr className={styles.separator} />
+          <button type="button" role="menuitem" className={styles.item} onClick={() => fileInputRef.current?.click()}>
+            <span>📥 Import JSON</span>
+            <small>Open an exported report</small>
+          </button>
+        </div>
+      )}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        className={styles.fileInput}
+        onChange={event => {
+          const file = event.target.files?.[0];
+          event.target.value = '';
+          if (file) {
+            setOpen(false);
+            onImport(file);
+          }
+        }}
+      />
+    </div>
+  );
+}
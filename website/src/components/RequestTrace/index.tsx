@@ -0,0 +1,161 @@
+import { useEffect, useMemo, useState, type ReactNode } from 'react';
+import type { TraceResponse, TraceStep } from '@site/src/api';
+import styles from './styles.module.css';
+
+/** Lane colors, assigned to services in order of appearance. */
+const SERVICE_COLORS = ['#0d6efd', '#6f42c1', '#20c997', '#fd7e14', '#d63384', '#198754', '#0dcaf0', '#6c757d'];
+
+interface RequestTraceProps {
+  identifier: string;
+  loadTrace: (identifier: string, signal: AbortSignal) => Promise<TraceResponse>;
+  onClose: () => void;
+}
+
+function formatGap(seconds: number): string {
+  if (seconds < 60) return `+${seconds}s`;
+  return `+${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+/**
+ * Waterfall of every log related to a request id, trace id or session id,
+ * as found by the request_context tool.
+ */
+export default function RequestTrace({ identifier, loadTrace, onClose }: RequestTraceProps): ReactNode {
+  const [trace, setTrace] = useState<TraceResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [groupByService, setGroupByService] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setTrace(null);
+    setError(null);
+    loadTrace(identifier, controller.signal)
+      .then(setTrace)
+      .catch(err => !controller.signal.aborted && setError(err instanceof Error ? err.message : 'Failed to load trace'));
+    return () => controller.abort();
+  }, [identifier, loadTrace]);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => event.key === 'Escape' && onClose();
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  const colors = useMemo(() => {
+    const map: Record<string, string> = {};
+    Object.keys(trace?.services ?? {}).forEach((service, i) => {
+      map[service] = SERVICE_COLORS[i % SERVICE_COLORS.length];
+    });
+    return map;
+  }, [trace]);
+
+  const steps = useMemo(() => {
+    const indexed = (trace?.steps ?? []).map((step, index) => ({ step, index }));
+    if (!groupByService) {
+      return indexed;
+    }
+    const order = Object.keys(trace?.services ?? {});
+    // Stable sort: chronological within each service
+    return [...indexed].sort((a, b) => order.indexOf(a.step.service) - order.indexOf(b.step.service));
+  }, [trace, groupByService]);
+
+  const duration = Math.max(1, trace?.time_span?.duration_seconds ?? 0);
+
+  const renderBar = (step: TraceStep) => {
+    if (step.offset_seconds === null) {
+      return <span className={styles.noTime}>no timestamp</span>;
+    }
+    const left = (step.offset_seconds / duration) * 100;
+    return (
+      <span
+        className={`${styles.marker} ${step.is_failure ? styles.markerFailure : ''}`}
+        style={{ left: `min(${left}%, calc(100% - 10px))`, background: step.is_failure ? undefined : colors[step.service] }}
+      />
+    );
+  };
+
+  return (
+    <div className={styles.backdrop} onClick={onClose}>
+      <div className={styles.modal} onClick={e => e.stopPropagation()} role="dialog" aria-label={`Trace ${identifier}`}>
+        <header className={styles.header}>
+          <div>
+            <h3>🔗 Request trace</h3>
+            <code>{identifier}</code>
+          </div>
+          <button type="button" className={styles.closeButton} onClick={onClose} title="Close (Esc)">
+            ✕
+          </button>
+        </header>
+
+        <div className={styles.body}>
+          {error && <p className={styles.error}>⚠️ {error}</p>}
+          {!error && !trace && <p className={styles.hint}>⏳ Collecting related logs...</p>}
+          {trace && !trace.success && <p className={styles.hint}>{trace.message}</p>}
+
+          {trace?.success && (
+            <>
+              <div className={styles.summary}>
+                <span>📋 {trace.steps.length} logs</span>
+                {trace.time_span && (
+                  <span>
+                    ⏱️ {trace.time_span.duration_human} ({trace.time_span.start_time} → {trace.time_span.end_time})
+                  </span>
+                )}
+                {trace.failing_step !== null && <span className={styles.failureBadge}>❌ Failed at step {trace.failing_step + 1}</span>}
+                <span className={styles.method}>{trace.search_method}</span>
+              </div>
+
+              <div className={styles.legend}>
+                {Object.entries(trace.services).map(([service, count]) => (
+                  <span key={service} className={styles.legendItem}>
+                    <span className={styles.swatch} style={{ background: colors[service] }} />
+                    {service} ({count})
+                  </span>
+                ))}
+                <label className={styles.groupToggle}>
+                  <input type="checkbox" checked={groupByService} onChange={e => setGroupByService(e.target.checked)} />
+                  Group by service
+                </label>
+              </div>
+
+              <ol className={styles.waterfall}>
+                {steps.map(({ step, index }, position) => {
+                  const previousService = position > 0 ? steps[position - 1].step.service : null;
+                  return (
+                    <li key={`${step.id}-${index}`}>
+                      {groupByService && step.service !== previousService && (
+                        <div className={styles.groupHeader} style={{ borderColor: colors[step.service] }}>
+                          {step.service}
+                        </div>
+                      )}
+                      {!groupByService && step.gap_seconds !== null && step.gap_seconds > 0 && (
+                        <div className={styles.gap}>{formatGap(step.gap_seconds)}</div>
+                      )}
+                      <div
+                        className={`${styles.step} ${step.is_failure ? styles.stepFailure : ''} ${
+                          index === trace.failing_step ? styles.stepFailing : ''
+                        }`}
+                        title={step.content}
+                      >
+                        <span className={styles.service} style={{ borderColor: colors[step.service] }}>
+                          {step.service}
+                        </span>
+                        <span className={styles.time}>{step.timestamp?.slice(11) ?? '—'}</span>
+                        <span className={styles.level}>{step.level}</span>
+                        <span className={styles.description}>
+                          {index === trace.failing_step && '❌ '}
+                          {step.description}
+                        </span>
+                        <span className={styles.track}>{renderBar(step)}</span>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { useId, type ReactNode } from 'react';
+import type { SuggestedQuestion } from '@site/src/logs';
+import { pinnedQuestionsOf, togglePinnedQuestion, type PinnedQuestions } from '@site/src/storage';
+import styles from './styles.module.css';
+
+interface SuggestedQuestionsProps {
+  /** Built from the logs of the session. */
+  suggestions: SuggestedQuestion[];
+  /** Built from the last answer; empty before the first one. */
+  followUps: SuggestedQuestion[];
+  pinned: PinnedQuestions;
+  /** Question being typed, which can be pinned as is. */
+  draft: string;
+  disabled: boolean;
+  onAsk: (question: string) => void;
+  onPinnedChange: (pinned: PinnedQuestions) => void;
+}
+
+/**
+ * Questions to ask in one click: follow-ups on the last answer, suggestions
+ * from the loaded logs, and the questions the current team pinned.
+ */
+export default function SuggestedQuestions({
+  suggestions,
+  followUps,
+  pinned,
+  draft,
+  disabled,
+  onAsk,
+  onPinnedChange,
+}: SuggestedQuestionsProps): ReactNode {
+  const teamListId = useId();
+  const pinnedQuestions = pinnedQuestionsOf(pinned);
+  const draftQuestion = draft.trim();
+
+  const togglePin = (question: string) => onPinnedChange(togglePinnedQuestion(pinned, question));
+
+  const renderQuestion = ({ label, icon }: SuggestedQuestion) => (
+    <span key={label} className={styles.question}>
+      <button type="button" className={styles.ask} onClick={() => onAsk(label)} disabled={disabled}>
+        {icon} {label}
+      </button>
+      <button
+        type="button"
+        className={styles.pin}
+        onClick={() => togglePin(label)}
+        title={pinnedQuestions.includes(label) ? `Unpin for ${pinned.team}` : `Pin for ${pinned.team}`}
+      >
+        {pinnedQuestions.includes(label) ? '📌' : '📍'}
+      </button>
+    </span>
+  );
+
+  return (
+    <div className={styles.questions}>
+      {followUps.length > 0 && (
+        <div className={styles.row}>
+          <span className={styles.rowLabel}>↪️ Follow up</span>
+          {followUps.map(renderQuestion)}
+        </div>
+      )}
+
+      <div className={styles.row}>
+        <span className={styles.rowLabel}>💡 From your logs</span>
+        {suggestions.length > 0 ? (
+          suggestions.map(renderQuestion)
+        ) : (
+          <span className={styles.empty}>Looking for errors to ask about...</span>
+        )}
+      </div>
+
+      <div className={styles.row}>
+        <span className={styles.rowLabel}>
+          📌
+          <input
+            className={styles.team}
+            list={teamListId}
+            value={pinned.team}
+            onChange={e => onPinnedChange({ ...pinned, team: e.target.value })}
+            title="Team whose pinned questions are shown"
+            aria-label="Team"
+          />
+          <datalist id={teamListId}>
+            {Object.keys(pinned.teams).map(team => (
+              <option key={team} value={team} />
+            ))}
+          </datalist>
+        </span>
+        {pinnedQuestions.map(question => (
+          <span key={question} className={`${styles.question} ${styles.pinned}`}>
+            <button type="button" className={styles.ask} onClick={() => onAsk(question)} disabled={disabled}>
+              {question}
+            </button>
+            <button type="button" className={styles.pin} onClick={() => togglePin(question)} title="Unpin">
+              ✕
+            </button>
+          </span>
+        ))}
+        {draftQuestion && !pinnedQuestions.includes(draftQuestion) && (
+          <button type="button" className={styles.pinDraft} onClick={() => togglePin(draftQuestion)}>
+            ＋ Pin the question being typed
+          </button>
+        )}
+        {pinnedQuestions.length === 0 && !draftQuestion && (
+          <span className={styles.empty}>Type a question or use 📍 to pin it for the team.</span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState, type ReactNode } from 'react';
+import type { ToolCall } from '@site/src/api';
+import styles from './styles.module.css';
+
+interface ToolCallsPanelProps {
+  calls: ToolCall[];
+  /** Opens the request trace of a request_context lookup. */
+  onTrace?: (identifier: string) => void;
+}
+
+const TOOL_ICONS: Record<string, string> = {
+  log_search: '🔎',
+  request_context: '🔗',
+};
+
+function formatArguments(args: Record<string, unknown>): string {
+  return Object.entries(args)
+    .map(([name, value]) => `${name}: ${JSON.stringify(value)}`)
+    .join(', ');
+}
+
+/**
+ * "How I found this": the tool calls behind an answer, with their search
+ * diagnostics. Collapsed by default.
+ */
+export default function ToolCallsPanel({ calls, onTrace }: ToolCallsPanelProps): ReactNode {
+  const [open, setOpen] = useState(false);
+  const fallbacks = calls.filter(call => call.fallback).length;
+
+  return (
+    <div className={styles.panel}>
+      <button type="button" className={styles.toggle} onClick={() => setOpen(!open)} aria-expanded={open}>
+        🧭 How I found this ({calls.length} tool {calls.length === 1 ? 'call' : 'calls'}
+        {fallbacks > 0 && `, ${fallbacks} keyword fallback`})
+        <span className={styles.chevron}>{open ? '▲' : '▼'}</span>
+      </button>
+
+      {open && (
+        <ol className={styles.calls}>
+          {calls.map((call, i) => {
+            const identifier = typeof call.arguments.identifier === 'string' ? call.arguments.identifier : null;
+            return (
+              <li key={i} className={`${styles.call} ${call.success ? '' : styles.callFailed}`}>
+                <div className={styles.callHeader}>
+                  <span className={styles.tool}>
+                    {TOOL_ICONS[call.tool] ?? '🛠️'} {call.tool}
+                  </span>
+                  <code className={styles.arguments}>{formatArguments(call.arguments)}</code>
+                  <span className={styles.duration}>{call.duration_ms}ms</span>
+                </div>
+
+                <div className={styles.badges}>
+                  <span className={call.success ? styles.badgeSuccess : styles.badgeFailure}>
+                    {call.success ? '✓ found' : '✗ nothing found'}
+                  </span>
+                  {call.search_method && <span className={styles.badge}>{call.search_method}</span>}
+                  <span className={styles.badge}>
+                    {call.log_count} {call.log_count === 1 ? 'log' : 'logs'}
+                  </span>
+                  {call.fallback && (
+                    <span className={styles.badgeWarning} title={call.fallback_reason ?? undefined}>
+                      ⚠️ fell back to keyword search
+                    </span>
+                  )}
+                  {identifier && onTrace && call.success && (
+                    <button type="button" className={styles.traceButton} onClick={() => onTrace(identifier)}>
+                      🔗 Open trace
+                    </button>
+                  )}
+                </div>
+
+                {call.summary && <p className={styles.summary}>{call.summary}</p>}
+                {call.fallback && call.fallback_reason && (
+                  <p className={styles.fallbackReason}>Semantic search failed: {call.fallback_reason}</p>
+                )}
+                {call.log_ids.length > 0 && (
+                  <div className={styles.logIds}>
+                    {call.log_ids.map(id => (
+                      <code key={id}>{id}</code>
+                    ))}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
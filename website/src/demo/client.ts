@@ -0,0 +1,548 @@
+import {
+  ApiAbortedError,
+  ApiServerError,
+  type AnalyzeRequest,
+  type AnalyzeResponse,
+  type ChatRequest,
+  type ChatResponse,
+  type ChatStreamHandlers,
+  type ChunkedUploadStatus,
+  type CompareRequest,
+  type CompleteUploadRequest,
+  type HealthResponse,
+  type HistoryMessage,
+  type HistoryResponse,
+  type InitStatusResponse,
+  type LogEntry,
+  type LogNeighboursResponse,
+  type LogsQuery,
+  type LogsResponse,
+  type PlatformCatalogResponse,
+  type PlaygroundApi,
+  type RequestOptions,
+  type ResetResponse,
+  type SessionRequest,
+  type TokenUsage,
+  type ToolCall,
+  type TraceRequest,
+  type TraceResponse,
+  type TraceStep,
+  type UploadChunkRequest,
+  type UploadRequest,
+  type UploadResponse,
+} from '@site/src/api';
+import {
+  FAILING_LEVELS,
+  extractExceptionClasses,
+  findLogNeighbours,
+  parseTimestamp,
+  queryLogEntries,
+} from '@site/src/logs';
+import { loadSampleLogEntries, toLogEntries, type SampleLogFile } from './fixtures';
+import { RECORDED_BRAIN_MODEL, RECORDED_EMBEDDING_MODEL, RECORDED_INDEXING_USAGE, findTranscript } from './transcripts';
+
+export const DEMO_API_URL = 'demo://offline';
+
+/** Pause between two streamed chunks of a recorded answer. */
+const STREAM_DELAY_MS = 25;
+/** Pause before the first chunk, while the "agent" is thinking. */
+const THINKING_DELAY_MS = 900;
+const MAX_EVIDENCE = 8;
+const MAX_EXCEPTIONS = 3;
+
+/** LogSearchTool::extractReasonFromLogs(), the server's answer when the model fails. */
+const REASON_PATTERNS: [RegExp, string][] = [
+  [/database.*connection.*failed/i, 'Database connection failure'],
+  [/payment/i, 'Payment gateway timeout'],
+  [/timeout/i, 'Request timeout occurred'],
+  [/authentication.*failed/i, 'Authentication failure'],
+  [/permission.*denied/i, 'Insufficient permissions'],
+  [/out of memory/i, 'System ran out of memory'],
+  [/disk.*full/i, 'Disk space exhausted'],
+  [/invalid.*request/i, 'Invalid request format or parameters'],
+  [/service.*unavailable/i, 'External service unavailable'],
+  [/500.*internal.*server.*error/i, 'Internal server error occurred'],
+];
+
+interface DemoSession {
+  logs: LogEntry[];
+  /** True while the session holds the sample logs the transcripts were recorded on. */
+  sample: boolean;
+  status: InitStatusResponse;
+  messages: HistoryMessage[];
+  updatedAt: string | null;
+}
+
+interface Answer {
+  content: string;
+  evidence: LogEntry[];
+  toolCalls: ToolCall[];
+  usage: TokenUsage | null;
+  durationMs: number;
+}
+
+/**
+ * In-browser implementation of the playground API for visitors without a
+ * server or an API key. Sessions hold the bundled sample logs (or parsed
+ * uploads) in memory; the quick questions get answers recorded against the
+ * real server, any other question a plain keyword search.
+ */
+export class DemoPlaygroundApi implements PlaygroundApi {
+  readonly baseUrl = DEMO_API_URL;
+  private readonly sessions = new Map<string, DemoSession>();
+  private readonly uploads = new Map<string, Map<number, Blob>>();
+
+  constructor(private readonly sampleFiles: SampleLogFile[]) {}
+
+  async health(): Promise<HealthResponse> {
+    return {
+      status: 'ok',
+      storage: 'browser',
+      supported_platforms: ['openai', 'anthropic', 'ollama'],
+      message: 'Offline demo: recorded answers, no API key needed',
+      features: ['file_upload', 'chat_stream', 'request_trace', 'history', 'tool_calls', 'multi_source', 'token_usage'],
+    };
+  }
+
+  // No catalog: the playground keeps its built-in model lists
+  async platforms(): Promise<PlatformCatalogResponse> {
+    return { platforms: [], ollama: null };
+  }
+
+  async init(request: SessionRequest): Promise<InitStatusResponse> {
+    const logs = loadSampleLogEntries(this.sampleFiles);
+    return this.store(request, logs, true, RECORDED_INDEXING_USAGE).status;
+  }
+
+  async initStatus(sessionId: string): Promise<InitStatusResponse> {
+    return this.session(sessionId).status;
+  }
+
+  async upload(request: UploadRequest, options?: RequestOptions): Promise<UploadResponse> {
+    return this.index(request, request.file_name ?? 'upload.log', request.file, options);
+  }
+
+  async uploadStatus(uploadId: string): Promise<ChunkedUploadStatus> {
+    return this.chunkStatus(uploadId);
+  }
+
+  async uploadChunk(request: UploadChunkRequest): Promise<ChunkedUploadStatus> {
+    const chunks = this.uploads.get(request.upload_id) ?? new Map<number, Blob>();
+    chunks.set(request.index, request.chunk);
+    this.uploads.set(request.upload_id, chunks);
+    return this.chunkStatus(request.upload_id);
+  }
+
+  async completeUpload(request: CompleteUploadRequest, options?: RequestOptions): Promise<UploadResponse> {
+    const chunks = this.uploads.get(request.upload_id);
+    if (!chunks || chunks.size !== request.total_chunks) {
+      throw new ApiServerError('/upload/complete', 400, {
+        error: `Upload incomplete: received ${chunks?.size ?? 0} of ${request.total_chunks} chunks`,
+      });
+    }
+    this.uploads.delete(request.upload_id);
+    const ordered = [...chunks.entries()].sort(([a], [b]) => a - b).map(([, chunk]) => chunk);
+    return this.index(request, request.file_name, new Blob(ordered), options);
+  }
+
+  async abortUpload(uploadId: string): Promise<ResetResponse> {
+    this.uploads.delete(uploadId);
+    return { status: 'ok', message: 'Upload cancelled' };
+  }
+
+  async logs(sessionId: string, query: LogsQuery = {}): Promise<LogsResponse> {
+    return queryLogEntries(this.session(sessionId).logs, query);
+  }
+
+  async logNeighbours(sessionId: string, logId: string, radius = 5): Promise<LogNeighboursResponse> {
+    const neighbours = findLogNeighbours(this.session(sessionId).logs, logId, radius);
+    if (!neighbours) {
+      throw new ApiServerError('/logs/around', 404, { error: `Log ${logId} not found` });
+    }
+    return neighbours;
+  }
+
+  async chat(request: ChatRequest, options?: RequestOptions): Promise<ChatResponse> {
+    return this.chatStream(request, {}, options);
+  }
+
+  async trace(request: TraceRequest): Promise<TraceResponse> {
+    const identifier = request.identifier.trim();
+    const logs = this.session(request.session_id).logs.filter(log =>
+      (log.raw ?? log.message).toLowerCase().includes(identifier.toLowerCase()),
+    );
+    return buildTrace(identifier, logs);
+  }
+
+  async compare(request: CompareRequest): Promise<ChatResponse> {
+    throw new ApiServerError('/compare', 501, {
+      error: `The offline demo only has answers recorded with ${RECORDED_BRAIN_MODEL}: start the API server to compare ${request.candidate.brain_model}`,
+    });
+  }
+
+  async analyze(request: AnalyzeRequest, options: RequestOptions = {}): Promise<AnalyzeResponse> {
+    await wait(THINKING_DELAY_MS, '/analyze', options.signal);
+    return {
+      success: true,
+      content: keywordAnalysis(request.logs),
+      log_count: request.logs.length,
+      usage: null,
+      duration_ms: THINKING_DELAY_MS,
+      model: 'keyword analysis',
+      platform: 'demo',
+    };
+  }
+
+  async chatStream(
+    request: ChatRequest,
+    handlers: ChatStreamHandlers,
+    options: RequestOptions = {},
+  ): Promise<ChatResponse> {
+    const session = this.session(request.session_id);
+    const answer = this.answer(session, request.question);
+
+    await wait(THINKING_DELAY_MS, '/chat/stream', options.signal);
+    // Word by word, like the deltas of a model
+    for (const chunk of answer.content.match(/\S+\s*/g) ?? []) {
+      handlers.onDelta?.(chunk);
+      await wait(STREAM_DELAY_MS, '/chat/stream', options.signal);
+    }
+
+    session.messages.push({ role: 'user', content: request.question }, { role: 'assistant', content: answer.content });
+    session.updatedAt = new Date().toISOString();
+
+    return {
+      success: true,
+      content: answer.content,
+      evidence_logs: answer.evidence,
+      tool_calls: answer.toolCalls,
+      usage: answer.usage,
+      duration_ms: answer.durationMs,
+      model: answer.usage ? RECORDED_BRAIN_MODEL : 'keyword search',
+      embedding_model: RECORDED_EMBEDDING_MODEL,
+      platform: 'demo',
+      session_id: request.session_id,
+    };
+  }
+
+  async history(sessionId: string): Promise<HistoryResponse> {
+    const session = this.sessions.get(sessionId);
+    return {
+      session_id: sessionId,
+      exists: session !== undefined,
+      updated_at: session?.updatedAt ?? null,
+      messages: session?.messages ?? [],
+    };
+  }
+
+  async reset(sessionId: string): Promise<ResetResponse> {
+    this.sessions.delete(sessionId);
+    return { status: 'ok', message: 'Session reset' };
+  }
+
+  /**
+   * Like the server, a session nobody initialised serves the sample logs.
+   */
+  private session(sessionId: string): DemoSession {
+    let session = this.sessions.get(sessionId);
+    if (!session) {
+      session = this.store({ session_id: sessionId }, loadSampleLogEntries(this.sampleFiles), true, null);
+    }
+    return session;
+  }
+
+  private store(
+    request: Pick<SessionRequest, 'session_id'>,
+    logs: LogEntry[],
+    sample: boolean,
+    usage: TokenUsage | null,
+  ): DemoSession {
+    const previous = this.sessions.get(request.session_id);
+    const sources = countSources(logs);
+    const session: DemoSession = {
+      logs,
+      sample,
+      messages: previous?.messages ?? [],
+      updatedAt: previous?.updatedAt ?? null,
+      status: {
+        initialized: true,
+        status: 'ready',
+        message: `Ready! ${logs.length} logs indexed.`,
+        progress: 100,
+        logs_count: logs.length,
+        storage: 'browser',
+        session_id: request.session_id,
+        brain_model: RECORDED_BRAIN_MODEL,
+        embedding_model: RECORDED_EMBEDDING_MODEL,
+        phase: 'done',
+        phases: {
+          parsing: { done: logs.length, total: logs.length },
+          embedding: { done: logs.length, total: logs.length },
+          storing: { done: logs.length, total: logs.length },
+        },
+        elapsed_ms: 0,
+        sources,
+        usage,
+      },
+    };
+    this.sessions.set(request.session_id, session);
+    return session;
+  }
+
+  /**
+   * Parses an uploaded file into the session, replacing its logs unless `append` is set.
+   * Nothing is embedded: questions about uploads are answered by keyword search.
+   */
+  private async index(
+    request: SessionRequest & { source?: string; append?: boolean },
+    fileName: string,
+    file: Blob,
+    options: RequestOptions = {},
+  ): Promise<UploadResponse> {
+    const content = await file.text();
+    if (options.signal?.aborted) {
+      throw new ApiAbortedError('/upload');
+    }
+
+    const existing = request.append ? this.session(request.session_id).logs : [];
+    const taken = new Set(existing.map(log => log.source));
+    let source = request.source?.trim() || fileName;
+    for (let i = 2; taken.has(source); i++) {
+      source = `${request.source?.trim() || fileName} (${i})`;
+    }
+
+    const added = toLogEntries(content, source, existing.length + 1);
+    if (added.length === 0) {
+      throw new ApiServerError('/upload', 400, { error: `No log lines could be parsed from ${fileName}` });
+    }
+
+    const session = this.store(request, [...existing, ...added], false, null);
+    return { ...session.status, file_name: fileName, source, added_count: added.length, indexed_with_embeddings: false };
+  }
+
+  private chunkStatus(uploadId: string): ChunkedUploadStatus {
+    const chunks = this.uploads.get(uploadId) ?? new Map<number, Blob>();
+    return {
+      upload_id: uploadId,
+      received_chunks: [...chunks.keys()].sort((a, b) => a - b),
+      received_bytes: [...chunks.values()].reduce((bytes, chunk) => bytes + chunk.size, 0),
+    };
+  }
+
+  private answer(session: DemoSession, question: string): Answer {
+    const transcript = session.sample ? findTranscript(question) : null;
+    if (transcript) {
+      const byId = new Map(session.logs.map(log => [log.id, log]));
+      return {
+        content: transcript.content,
+        evidence: transcript.evidenceIds.flatMap(id => byId.get(id) ?? []),
+        toolCalls: transcript.toolCalls,
+        usage: transcript.usage,
+        durationMs: transcript.durationMs,
+      };
+    }
+    return keywordAnswer(session.logs, question);
+  }
+}
+
+export function createDemoClient(sampleFiles: SampleLogFile[]): PlaygroundApi {
+  return new DemoPlaygroundApi(sampleFiles);
+}
+
+/**
+ * `?demo` in the page URL asks for the offline demo, e.g. on a static deployment.
+ */
+export function isDemoRequested(): boolean {
+  return typeof window !== 'undefined' && new URLSearchParams(window.location.search).has('demo');
+}
+
+/**
+ * Without a model, the best the demo can do for an unrecorded question:
+ * the logs sharing the most words with it.
+ */
+function keywordAnswer(logs: LogEntry[], question: string): Answer {
+  const started = Date.now();
+  const words = [...new Set(question.toLowerCase().match(/[a-z0-9_.@-]{3,}/g) ?? [])];
+  const evidence = logs
+    .map(log => {
+      const text = (log.raw ?? log.message).toLowerCase();
+      return { log, score: words.filter(word => text.includes(word)).length };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_EVIDENCE)
+    .map(({ log }) => log);
+
+  const intro =
+    'This is the **offline demo**: the suggested questions have answers recorded with a real model, ' +
+    'other questions need the API server and an API key. ';
+  const content =
+    evidence.length > 0
+      ? `${intro}Here are the logs that best match your question:\n\n` +
+        evidence.map(log => `- **${log.level}** ${log.message} [${log.id}]`).join('\n')
+      : `${intro}No log matches the words of your question.`;
+
+  return {
+    content,
+    evidence,
+    toolCalls: [
+      {
+        tool: 'log_search',
+        arguments: { query: question },
+        success: evidence.length > 0,
+        summary: `Found ${evidence.length} logs containing words of the question`,
+        search_method: 'keyword-based',
+        log_count: evidence.length,
+        log_ids: evidence.map(log => log.id),
+        fallback: false,
+        fallback_reason: null,
+        duration_ms: Date.now() - started,
+      },
+    ],
+    usage: null,
+    durationMs: Date.now() - started,
+  };
+}
+
+/**
+ * Without a model, the analysis falls back to the server's keyword reason and
+ * the exceptions the lines mention most.
+ */
+function keywordAnalysis(lines: string[]): string {
+  const text = lines.join('\n');
+  const reason =
+    REASON_PATTERNS.find(([pattern]) => pattern.test(text))?.[1] ??
+    'Unable to determine the specific cause from the available logs.';
+
+  const counts = new Map<string, number>();
+  lines.flatMap(extractExceptionClasses).forEach(name => counts.set(name, (counts.get(name) ?? 0) + 1));
+  const exceptions = [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_EXCEPTIONS)
+    .map(([name, count]) => `\`${name}\` ×${count}`);
+
+  return [
+    'This is the **offline demo**: without a model, the cause is guessed from keywords of the logs.',
+    '',
+    `**Likely cause:** ${reason}`,
+    ...(exceptions.length > 0 ? ['', `**Most frequent exceptions:** ${exceptions.join(', ')}`] : []),
+  ].join('\n');
+}
+
+/**
+ * Local counterpart of RequestContextTool::trace().
+ */
+function buildTrace(identifier: string, logs: LogEntry[]): TraceResponse {
+  const timed = logs
+    .map(log => ({ log, time: parseTimestamp(log.timestamp) }))
+    .sort((a, b) => (a.time ?? 0) - (b.time ?? 0));
+
+  const steps: TraceStep[] = [];
+  const services: Record<string, number> = {};
+  let failingStep: number | null = null;
+  let firstTime: number | null = null;
+  let previousTime: number | null = null;
+
+  for (const { log, time } of timed) {
+    const level = log.level.toLowerCase();
+    const service = log.source || log.channel || 'unknown';
+    const isFailure = FAILING_LEVELS.includes(level);
+    firstTime ??= time;
+    if (isFailure && failingStep === null) {
+      failingStep = steps.length;
+    }
+    steps.push({
+      id: log.id,
+      timestamp: log.timestamp,
+      level,
+      service,
+      event_type: detectEventType(log.raw ?? log.message),
+      description: log.message.length > 100 ? `${log.message.slice(0, 97)}...` : log.message,
+      content: log.raw ?? log.message,
+      offset_seconds: time !== null && firstTime !== null ? (time - firstTime) / 1000 : null,
+      gap_seconds: time !== null && previousTime !== null ? (time - previousTime) / 1000 : null,
+      is_failure: isFailure,
+    });
+    services[service] = (services[service] ?? 0) + 1;
+    previousTime = time ?? previousTime;
+  }
+
+  const times = timed.flatMap(({ time }) => (time === null ? [] : [time]));
+  const duration = times.length > 0 ? Math.round((times[times.length - 1] - times[0]) / 1000) : 0;
+
+  return {
+    success: steps.length > 0,
+    message:
+      steps.length > 0
+        ? `Found ${steps.length} logs across ${Object.keys(services).length} services`
+        : `No logs found containing identifier '${identifier}'.`,
+    identifier,
+    steps,
+    services,
+    failing_step: failingStep,
+    time_span:
+      times.length > 0
+        ? {
+            start_time: steps[0].timestamp ?? '',
+            end_time: steps[steps.length - 1].timestamp ?? '',
+            duration_seconds: duration,
+            duration_human: humanReadableDuration(duration),
+          }
+        : null,
+    search_method: 'keyword-based',
+  };
+}
+
+function humanReadableDuration(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  if (seconds < 3600) {
+    return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  }
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m ${seconds % 60}s`;
+}
+
+const EVENT_PATTERNS: Array<[string, RegExp]> = [
+  ['started', /started|begin|initiated|commenced/i],
+  ['completed', /completed|finished|success|done/i],
+  ['failed', /failed|error|exception|timeout|abort/i],
+  ['warning', /warning|warn|caution/i],
+  ['timeout', /timeout|timed out|expired/i],
+  ['retry', /retry|retrying|attempt/i],
+  ['authentication', /auth|login|authenticate/i],
+  ['database', /database|db|sql|query/i],
+  ['payment', /payment|transaction|charge/i],
+  ['api_call', /api|http|request|response/i],
+];
+
+function detectEventType(content: string): string {
+  return EVENT_PATTERNS.find(([, pattern]) => pattern.test(content))?.[0] ?? 'info';
+}
+
+function countSources(logs: LogEntry[]): Record<string, number> {
+  const sources: Record<string, number> = {};
+  for (const log of logs) {
+    const source = log.source ?? 'unknown';
+    sources[source] = (sources[source] ?? 0) + 1;
+  }
+  return sources;
+}
+
+function wait(ms: number, endpoint: string, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ApiAbortedError(endpoint));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ApiAbortedError(endpoint));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,52 @@
+import type { LogEntry } from '@site/src/api';
+import { formatTimestamp, parseLogLine } from '@site/src/logs';
+
+/**
+ * A fixture log file, as bundled at build time by plugins/sample-logs.ts.
+ */
+export interface SampleLogFile {
+  /** Category the server gives every log of the file. */
+  category: string;
+  fileName: string;
+  content: string;
+}
+
+/**
+ * Local counterpart of the parseLogLine() + toLogEntry() loop of the server:
+ * ids continue from `firstId` and are prefixed with the detected category
+ * (pay_001, dat_002...). Without `category`, each log keeps the detected one.
+ */
+export function toLogEntries(content: string, source: string, firstId = 1, category?: string): LogEntry[] {
+  const entries: LogEntry[] = [];
+  content.split(/\r?\n/).forEach((line, index) => {
+    const parsed = parseLogLine(line, index + 1);
+    if (!parsed) {
+      return;
+    }
+    entries.push({
+      id: `${parsed.category.slice(0, 3)}_${String(firstId + entries.length).padStart(3, '0')}`,
+      level: parsed.level,
+      message: parsed.message,
+      // Like the server, which stamps lines without a date with the indexing time
+      timestamp: parsed.timestamp ?? formatTimestamp(Date.now()),
+      category: category ?? parsed.category,
+      channel: parsed.channel,
+      context: parsed.context,
+      extra: parsed.extra,
+      raw: parsed.content,
+      source,
+    });
+  });
+  return entries;
+}
+
+/**
+ * The logs of a session initialised without uploads, numbered like loadSampleLogs().
+ */
+export function loadSampleLogEntries(files: SampleLogFile[]): LogEntry[] {
+  const logs: LogEntry[] = [];
+  for (const file of files) {
+    logs.push(...toLogEntries(file.content, file.fileName, logs.length + 1, file.category));
+  }
+  return logs;
+}
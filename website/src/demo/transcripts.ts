@@ -0,0 +1,425 @@
+import type { TokenUsage, ToolCall } from '@site/src/api';
+
+/** Models the transcripts were recorded with. */
+export const RECORDED_BRAIN_MODEL = 'gpt-4o-mini';
+export const RECORDED_EMBEDDING_MODEL = 'text-embedding-3-small';
+
+/**
+ * An answer of the agent over the sample logs, recorded against the PHP
+ * playground API. Log ids are the ones loadSampleLogs() gives the fixtures.
+ */
+export interface DemoTranscript {
+  /** Questions this transcript answers, e.g. the quick questions of the playground. */
+  matches: RegExp;
+  content: string;
+  evidenceIds: string[];
+  toolCalls: ToolCall[];
+  usage: TokenUsage;
+  /** How long the recorded answer took. */
+  durationMs: number;
+}
+
+/** Embedding the sample logs with the recorded embedding model. */
+export const RECORDED_INDEXING_USAGE: TokenUsage = recordedUsage(0, 0, 4_862, 1);
+
+function recordedUsage(prompt: number, completion: number, embedding: number, calls: number): TokenUsage {
+  const models: TokenUsage['models'] = {};
+  if (prompt > 0 || completion > 0) {
+    models[RECORDED_BRAIN_MODEL] = {
+      prompt_tokens: prompt,
+      completion_tokens: completion,
+      embedding_tokens: 0,
+      calls: calls - (embedding > 0 ? 1 : 0),
+    };
+  }
+  if (embedding > 0) {
+    models[RECORDED_EMBEDDING_MODEL] = { prompt_tokens: 0, completion_tokens: 0, embedding_tokens: embedding, calls: 1 };
+  }
+  return {
+    prompt_tokens: prompt,
+    completion_tokens: completion,
+    embedding_tokens: embedding,
+    total_tokens: prompt + completion + embedding,
+    calls,
+    estimated: false,
+    models,
+  };
+}
+
+function logSearch(query: string, summary: string, logIds: string[], durationMs: number): ToolCall {
+  return {
+    tool: 'log_search',
+    arguments: { query },
+    success: true,
+    summary,
+    search_method: 'semantic',
+    log_count: logIds.length,
+    log_ids: logIds,
+    fallback: false,
+    fallback_reason: null,
+    duration_ms: durationMs,
+  };
+}
+
+function requestContext(identifier: string, summary: string, logIds: string[], durationMs: number): ToolCall {
+  return {
+    tool: 'request_context',
+    arguments: { identifier },
+    success: true,
+    summary,
+    search_method: 'vector-based',
+    log_count: logIds.length,
+    log_ids: logIds,
+    fallback: false,
+    fallback_reason: null,
+    duration_ms: durationMs,
+  };
+}
+
+const ORDER_REQUEST_IDS = ['pay_069', 'sec_070', 'pay_071', 'pay_072', 'pay_073', 'pay_074', 'pay_075', 'pay_076', 'app_077', 'pay_078'];
+const RESET_REQUEST_IDS = ['app_094', 'sec_095', 'app_096', 'app_097'];
+const LOGIN_REQUEST_IDS = ['app_083', 'app_084', 'sec_085', 'sec_086', 'app_087'];
+
+/**
+ * Checked in order: the first transcript whose `matches` fits the question answers it.
+ */
+export const DEMO_TRANSCRIPTS: DemoTranscript[] = [
+  {
+    matches: /req_bb002/i,
+    content: `## Request req_bb002: order ord_9002 was slow, not lost
+
+**Summary:** The order went through, but only after the first Stripe call timed out and was retried. The client waited **5.1s** for its \`201 Created\`.
+
+**Timeline**
+1. \`10:07:44\` POST /api/orders received, bob@shop.com (user 77) authenticated [pay_069, sec_070]
+2. \`10:07:44\` Order ord_9002 started, cart total 249.00 EUR [pay_071]
+3. \`10:07:45\` Stripe called, attempt 1 [pay_072]
+4. \`10:07:48\` **Payment gateway timeout** after the 3s limit [pay_073]
+5. \`10:07:48\` Payment retried, attempt 2 [pay_074]
+6. \`10:07:49\` Payment pay_5512 succeeded and the order completed [pay_075, pay_076]
+7. \`10:07:49\` Response 201 sent after 5120 ms [app_077]
+
+**Root cause:** Stripe did not answer within the 3-second timeout on the first attempt. The retry succeeded, but the timeout and the retry added about 4 seconds to the request.
+
+**Recommendations**
+- Raise the Stripe timeout, or capture the payment in an async job so that checkout does not wait on it.
+- Send an idempotency key with every attempt, so a late first attempt can never charge twice.
+- Alert on the rate of \`Payment gateway timeout\`: one more timeout and this order would have failed.`,
+    evidenceIds: ORDER_REQUEST_IDS,
+    toolCalls: [
+      requestContext(
+        'req_bb002',
+        'Found 10 logs for req_bb002 across 6 channels: a Stripe timeout on attempt 1, then a successful retry',
+        ORDER_REQUEST_IDS,
+        412,
+      ),
+    ],
+    usage: recordedUsage(3_184, 402, 9, 4),
+    durationMs: 6_840,
+  },
+  {
+    matches: /ord_9002/i,
+    content: `## Order confirmation email for ord_9002: sent, after one retry
+
+**Status:** ✅ The email was delivered at \`10:09:08\`, 5 seconds after the first attempt failed.
+
+**What happened**
+1. \`10:07:49\` Order ord_9002 completed for user 77 [pay_076]
+2. \`10:09:01\` Messenger picked up \`SendOrderConfirmation\` [pay_078]
+3. \`10:09:01\` Mailer prepared the confirmation email [pay_079]
+4. \`10:09:03\` **SMTP connection failed**: \`smtp.mailgun.org\` refused the connection [pay_080]
+5. \`10:09:03\` Messenger retried the message (retry 1) [pay_081]
+6. \`10:09:08\` Email sent successfully [pay_082]
+
+**Root cause:** A transient refusal from the Mailgun SMTP relay. The Messenger retry policy recovered on its own, so the customer only received the email about 80 seconds after ordering.
+
+**Recommendations**
+- Nothing to fix for this order. If \`SMTP connection failed\` shows up often, check the relay's connection limits.
+- Keep the retry policy: without it this email would have been lost.`,
+    evidenceIds: ['pay_076', 'pay_078', 'pay_079', 'pay_080', 'pay_081', 'pay_082'],
+    toolCalls: [
+      logSearch(
+        'ord_9002 order confirmation email status',
+        'SendOrderConfirmation for ord_9002 failed once on an SMTP connection refused, then was sent on retry',
+        ['pay_078', 'pay_079', 'pay_080', 'pay_081', 'pay_082', 'pay_076'],
+        655,
+      ),
+    ],
+    usage: recordedUsage(2_731, 318, 11, 4),
+    durationMs: 5_920,
+  },
+  {
+    matches: /dave/i,
+    content: `## Password reset for dave@site.com: blocked by the rate limiter
+
+**Summary:** The reset did not fail because of an error. It was **refused on purpose**: it was dave's 5th reset attempt, and the server answered \`429 Too Many Requests\`.
+
+**Timeline** (request req_fp201)
+1. \`11:15:22\` POST /forgot-password from 10.0.0.15 [app_094]
+2. \`11:15:22\` Password reset requested for dave@site.com [sec_095]
+3. \`11:15:22\` **Too many reset attempts**: 5 attempts [app_096]
+4. \`11:15:22\` Response 429 sent after 51 ms [app_097]
+
+**Root cause:** The reset throttle blocked the request. No token was created and no email was sent.
+
+**Recommendations**
+- Tell dave to wait for the throttle window to expire, or clear the throttle for their address if they are locked out.
+- Five attempts in a short time can also mean someone else is trying their account. req_fp202 came from the same IP (10.0.0.15) a few minutes later, for another user.`,
+    evidenceIds: RESET_REQUEST_IDS,
+    toolCalls: [
+      logSearch(
+        'dave password reset failed',
+        'Password reset for dave@site.com was refused: too many reset attempts (5)',
+        ['sec_095', 'app_096'],
+        598,
+      ),
+      requestContext(
+        'req_fp201',
+        'Found 4 logs for req_fp201: reset requested, too many attempts, 429 response',
+        RESET_REQUEST_IDS,
+        377,
+      ),
+    ],
+    usage: recordedUsage(3_962, 355, 14, 6),
+    durationMs: 7_310,
+  },
+  {
+    matches: /req_lg101/i,
+    content: `## Request req_lg101: wrong password
+
+**Summary:** The login failed because the password was wrong, not because of a system error. The server answered \`401 Unauthorized\` in 84 ms.
+
+**Timeline**
+1. \`11:01:12\` POST /login from 10.0.0.9 [app_083]
+2. \`11:01:12\` Credentials validated for carol@site.com [app_084]
+3. \`11:01:12\` **Invalid password** [sec_085]
+4. \`11:01:12\` Authentication failed [sec_086]
+5. \`11:01:12\` Response 401 sent [app_087]
+
+**Root cause:** carol@site.com entered a wrong password. The account exists and the authentication stack worked as expected. The next login (req_lg102, admin@site.com) succeeded.
+
+**Recommendations**
+- Nothing to fix on the server. Offer carol a password reset.
+- This is the only failure for this address in the logs, so it is not a brute-force pattern.`,
+    evidenceIds: LOGIN_REQUEST_IDS,
+    toolCalls: [
+      requestContext(
+        'req_lg101',
+        'Found 5 logs for req_lg101: invalid password for carol@site.com, 401 response',
+        LOGIN_REQUEST_IDS,
+        341,
+      ),
+    ],
+    usage: recordedUsage(2_448, 287, 8, 4),
+    durationMs: 4_870,
+  },
+  {
+    matches: /req_fp201/i,
+    content: `## Request req_fp201: blocked by the password reset throttle
+
+**Summary:** The request was blocked on purpose. It was the **5th password reset attempt** for dave@site.com, so the server refused it with \`429 Too Many Requests\`.
+
+**Timeline**
+1. \`11:15:22\` POST /forgot-password from 10.0.0.15 [app_094]
+2. \`11:15:22\` Password reset requested for dave@site.com [sec_095]
+3. \`11:15:22\` **Too many reset attempts** (\`attempts: 5\`) [app_096]
+4. \`11:15:22\` Response 429 sent after 51 ms [app_097]
+
+**Root cause:** Rate limiting on /forgot-password. Neither a reset token nor an email was created for this request.
+
+**Recommendations**
+- If dave really is locked out, clear the throttle for that address or wait for the window to expire.
+- Watch 10.0.0.15: it also sent req_fp202 for another account a few minutes later.`,
+    evidenceIds: RESET_REQUEST_IDS,
+    toolCalls: [
+      requestContext(
+        'req_fp201',
+        'Found 4 logs for req_fp201: reset requested, too many attempts, 429 response',
+        RESET_REQUEST_IDS,
+        365,
+      ),
+    ],
+    usage: recordedUsage(2_296, 301, 9, 4),
+    durationMs: 4_560,
+  },
+  {
+    matches: /payment/i,
+    content: `## Payment failures: gateway timeouts and declines
+
+I found **10 payment problems** between \`14:23\` and \`14:32\`. They fall into four groups.
+
+**1. Stripe timeouts (most impactful)**
+- Order #12345: gateway timeout on the first attempt [pay_001], retried as attempt #2 [pay_004]
+- Order 12350: \`cURL error 28\`, no answer from api.stripe.com within 30s [dat_007]
+
+**2. Declined by the provider** (customer side)
+- Card declined, \`insufficient_funds\` (card ending 4242) [pay_002]
+- PayPal \`INSTRUMENT_DECLINED\` for 299.00 [pay_003]
+
+**3. Failures on our side**
+- 🔴 **CRITICAL:** Stripe webhook signature validation failed [pay_006]
+- Payment record not saved: database connection timed out [pay_005]
+- Refund failed, original payment \`txn_missing\` not found [pay_010]
+
+**4. Validation:** amount mismatch of 0.99 on a PayPal order [pay_008], invalid payment method [pay_009]
+
+**Root cause:** Connectivity to Stripe. Two orders hit timeouts within 6 minutes, and one payment could not be saved because the database was timing out at the same time.
+
+**Recommendations**
+1. Check the webhook secret first: with failing signatures, Stripe events are rejected and orders stay unpaid.
+2. Add retries with backoff and idempotency keys to the Stripe client.
+3. Reconcile order 12348: the customer may have been charged without a payment record.`,
+    evidenceIds: ['pay_001', 'pay_004', 'dat_007', 'pay_002', 'pay_003', 'pay_006', 'pay_005', 'pay_010'],
+    toolCalls: [
+      logSearch(
+        'payment failures',
+        'Found 10 payment errors: Stripe timeouts, card and PayPal declines, a webhook signature failure',
+        ['pay_001', 'pay_002', 'pay_003', 'pay_004', 'pay_005', 'pay_006', 'dat_007', 'pay_008', 'pay_009', 'pay_010'],
+        702,
+      ),
+    ],
+    usage: recordedUsage(3_847, 512, 4, 4),
+    durationMs: 8_150,
+  },
+  {
+    matches: /database/i,
+    content: `## Database issues: connection exhaustion on db-primary
+
+**Summary:** Between \`13:15\` and \`13:24\`, the primary database ran out of connections and then dropped them. Most of the other errors follow from that.
+
+**Connections (root of the incident)**
+- \`Too many connections\`: 101 of 100 in use on db-primary.internal [dat_011]
+- Pool exhausted: 20 of 20 active, 5 requests waiting 2.3s on average [dat_017]
+- 🔴 **CRITICAL:** connection lost, \`MySQL server has gone away\` after 3 reconnect attempts [dat_015]
+
+**Contention**
+- Lock wait timeout (50s) updating order 12345 [dat_012]
+- Deadlock inserting into \`order_items\` [app_014]
+- Slow query on products/categories: 5.2s for a 1s threshold [dat_013]
+- Read replica db-read-1 lagging 45s behind [app_020]
+
+**Bugs to fix regardless**
+- Table \`user_sessions\` does not exist [app_016]
+
+**Recommendations**
+1. Find what holds connections: the slow query [dat_013] and long lock waits keep them busy.
+2. Add an index for the active products query, and keep transactions on \`orders\` short.
+3. Restore or migrate the missing \`user_sessions\` table.`,
+    evidenceIds: ['dat_011', 'dat_017', 'dat_015', 'dat_012', 'app_014', 'dat_013', 'app_020', 'app_016'],
+    toolCalls: [
+      logSearch(
+        'database errors',
+        'Found 10 database errors: too many connections, pool exhaustion, connection lost, deadlocks and slow queries',
+        ['dat_011', 'dat_012', 'dat_013', 'app_014', 'dat_015', 'app_016', 'dat_017', 'app_018', 'app_019', 'app_020'],
+        688,
+      ),
+    ],
+    usage: recordedUsage(3_702, 468, 5, 4),
+    durationMs: 7_640,
+  },
+  {
+    matches: /security|threat/i,
+    content: `## Security threats: an active attack from several IPs, all blocked
+
+**Summary:** I found **10 security events** in 9 minutes (\`10:15\`–\`10:24\`). Every attack was **blocked or sanitized**, but two of them target accounts directly.
+
+**🔴 Critical**
+- Brute force from 192.168.1.100: 15 failed attempts on admin, root and administrator, after the first failures on "admin" [sec_022, sec_021]
+- Privilege escalation attempt by user_5678 on /admin/users [app_026]
+- Account takeover attempt on john.doe@example.com through password reset [app_029]
+
+**🟠 Injection and tampering**
+- SQL injection with sqlmap on /api/users [dat_023]
+- Forged JWT for user_1234 [sec_025]
+- PHP shell uploaded as \`shell.php.jpg\` by user_9876 [app_027]
+- Invalid API key used on /api/orders [sec_024]
+
+**Recommendations**
+1. Ban 192.168.1.100 and 203.0.113.42 at the firewall, not only in the app.
+2. Review user_5678 and user_9876: both were authenticated when they attacked.
+3. Reset the credentials of john.doe@example.com and add MFA for admin accounts.`,
+    evidenceIds: ['sec_022', 'sec_021', 'app_026', 'app_029', 'dat_023', 'sec_025', 'app_027', 'sec_024'],
+    toolCalls: [
+      logSearch(
+        'security threats attacks',
+        'Found 10 security events: brute force, SQL injection, JWT tampering, privilege escalation, account takeover',
+        ['sec_021', 'sec_022', 'dat_023', 'sec_024', 'sec_025', 'app_026', 'app_027', 'app_028', 'app_029', 'app_030'],
+        731,
+      ),
+    ],
+    usage: recordedUsage(3_915, 497, 5, 4),
+    durationMs: 7_980,
+  },
+  {
+    matches: /application/i,
+    content: `## Application errors
+
+I found **10 application errors** between \`15:45\` and \`15:54\`, sorted here by severity.
+
+| Severity | Error | Where | Log |
+|---|---|---|---|
+| 🔴 CRITICAL | Out of memory: 256M exhausted | ExportOrdersCommand | [per_033] |
+| 🔴 CRITICAL | Call to undefined method \`User::getNonExistentProperty()\` | UserController:123 | [app_038] |
+| 🟠 ERROR | \`TypeError\`: string given to \`calculateDiscount()\` | PriceCalculator | [mic_036] |
+| 🟠 ERROR | Product 12345 out of stock for order ORD-67890 | InventoryService | [app_032] |
+| 🟠 ERROR | Order confirmation email failed: SMTP refused | EmailService | [app_037] |
+| 🟠 ERROR | 429 from the verification API after 3 attempts | ExternalApiClient | [app_034] |
+| 🟠 ERROR | CSV export broken at row 1250 (quotes) | CsvExportService | [app_039] |
+| 🟠 ERROR | No route for GET /api/v2/products/999999 | Router | [mic_031] |
+
+Also: Redis connection lost, with a fallback to the database, and a deprecated \`mcrypt_encrypt()\` call.
+
+**Recommendations**
+1. Stream the order export instead of loading every order in memory [per_033].
+2. Fix the two code bugs [app_038, mic_036]: they fail on every call.
+3. Escape quotes in the CSV exporter [app_039].`,
+    evidenceIds: ['per_033', 'app_038', 'mic_036', 'app_032', 'app_037', 'app_034', 'app_039', 'mic_031'],
+    toolCalls: [
+      logSearch(
+        'application errors exceptions',
+        'Found 10 application errors: out of memory, undefined method, TypeError, SMTP and CSV failures',
+        ['mic_031', 'app_032', 'per_033', 'app_034', 'app_035', 'mic_036', 'app_037', 'app_038', 'app_039', 'dat_040'],
+        694,
+      ),
+    ],
+    usage: recordedUsage(3_876, 561, 6, 4),
+    durationMs: 8_420,
+  },
+  {
+    matches: /performance/i,
+    content: `## Performance problems
+
+**Summary:** The slowness comes from **waiting**, not from CPU. Slow dependencies keep requests and connections busy.
+
+**Slow dependencies**
+- Stripe: 3s timeout on the first payment attempt, which made req_bb002 take **5.1s** [pay_073, app_077]
+- Stripe again: no answer within 30s (\`cURL error 28\`) [dat_007]
+- Slow query on active products: **5.2s** for a 1s threshold [dat_013]
+- Read replica 45s behind the primary [app_020]
+
+**Saturation**
+- Database pool exhausted: 20 of 20 connections busy, requests waiting 2.3s [dat_017]
+- Order export ran out of memory (256M) [per_033]
+- api-gateway autoscaler cannot read CPU metrics, so it cannot scale [per_050]
+
+**Recommendations**
+1. Index the active products query: it holds connections for 5 seconds at a time.
+2. Take Stripe out of the request path, or cap its timeout and retry asynchronously.
+3. Fix the metrics-server for the api-gateway autoscaler before the next traffic peak.`,
+    evidenceIds: ['pay_073', 'app_077', 'dat_007', 'dat_013', 'app_020', 'dat_017', 'per_033', 'per_050'],
+    toolCalls: [
+      logSearch(
+        'performance slow timeout latency',
+        'Found 8 performance-related logs: gateway timeouts, a 5.2s query, pool exhaustion, memory and autoscaling issues',
+        ['dat_013', 'pay_073', 'app_077', 'dat_007', 'dat_017', 'app_020', 'per_033', 'per_050'],
+        715,
+      ),
+    ],
+    usage: recordedUsage(3_659, 476, 7, 4),
+    durationMs: 7_720,
+  },
+];
+
+export function findTranscript(question: string): DemoTranscript | null {
+  return DEMO_TRANSCRIPTS.find(transcript => transcript.matches.test(question)) ?? null;
+}
@@ -0,0 +1,2 @@
+export * from './suite';
+export * from './run';
@@ -0,0 +1,182 @@
+import {
+  describeError,
+  isAbortError,
+  waitForIndexing,
+  type ChatResponse,
+  type PlatformCredentials,
+  type PlaygroundApi,
+  type TokenUsage,
+} from '@site/src/api';
+import type { EvaluationCase, EvaluationSuite } from './suite';
+
+/**
+ * How one answer did against its case. Precision and recall are null when
+ * the case expects no evidence, and every metric is null when the question
+ * could not be asked.
+ */
+export interface CaseResult {
+  caseId: string;
+  question: string;
+  answer: string;
+  evidenceIds: string[];
+  expectedEvidenceIds: string[];
+  precision: number | null;
+  recall: number | null;
+  keywordHits: string[];
+  missingKeywords: string[];
+  durationMs: number;
+  usage: TokenUsage | null;
+  /** Why the question failed, e.g. an API error. */
+  error?: string;
+}
+
+export interface RunSummary {
+  cases: number;
+  failures: number;
+  /** Averages over the cases that expect evidence and got an answer. */
+  precision: number | null;
+  recall: number | null;
+  /** Keywords found over keywords expected, across answered cases. */
+  keywordHitRate: number | null;
+  averageDurationMs: number;
+  totalTokens: number | null;
+}
+
+/**
+ * A saved run: which model answered which suite, to compare with later runs.
+ */
+export interface EvaluationRun {
+  id: string;
+  /** Free text such as "prompt v2", to tell runs of the same model apart. */
+  label: string;
+  suiteName: string;
+  platform: string;
+  brainModel: string;
+  embeddingModel: string;
+  apiUrl: string;
+  startedAt: string;
+  finishedAt: string;
+  results: CaseResult[];
+  summary: RunSummary;
+}
+
+export interface RunEvaluationOptions {
+  signal?: AbortSignal;
+  /** Indexing and progress messages. */
+  onProgress?: (message: string) => void;
+  /** Each case, as soon as it is scored. */
+  onResult?: (result: CaseResult) => void;
+}
+
+export function scoreAnswer(evaluationCase: EvaluationCase, response: ChatResponse, durationMs: number): CaseResult {
+  const evidenceIds = [...new Set(response.evidence_logs.map(log => log.id))];
+  const expected = new Set(evaluationCase.expectedEvidenceIds);
+  const found = evidenceIds.filter(id => expected.has(id)).length;
+  const content = response.content.toLowerCase();
+  const keywordHits = evaluationCase.expectedKeywords.filter(keyword => content.includes(keyword.toLowerCase()));
+
+  return {
+    caseId: evaluationCase.id,
+    question: evaluationCase.question,
+    answer: response.content,
+    evidenceIds,
+    expectedEvidenceIds: evaluationCase.expectedEvidenceIds,
+    precision: expected.size === 0 ? null : evidenceIds.length === 0 ? 0 : found / evidenceIds.length,
+    recall: expected.size === 0 ? null : found / expected.size,
+    keywordHits,
+    missingKeywords: evaluationCase.expectedKeywords.filter(keyword => !keywordHits.includes(keyword)),
+    durationMs,
+    usage: response.usage,
+  };
+}
+
+function failedCase(evaluationCase: EvaluationCase, error: unknown, durationMs: number): CaseResult {
+  return {
+    caseId: evaluationCase.id,
+    question: evaluationCase.question,
+    answer: '',
+    evidenceIds: [],
+    expectedEvidenceIds: evaluationCase.expectedEvidenceIds,
+    precision: null,
+    recall: null,
+    keywordHits: [],
+    missingKeywords: evaluationCase.expectedKeywords,
+    durationMs,
+    usage: null,
+    error: describeError(error, 'The question failed'),
+  };
+}
+
+function average(values: Array<number | null>): number | null {
+  const known = values.filter((value): value is number => value !== null);
+  return known.length === 0 ? null : known.reduce((sum, value) => sum + value, 0) / known.length;
+}
+
+export function summarizeResults(results: CaseResult[]): RunSummary {
+  const answered = results.filter(result => !result.error);
+  const keywords = answered.reduce((sum, result) => sum + result.keywordHits.length + result.missingKeywords.length, 0);
+  const hits = answered.reduce((sum, result) => sum + result.keywordHits.length, 0);
+  const usages = answered.map(result => result.usage).filter((usage): usage is TokenUsage => usage !== null);
+
+  return {
+    cases: results.length,
+    failures: results.length - answered.length,
+    precision: average(answered.map(result => result.precision)),
+    recall: average(answered.map(result => result.recall)),
+    keywordHitRate: keywords === 0 ? null : hits / keywords,
+    averageDurationMs: average(answered.map(result => result.durationMs)) ?? 0,
+    totalTokens: usages.length === 0 ? null : usages.reduce((sum, usage) => sum + usage.total_tokens, 0),
+  };
+}
+
+/**
+ * Indexes the sample logs in a session of its own, then asks every question
+ * of the suite through `/compare`, which leaves the conversation untouched:
+ * each answer depends on its question only. The session is reset at the end.
+ *
+ * A failing question is recorded and the run goes on; aborting stops it.
+ */
+export async function runEvaluation(
+  api: PlaygroundApi,
+  suite: EvaluationSuite,
+  credentials: PlatformCredentials,
+  { signal, onProgress, onResult }: RunEvaluationOptions = {},
+): Promise<CaseResult[]> {
+  const sessionId = `evaluation-${Date.now()}`;
+  const request = { session_id: sessionId, ...credentials };
+  const candidate = {
+    platform: credentials.platform,
+    brain_model: credentials.brain_model,
+    api_key: credentials.api_key,
+    ollama_host: credentials.ollama_host,
+  };
+
+  try {
+    const started = await api.init(request, { signal });
+    await waitForIndexing(api, sessionId, started, {
+      signal,
+      onProgress: status => onProgress?.(status.message),
+    });
+
+    const results: CaseResult[] = [];
+    for (const [index, evaluationCase] of suite.cases.entries()) {
+      onProgress?.(`Question ${index + 1} of ${suite.cases.length}: ${evaluationCase.question}`);
+      const startedAt = performance.now();
+      let result: CaseResult;
+      try {
+        const response = await api.compare({ ...request, question: evaluationCase.question, candidate }, { signal });
+        result = scoreAnswer(evaluationCase, response, Math.round(performance.now() - startedAt));
+      } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
+        }
+        result = failedCase(evaluationCase, error, Math.round(performance.now() - startedAt));
+      }
+      results.push(result);
+      onResult?.(result);
+    }
+    return results;
+  } finally {
+    api.reset(sessionId).catch(() => undefined);
+  }
+}
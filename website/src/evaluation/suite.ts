@@ -0,0 +1,128 @@
+import { DecodeError, expectArray, expectObject, expectString, optionalString } from '@site/src/api/validation';
+
+/**
+ * A question with what a good answer over the indexed logs should contain.
+ */
+export interface EvaluationCase {
+  id: string;
+  question: string;
+  /** Log ids the answer should cite; empty to only check keywords. */
+  expectedEvidenceIds: string[];
+  /** Words the answer should mention, case-insensitive. */
+  expectedKeywords: string[];
+}
+
+export interface EvaluationSuite {
+  name: string;
+  cases: EvaluationCase[];
+}
+
+/**
+ * Questions over the sample logs of test/fixtures/logs, whose answers are
+ * known from the fixtures: the logs of each request and what went wrong.
+ */
+export const SAMPLE_SUITE: EvaluationSuite = {
+  name: 'Sample logs',
+  cases: [
+    {
+      id: 'order-req-bb002',
+      question: 'Why was request req_bb002 for order ord_9002 slow?',
+      expectedEvidenceIds: ['pay_071', 'pay_072', 'pay_073', 'pay_074', 'pay_075', 'app_077'],
+      expectedKeywords: ['timeout', 'retry', 'stripe'],
+    },
+    {
+      id: 'order-email-ord-9002',
+      question: 'What is the status of the confirmation email for order ord_9002?',
+      expectedEvidenceIds: ['pay_078', 'pay_079', 'pay_080', 'pay_081', 'pay_082'],
+      expectedKeywords: ['smtp', 'retry', 'sent'],
+    },
+    {
+      id: 'login-req-lg101',
+      question: 'Why did the login of request req_lg101 fail?',
+      expectedEvidenceIds: ['app_083', 'sec_085', 'sec_086', 'app_087'],
+      expectedKeywords: ['password', '401'],
+    },
+    {
+      id: 'reset-req-fp201',
+      question: 'Why was request req_fp201 blocked?',
+      expectedEvidenceIds: ['app_094', 'sec_095', 'app_096', 'app_097'],
+      expectedKeywords: ['attempts', '429'],
+    },
+    {
+      id: 'payment-failures',
+      question: 'Why did payments fail?',
+      expectedEvidenceIds: ['pay_001', 'pay_002', 'pay_003', 'pay_006'],
+      expectedKeywords: ['timeout', 'declined', 'webhook'],
+    },
+    {
+      id: 'database-issues',
+      question: 'What database issues are there?',
+      expectedEvidenceIds: ['dat_011', 'dat_012', 'app_014', 'dat_015'],
+      expectedKeywords: ['connection', 'deadlock', 'lock wait'],
+    },
+    {
+      id: 'security-threats',
+      question: 'Are there any security threats?',
+      expectedEvidenceIds: ['sec_022', 'dat_023', 'sec_025', 'app_026'],
+      expectedKeywords: ['brute force', 'sql injection', 'jwt'],
+    },
+  ],
+};
+
+function decodeStrings(value: unknown, path: string): string[] {
+  return value === undefined || value === null
+    ? []
+    : expectArray(value, path).map((item, i) => expectString(item, `${path}[${i}]`));
+}
+
+function decodeCase(value: unknown, path: string, index: number): EvaluationCase {
+  const data = expectObject(value, path);
+  return {
+    id: optionalString(data.id, `${path}.id`) ?? `case-${index + 1}`,
+    question: expectString(data.question, `${path}.question`),
+    // The feedback dataset calls them correct_ids
+    expectedEvidenceIds: decodeStrings(data.expected_evidence_ids ?? data.correct_ids, `${path}.expected_evidence_ids`),
+    expectedKeywords: decodeStrings(data.expected_keywords, `${path}.expected_keywords`),
+  };
+}
+
+function requireCases(cases: EvaluationCase[]): EvaluationCase[] {
+  if (cases.length === 0) {
+    throw new DecodeError('the suite has no questions');
+  }
+  return cases;
+}
+
+/**
+ * Reads a suite file: JSON `{ name, cases: [...] }`, or JSON Lines with one
+ * case per line, such as the feedback dataset exported from the playground.
+ * Cases use snake_case like the dataset: `question`, `expected_evidence_ids`
+ * (or `correct_ids`), `expected_keywords`.
+ */
+export function parseEvaluationSuite(text: string, fileName: string): EvaluationSuite {
+  const name = fileName.replace(/\.[^.]+$/, '');
+
+  let document: unknown = null;
+  try {
+    document = JSON.parse(text);
+  } catch {
+    // JSON Lines, unless the file has a single line
+  }
+  if (typeof document === 'object' && document !== null && 'cases' in document) {
+    const data = expectObject(document, 'suite');
+    const cases = expectArray(data.cases, 'cases').map((item, i) => decodeCase(item, `cases[${i}]`, i));
+    return { name: optionalString(data.name, 'name') ?? name, cases: requireCases(cases) };
+  }
+
+  const lines = text.split('\n').filter(line => line.trim() !== '');
+  const cases = lines.map((line, i) => {
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch {
+      throw new DecodeError(`line ${i + 1} is not valid JSON`);
+    }
+    return decodeCase(value, `line ${i + 1}`, i);
+  });
+  return { name, cases: requireCases(cases) };
+}
@@ -0,0 +1,114 @@
+import type { LogEntry, LogNeighboursResponse, LogsQuery, LogsResponse } from '@site/src/api';
+import { buildLogHistogram } from './histogram';
+
+/**
+ * Local counterpart of filterLogs() in examples/playground-api.php, for logs
+ * that are already in the browser (e.g. the fallback sample when the API is down).
+ */
+export function queryLogEntries(logs: LogEntry[], query: LogsQuery = {}): LogsResponse {
+  const levels = normalizeList(query.levels);
+  const categories = normalizeList(query.categories);
+  const sources = normalizeList(query.sources);
+  const id = query.id?.trim().toLowerCase() ?? '';
+  const from = query.from ? parseTimestamp(query.from) : null;
+  const to = query.to ? parseTimestamp(query.to) : null;
+
+  const filtered = logs.filter(log => {
+    if (levels.length > 0 && !levels.includes(log.level.toLowerCase())) {
+      return false;
+    }
+    if (categories.length > 0 && !categories.includes((log.category ?? '').toLowerCase())) {
+      return false;
+    }
+    if (sources.length > 0 && !sources.includes((log.source ?? '').toLowerCase())) {
+      return false;
+    }
+    if (id !== '' && !log.id.toLowerCase().includes(id)) {
+      return false;
+    }
+    if (from !== null || to !== null) {
+      const time = parseTimestamp(log.timestamp);
+      if (time === null || (from !== null && time < from) || (to !== null && time > to)) {
+        return false;
+      }
+    }
+    return true;
+  });
+
+  const offset = query.offset ?? 0;
+  const limit = query.limit ?? filtered.length;
+  const page = filtered.slice(offset, offset + limit);
+  return {
+    logs: page,
+    count: page.length,
+    total: logs.length,
+    filtered: filtered.length,
+    offset,
+    limit,
+    facets: {
+      levels: countBy(logs, log => log.level),
+      categories: countBy(logs, log => log.category ?? 'unknown'),
+      sources: countBy(logs, log => log.source ?? 'unknown'),
+    },
+    histogram: query.histogram ? buildLogHistogram(filtered, query.histogram, query.from, query.to) : undefined,
+  };
+}
+
+/**
+ * Local counterpart of findLogNeighbours(): the entry and up to `radius`
+ * entries before and after it from the same source file.
+ */
+export function findLogNeighbours(logs: LogEntry[], id: string, radius = 5): LogNeighboursResponse | null {
+  const index = logs.findIndex(log => log.id === id);
+  if (index === -1) {
+    return null;
+  }
+  const log = logs[index];
+  const sameSource = (other: LogEntry) => other.source === log.source;
+  return {
+    log,
+    before: logs.slice(Math.max(0, index - radius), index).filter(sameSource),
+    after: logs.slice(index + 1, index + 1 + radius).filter(sameSource),
+  };
+}
+
+/**
+ * Milliseconds since epoch for "YYYY-MM-DD HH:MM:SS" and ISO 8601 strings.
+ */
+export function parseTimestamp(value: string): number | null {
+  const time = Date.parse(value.trim().replace(' ', 'T'));
+  return Number.isNaN(time) ? null : time;
+}
+
+function normalizeList(values?: string[]): string[] {
+  return (values ?? []).map(value => value.trim().toLowerCase()).filter(Boolean);
+}
+
+function countBy(logs: LogEntry[], key: (log: LogEntry) => string): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const log of logs) {
+    counts[key(log)] = (counts[key(log)] ?? 0) + 1;
+  }
+  return Object.fromEntries(Object.entries(counts).sort((a, b) => b[1] - a[1]));
+}
+
+/** Logs per `/logs` request when fetching them all; the server's maximum. */
+const ALL_LOGS_PAGE_SIZE = 1000;
+
+/**
+ * Every log matching `query`, fetched page by page with `fetchPage`.
+ */
+export async function fetchAllLogs(
+  fetchPage: (query: LogsQuery, signal: AbortSignal) => Promise<LogsResponse>,
+  signal: AbortSignal,
+  query: LogsQuery = {},
+): Promise<LogEntry[]> {
+  const logs: LogEntry[] = [];
+  for (;;) {
+    const page = await fetchPage({ ...query, offset: logs.length, limit: ALL_LOGS_PAGE_SIZE }, signal);
+    logs.push(...page.logs);
+    if (page.logs.length === 0 || logs.length >= page.filtered) {
+      return logs;
+    }
+  }
+}
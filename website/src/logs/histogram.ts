@@ -0,0 +1,49 @@
+import type { LogEntry, LogHistogram } from '@site/src/api';
+import { parseTimestamp } from './filter';
+
+/**
+ * Local counterpart of buildLogHistogram() in examples/playground-api.php.
+ */
+export function buildLogHistogram(
+  logs: LogEntry[],
+  bucketCount: number,
+  from?: string,
+  to?: string,
+): LogHistogram | null {
+  const times = logs.map(log => parseTimestamp(log.timestamp));
+  const known = times.filter((time): time is number => time !== null);
+  if (known.length === 0) {
+    return null;
+  }
+
+  // No spread: Math.min(...known) overflows the stack on large files
+  const start = (from ? parseTimestamp(from) : null) ?? known.reduce((a, b) => Math.min(a, b));
+  const end = (to ? parseTimestamp(to) : null) ?? known.reduce((a, b) => Math.max(a, b));
+  const bucketMs = Math.max(1, Math.ceil((end - start + 1000) / bucketCount / 1000)) * 1000;
+
+  const buckets: LogHistogram['buckets'] = [];
+  for (let bucketStart = start; bucketStart <= end && buckets.length < bucketCount; bucketStart += bucketMs) {
+    buckets.push({ start: formatTimestamp(bucketStart), counts: {} });
+  }
+  times.forEach((time, i) => {
+    const bucket = time === null || time < start ? undefined : buckets[Math.floor((time - start) / bucketMs)];
+    if (bucket) {
+      const level = logs[i].level.toUpperCase();
+      bucket.counts[level] = (bucket.counts[level] ?? 0) + 1;
+    }
+  });
+
+  return { from: formatTimestamp(start), to: formatTimestamp(end), bucket_seconds: bucketMs / 1000, buckets };
+}
+
+/**
+ * "YYYY-MM-DD HH:MM:SS" in local time, the format of the log timestamps.
+ */
+export function formatTimestamp(time: number): string {
+  const date = new Date(time);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+  );
+}
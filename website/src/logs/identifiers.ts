@@ -0,0 +1,18 @@
+/**
+ * Request-like identifiers as they appear in the logs and in questions:
+ * req_bb002, trace-abc-def, sess_118, ord_9002...
+ */
+const IDENTIFIER_PATTERN = /\b(?:req|request|trace|span|sess|session|ord|order|txn|transaction)[_-][a-z0-9][a-z0-9_-]*\b/gi;
+
+/** Context keys that hold an identifier worth tracing. */
+export const TRACE_CONTEXT_KEYS = ['request_id', 'trace_id', 'session_id', 'correlation_id', 'transaction_id'];
+
+export function extractIdentifiers(text: string): string[] {
+  return [...new Set(text.match(IDENTIFIER_PATTERN) ?? [])];
+}
+
+export function identifiersFromContext(context?: Record<string, unknown>): string[] {
+  return TRACE_CONTEXT_KEYS.map(key => context?.[key]).filter(
+    (value): value is string => typeof value === 'string' && value !== '',
+  );
+}
@@ -0,0 +1,9 @@
+export * from './parser';
+export * from './preview';
+export * from './filter';
+export * from './histogram';
+export * from './identifiers';
+export * from './search';
+export * from './suggestions';
+export * from './patterns';
+export * from './insights';
@@ -0,0 +1,137 @@
+import type { LogEntry } from '@site/src/api';
+import { parseTimestamp } from './filter';
+import { mineLogPatterns, type LogPattern } from './patterns';
+import { FAILING_LEVELS } from './suggestions';
+
+/** Categories of the overview, listed whether or not the logs have any. */
+export const INSIGHT_CATEGORIES = [
+  'payment',
+  'database',
+  'security',
+  'application',
+  'performance',
+  'kubernetes',
+  'microservices',
+];
+
+const TOP_PATTERNS = 8;
+/** Failing logs of a category sent for its summary. */
+const SUMMARY_LOGS = 25;
+
+export interface CategoryHealth {
+  category: string;
+  total: number;
+  failing: number;
+  warnings: number;
+}
+
+export interface InsightRange {
+  from: number;
+  to: number;
+}
+
+export interface LogInsights {
+  total: number;
+  failing: number;
+  /** Logs per (uppercase) level. */
+  levels: Record<string, number>;
+  categories: CategoryHealth[];
+  /** Most frequent templates, whatever their levels. */
+  topPatterns: LogPattern[];
+  /** Bounds of the timestamps; null when none could be read. */
+  timeRange: InsightRange | null;
+}
+
+/**
+ * Failing share of the logs of a category in the baseline and the recent
+ * window. `isNew` marks categories failing now that did not fail before.
+ */
+export interface ErrorRateChange {
+  category: string;
+  baseline: { total: number; failing: number; rate: number | null };
+  recent: { total: number; failing: number; rate: number | null };
+  isNew: boolean;
+}
+
+export function isFailingLevel(level: string): boolean {
+  return FAILING_LEVELS.includes(level.toLowerCase());
+}
+
+export function isFailingPattern(pattern: LogPattern): boolean {
+  return Object.keys(pattern.levels).some(isFailingLevel);
+}
+
+export function buildLogInsights(logs: LogEntry[]): LogInsights {
+  const levels: Record<string, number> = {};
+  const categories = new Map(
+    INSIGHT_CATEGORIES.map(category => [category, { category, total: 0, failing: 0, warnings: 0 }]),
+  );
+  let failing = 0;
+  let from = Infinity;
+  let to = -Infinity;
+
+  for (const log of logs) {
+    const level = log.level.toUpperCase();
+    levels[level] = (levels[level] ?? 0) + 1;
+    const health = categories.get(log.category ?? '');
+    const failed = isFailingLevel(level);
+    failing += failed ? 1 : 0;
+    if (health) {
+      health.total++;
+      health.failing += failed ? 1 : 0;
+      health.warnings += level === 'WARNING' || level === 'WARN' ? 1 : 0;
+    }
+    const time = parseTimestamp(log.timestamp);
+    if (time !== null) {
+      from = Math.min(from, time);
+      to = Math.max(to, time);
+    }
+  }
+
+  return {
+    total: logs.length,
+    failing,
+    levels,
+    categories: [...categories.values()],
+    topPatterns: mineLogPatterns(logs).slice(0, TOP_PATTERNS),
+    timeRange: from <= to ? { from, to } : null,
+  };
+}
+
+/**
+ * Baseline before `split`, recent window from it, each over its own logs.
+ */
+export function compareErrorRates(logs: LogEntry[], range: InsightRange, split: number): ErrorRateChange[] {
+  const counts = (window: InsightRange, category: string) => {
+    const inWindow = logs.filter(log => {
+      const time = parseTimestamp(log.timestamp);
+      return log.category === category && time !== null && time >= window.from && time < window.to;
+    });
+    const failing = inWindow.filter(log => isFailingLevel(log.level)).length;
+    return { total: inWindow.length, failing, rate: inWindow.length === 0 ? null : failing / inWindow.length };
+  };
+
+  // The recent window includes the last log
+  const baselineWindow = { from: range.from, to: split };
+  const recentWindow = { from: split, to: range.to + 1 };
+  return INSIGHT_CATEGORIES.map(category => {
+    const baseline = counts(baselineWindow, category);
+    const recent = counts(recentWindow, category);
+    return { category, baseline, recent, isNew: recent.failing > 0 && baseline.failing === 0 };
+  });
+}
+
+/**
+ * Lines to explain for `category`, as POST /analyze takes them: its latest
+ * failing logs, or its warnings when nothing failed.
+ */
+export function categorySummaryLogs(category: string, logs: LogEntry[]): string[] | null {
+  const ofCategory = logs.filter(log => log.category === category);
+  const failing = ofCategory.filter(log => isFailingLevel(log.level));
+  const selected = (failing.length > 0 ? failing : ofCategory.filter(log => log.level.toUpperCase().startsWith('WARN')))
+    .slice(-SUMMARY_LOGS);
+  if (selected.length === 0) {
+    return null;
+  }
+  return selected.map(log => log.raw ?? `[${log.timestamp}] ${log.level}: ${log.message}`);
+}
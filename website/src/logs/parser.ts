@@ -0,0 +1,117 @@
+/**
+ * Browser port of parseLogLine() and detectCategory() from examples/playground-api.php.
+ *
+ * Keep the patterns in sync with the PHP side: the preview is only useful if it
+ * predicts what the server will make of the file.
+ */
+
+export type LogFormat = 'laravel' | 'generic' | 'simple';
+
+export interface ParsedLogLine {
+  /** Pattern that matched, or null when the line fell through to the fallback. */
+  format: LogFormat | null;
+  lineNumber: number;
+  content: string;
+  message: string;
+  /** Null when the line has no timestamp; the server then uses the indexing time. */
+  timestamp: string | null;
+  level: string;
+  channel: string;
+  category: string;
+  context: Record<string, unknown>;
+  extra: Record<string, unknown>;
+}
+
+export const LOG_FORMAT_LABELS: Record<LogFormat, string> = {
+  laravel: 'Laravel / Monolog ([date] channel.LEVEL: message)',
+  generic: 'Generic bracketed ([date] LEVEL: message)',
+  simple: 'Simple ISO timestamp (date ... LEVEL message)',
+};
+
+const LARAVEL_PATTERN = /^\[(\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2})\] (\w+)\.(\w+): (.+)$/;
+const GENERIC_PATTERN = /^\[(\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2})\] (\w+): (.+)$/;
+const SIMPLE_PATTERN = /^(\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}).*?(ERROR|WARN|WARNING|INFO|DEBUG|CRITICAL|FATAL)[:\s]+(.+)$/i;
+const TIMESTAMP_PATTERN = /(\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2})/;
+const CONTEXT_PATTERN = /^(.+?)\s*(\{.+\})\s*(\[.+\])?$/;
+
+const CATEGORY_PATTERNS: Array<[string, RegExp]> = [
+  ['payment', /payment|stripe|paypal|card|checkout|order/i],
+  ['database', /database|mysql|postgres|sql|connection|query/i],
+  ['security', /security|auth|login|password|brute|attack|token/i],
+  ['performance', /memory|cpu|slow|latency|timeout|performance/i],
+  ['kubernetes', /kubernetes|k8s|pod|container|deployment/i],
+  ['laravel', /laravel|illuminate|artisan/i],
+  ['microservices', /service|api|endpoint|microservice/i],
+];
+
+export function detectCategory(content: string): string {
+  for (const [category, pattern] of CATEGORY_PATTERNS) {
+    if (pattern.test(content)) {
+      return category;
+    }
+  }
+  return 'application';
+}
+
+export function parseLogLine(rawLine: string, lineNumber: number): ParsedLogLine | null {
+  const line = rawLine.trim();
+  if (line === '') {
+    return null;
+  }
+
+  let format: LogFormat | null = null;
+  let timestamp: string | null = null;
+  let level = 'INFO';
+  let channel = 'app';
+  let messageWithContext = line;
+
+  let matches: RegExpMatchArray | null;
+  if ((matches = line.match(LARAVEL_PATTERN))) {
+    format = 'laravel';
+    [, timestamp, channel, level, messageWithContext] = matches;
+  } else if ((matches = line.match(GENERIC_PATTERN))) {
+    format = 'generic';
+    [, timestamp, level, messageWithContext] = matches;
+  } else if ((matches = line.match(SIMPLE_PATTERN))) {
+    format = 'simple';
+    [, timestamp, level, messageWithContext] = matches;
+  } else {
+    // Fallback: try to extract any timestamp-like pattern
+    timestamp = line.match(TIMESTAMP_PATTERN)?.[1] ?? null;
+  }
+
+  let message = messageWithContext;
+  let context: Record<string, unknown> = {};
+  let extra: Record<string, unknown> = {};
+  const contextMatches = messageWithContext.match(CONTEXT_PATTERN);
+  if (contextMatches) {
+    message = contextMatches[1].trim();
+    context = parseContext(contextMatches[2]);
+    extra = contextMatches[3] ? parseContext(contextMatches[3]) : {};
+  }
+
+  return {
+    format,
+    lineNumber,
+    content: line,
+    message,
+    timestamp,
+    level: level.toUpperCase(),
+    channel,
+    category: detectCategory(message),
+    context,
+    extra,
+  };
+}
+
+/**
+ * json_decode() returns null on invalid JSON, which the server turns into an empty context.
+ */
+function parseContext(json: string): Record<string, unknown> {
+  try {
+    const value: unknown = JSON.parse(json);
+    return typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : {};
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,165 @@
+import type { LogEntry } from '@site/src/api';
+import { parseTimestamp } from './filter';
+
+/**
+ * Log templates mined with Drain (He et al., "Drain: An Online Log Parsing
+ * Approach with Fixed Depth Tree", ICWS 2017): messages are grouped by token
+ * count and leading tokens, then joined to the most similar template of their
+ * group, whose differing tokens become `<*>` slots.
+ */
+
+export const PATTERN_SLOT = '<*>';
+
+/** Leading tokens that route a message, below the token count: a tree of depth 4. */
+const PREFIX_TOKENS = 2;
+/** Share of tokens a message must have in common with a template to join it. */
+const SIMILARITY_THRESHOLD = 0.4;
+const MAX_EXAMPLES = 3;
+
+/** Values masked before mining, so that they never make a template of their own. */
+const VARIABLE_PATTERNS = [
+  /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi,
+  /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g,
+  /\b(?:\d{1,3}\.){3}\d{1,3}(?::\d+)?\b/g,
+  /\b0x[0-9a-f]+\b/gi,
+];
+
+export interface LogPattern {
+  id: string;
+  template: string;
+  count: number;
+  /** Logs per (uppercase) level. */
+  levels: Record<string, number>;
+  /** Timestamps as written in the logs; null when none could be read. */
+  firstSeen: string | null;
+  lastSeen: string | null;
+  examples: LogEntry[];
+}
+
+interface Cluster {
+  tokens: string[];
+  count: number;
+  levels: Record<string, number>;
+  first: { time: number; timestamp: string } | null;
+  last: { time: number; timestamp: string } | null;
+  examples: LogEntry[];
+}
+
+/** Tokens of a message, with numbers, ids, IPs and the like already slots. */
+export function tokenizeLogMessage(message: string): string[] {
+  const masked = VARIABLE_PATTERNS.reduce((text, pattern) => text.replace(pattern, PATTERN_SLOT), message);
+  return masked
+    .split(/\s+/)
+    .filter(token => token !== '')
+    .map(token => (token !== PATTERN_SLOT && /\d/.test(token) ? PATTERN_SLOT : token));
+}
+
+/** Tokens in the same place in both, slots of the template excluded. */
+function similarity(template: string[], tokens: string[]): { score: number; slots: number } {
+  let same = 0;
+  let slots = 0;
+  template.forEach((token, i) => {
+    if (token === PATTERN_SLOT) {
+      slots++;
+    } else if (token === tokens[i]) {
+      same++;
+    }
+  });
+  return { score: same / template.length, slots };
+}
+
+function addToCluster(cluster: Cluster, log: LogEntry): void {
+  cluster.count++;
+  const level = log.level.toUpperCase();
+  cluster.levels[level] = (cluster.levels[level] ?? 0) + 1;
+  const time = parseTimestamp(log.timestamp);
+  if (time !== null) {
+    if (!cluster.first || time < cluster.first.time) {
+      cluster.first = { time, timestamp: log.timestamp };
+    }
+    if (!cluster.last || time > cluster.last.time) {
+      cluster.last = { time, timestamp: log.timestamp };
+    }
+  }
+  if (cluster.examples.length < MAX_EXAMPLES) {
+    cluster.examples.push(log);
+  }
+}
+
+/**
+ * Templates of `logs`, most frequent first.
+ */
+export function mineLogPatterns(logs: LogEntry[]): LogPattern[] {
+  // The fixed-depth tree, flattened: token count and leading tokens make the key of a leaf
+  const leaves = new Map<string, Cluster[]>();
+  const clusters: Cluster[] = [];
+
+  for (const log of logs) {
+    const tokens = tokenizeLogMessage(log.message);
+    if (tokens.length === 0) {
+      continue;
+    }
+    const key = [tokens.length, ...tokens.slice(0, PREFIX_TOKENS)].join(' ');
+    const leaf = leaves.get(key) ?? [];
+    leaves.set(key, leaf);
+
+    let best: Cluster | null = null;
+    let bestScore = -1;
+    let bestSlots = -1;
+    for (const cluster of leaf) {
+      const { score, slots } = similarity(cluster.tokens, tokens);
+      if (score > bestScore || (score === bestScore && slots > bestSlots)) {
+        best = cluster;
+        bestScore = score;
+        bestSlots = slots;
+      }
+    }
+
+    if (best && bestScore >= SIMILARITY_THRESHOLD) {
+      best.tokens = best.tokens.map((token, i) => (token === tokens[i] ? token : PATTERN_SLOT));
+    } else {
+      best = { tokens, count: 0, levels: {}, first: null, last: null, examples: [] };
+      leaf.push(best);
+      clusters.push(best);
+    }
+    addToCluster(best, log);
+  }
+
+  const pad = (n: number) => String(n).padStart(3, '0');
+  return clusters
+    .sort((a, b) => b.count - a.count)
+    .map((cluster, i) => ({
+      id: `pat_${pad(i + 1)}`,
+      template: cluster.tokens.join(' '),
+      count: cluster.count,
+      levels: cluster.levels,
+      firstSeen: cluster.first?.timestamp ?? null,
+      lastSeen: cluster.last?.timestamp ?? null,
+      examples: cluster.examples,
+    }));
+}
+
+/**
+ * Question sent to the chat for "Ask about this pattern".
+ */
+export function patternQuestion(pattern: LogPattern): string {
+  const seen = pattern.firstSeen
+    ? pattern.firstSeen === pattern.lastSeen
+      ? `at ${pattern.firstSeen}`
+      : `from ${pattern.firstSeen} to ${pattern.lastSeen}`
+    : 'at unknown times';
+  const levels = Object.entries(pattern.levels)
+    .map(([level, count]) => `${count} ${level}`)
+    .join(', ');
+  const examples = pattern.examples.map(log => `- [${log.id}] ${log.timestamp} ${log.level}: ${log.message}`);
+  return [
+    `This log pattern occurs ${pattern.count} times (${levels}), ${seen}:`,
+    '',
+    `\`${pattern.template}\``,
+    '',
+    'Examples:',
+    ...examples,
+    '',
+    'What does it mean, what causes it, and does it need fixing?',
+  ].join('\n');
+}
@@ -0,0 +1,115 @@
+import { parseLogLine, type LogFormat, type ParsedLogLine } from './parser';
+
+/** Enough lines to judge the format without reading a multi-hundred-MB file. */
+export const PREVIEW_MAX_BYTES = 2 * 1024 * 1024;
+
+export interface UnparsedLine {
+  lineNumber: number;
+  content: string;
+}
+
+export interface LogFilePreview {
+  /** Most frequent matching pattern; null when no line matched any of them. */
+  format: LogFormat | null;
+  formatCounts: Partial<Record<LogFormat, number>>;
+  totalLines: number;
+  parsedLines: number;
+  levels: Record<string, number>;
+  categories: Record<string, number>;
+  firstTimestamp: string | null;
+  lastTimestamp: string | null;
+  missingTimestamps: number;
+  /** First lines of the file, for the preview table. */
+  rows: ParsedLogLine[];
+  unparsed: UnparsedLine[];
+  unparsedCount: number;
+  /** True when only the beginning of the file was analyzed. */
+  truncated: boolean;
+  bytesRead: number;
+}
+
+export interface PreviewOptions {
+  maxBytes?: number;
+  maxRows?: number;
+  maxUnparsed?: number;
+}
+
+export async function previewLogFile(file: Blob, options: PreviewOptions = {}): Promise<LogFilePreview> {
+  const maxBytes = options.maxBytes ?? PREVIEW_MAX_BYTES;
+  const truncated = file.size > maxBytes;
+  let text = await file.slice(0, maxBytes).text();
+  if (truncated) {
+    // The last line is most likely cut in half
+    text = text.slice(0, text.lastIndexOf('\n') + 1);
+  }
+  return {
+    ...previewLogText(text, options),
+    truncated,
+    bytesRead: Math.min(file.size, maxBytes),
+  };
+}
+
+export function previewLogText(
+  text: string,
+  { maxRows = 10, maxUnparsed = 20 }: PreviewOptions = {},
+): Omit<LogFilePreview, 'truncated' | 'bytesRead'> {
+  const preview: Omit<LogFilePreview, 'truncated' | 'bytesRead'> = {
+    format: null,
+    formatCounts: {},
+    totalLines: 0,
+    parsedLines: 0,
+    levels: {},
+    categories: {},
+    firstTimestamp: null,
+    lastTimestamp: null,
+    missingTimestamps: 0,
+    rows: [],
+    unparsed: [],
+    unparsedCount: 0,
+  };
+
+  text.split(/\r?\n/).forEach((line, i) => {
+    const parsed = parseLogLine(line, i + 1);
+    if (!parsed) {
+      return;
+    }
+    preview.totalLines++;
+    if (preview.rows.length < maxRows) {
+      preview.rows.push(parsed);
+    }
+
+    if (parsed.format) {
+      preview.parsedLines++;
+      preview.formatCounts[parsed.format] = (preview.formatCounts[parsed.format] ?? 0) + 1;
+    } else {
+      preview.unparsedCount++;
+      if (preview.unparsed.length < maxUnparsed) {
+        preview.unparsed.push({ lineNumber: parsed.lineNumber, content: parsed.content });
+      }
+    }
+
+    preview.levels[parsed.level] = (preview.levels[parsed.level] ?? 0) + 1;
+    preview.categories[parsed.category] = (preview.categories[parsed.category] ?? 0) + 1;
+
+    if (parsed.timestamp === null) {
+      preview.missingTimestamps++;
+      return;
+    }
+    const timestamp = parsed.timestamp.replace('T', ' ');
+    if (preview.firstTimestamp === null || timestamp < preview.firstTimestamp) {
+      preview.firstTimestamp = timestamp;
+    }
+    if (preview.lastTimestamp === null || timestamp > preview.lastTimestamp) {
+      preview.lastTimestamp = timestamp;
+    }
+  });
+
+  let best = 0;
+  for (const [format, count] of Object.entries(preview.formatCounts) as Array<[LogFormat, number]>) {
+    if (count > best) {
+      best = count;
+      preview.format = format;
+    }
+  }
+  return preview;
+}
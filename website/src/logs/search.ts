@@ -0,0 +1,219 @@
+import type { LogEntry } from '@site/src/api';
+
+/**
+ * In-browser keyword search: an inverted index ranked with BM25F.
+ *
+ * Field weights and the extra terms follow performKeywordSearch() in
+ * src/Tool/LogSearchTool.php, where a matching word scores 2, the category 8,
+ * the level 5, a synonym 3 and the whole query 10, so that this ranking lines
+ * up with what the agent finds when it falls back to keyword search.
+ */
+
+type Field = 'message' | 'category' | 'level' | 'context';
+
+/** Relative to a word of the message (2 points on the PHP side). */
+const FIELD_WEIGHTS: Record<Field, number> = { message: 1, category: 4, level: 2.5, context: 0.5 };
+const SYNONYM_WEIGHT = 1.5;
+const PHRASE_WEIGHT = 5;
+/** Terms the query word is only a prefix of, e.g. while it is being typed. */
+const PREFIX_WEIGHT = 0.5;
+const K1 = 1.2;
+const B = 0.75;
+
+/** Same map as LogSearchTool::getSemanticMatches(). */
+const SEMANTIC_SYNONYMS: Record<string, string[]> = {
+  payment: ['stripe', 'paypal', 'gateway', 'transaction', 'checkout', 'billing'],
+  error: ['exception', 'failure', 'problem', 'issue', 'bug'],
+  timeout: ['slow', 'delay', 'hang', 'freeze'],
+  database: ['db', 'sql', 'mysql', 'postgres', 'connection', 'query'],
+  connection: ['connect', 'link', 'network', 'socket'],
+  security: ['auth', 'authentication', 'login', 'breach', 'attack'],
+  attack: ['hack', 'intrusion', 'malicious', 'threat'],
+  performance: ['slow', 'fast', 'speed', 'optimization', 'memory', 'cpu'],
+  memory: ['ram', 'heap', 'allocation', 'leak'],
+};
+
+const WORD_PATTERN = /[\p{L}\p{N}_]+/gu;
+
+export interface LogSearchIndex {
+  logs: LogEntry[];
+  /** Term -> log index -> field-weighted term frequency, normalised by field length. */
+  postings: Map<string, Map<number, number>>;
+  /** Every term, sorted, for prefix lookups. */
+  terms: string[];
+}
+
+export interface LogSearchHit {
+  log: LogEntry;
+  score: number;
+  /** Terms of the query (synonyms included) found in the log, for highlighting. */
+  terms: string[];
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Lowercased, with a plural "s" dropped, so "payments" finds "payment".
+ */
+export function normalizeTerm(word: string): string {
+  const term = word.toLowerCase();
+  return term.length > 3 && term.endsWith('s') && !term.endsWith('ss') ? term.slice(0, -1) : term;
+}
+
+function tokenize(text: string): string[] {
+  return (text.match(WORD_PATTERN) ?? []).map(normalizeTerm).filter(term => term.length > 1);
+}
+
+/** Keys and values of the context, nested ones included. */
+function flattenContext(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (typeof value !== 'object') {
+    return String(value);
+  }
+  return Object.entries(value as Record<string, unknown>)
+    .map(([key, nested]) => (Array.isArray(value) ? flattenContext(nested) : `${key} ${flattenContext(nested)}`))
+    .join(' ');
+}
+
+export function buildLogSearchIndex(logs: LogEntry[]): LogSearchIndex {
+  const fieldTokens = logs.map(log => ({
+    message: tokenize(log.message),
+    category: tokenize(log.category ?? ''),
+    level: tokenize(log.level),
+    context: tokenize(flattenContext(log.context)),
+  }));
+
+  const fields = Object.keys(FIELD_WEIGHTS) as Field[];
+  const averageLength = Object.fromEntries(
+    fields.map(field => [
+      field,
+      Math.max(1, fieldTokens.reduce((sum, tokens) => sum + tokens[field].length, 0) / Math.max(1, logs.length)),
+    ]),
+  ) as Record<Field, number>;
+
+  const postings = new Map<string, Map<number, number>>();
+  fieldTokens.forEach((tokens, index) => {
+    for (const field of fields) {
+      const norm = 1 - B + (B * tokens[field].length) / averageLength[field];
+      for (const term of tokens[field]) {
+        let posting = postings.get(term);
+        if (!posting) {
+          posting = new Map();
+          postings.set(term, posting);
+        }
+        posting.set(index, (posting.get(index) ?? 0) + FIELD_WEIGHTS[field] / norm);
+      }
+    }
+  });
+
+  return { logs, postings, terms: [...postings.keys()].sort() };
+}
+
+/**
+ * Query words longer than two characters, like the PHP side, each with the
+ * synonyms of getSemanticMatches() when the query mentions their key.
+ */
+function queryTerms(query: string): Map<string, number> {
+  const terms = new Map<string, number>();
+  const lower = query.toLowerCase();
+  for (const [key, synonyms] of Object.entries(SEMANTIC_SYNONYMS)) {
+    if (lower.includes(key)) {
+      synonyms.forEach(synonym => terms.set(synonym, SYNONYM_WEIGHT));
+    }
+  }
+  for (const word of lower.match(WORD_PATTERN) ?? []) {
+    if (word.length > 2) {
+      terms.set(normalizeTerm(word), 1);
+    }
+  }
+  return terms;
+}
+
+/** Indexed terms starting with `prefix`. */
+function termsWithPrefix(sortedTerms: string[], prefix: string): string[] {
+  let low = 0;
+  let high = sortedTerms.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (sortedTerms[middle] < prefix) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  const matches: string[] = [];
+  for (let i = low; i < sortedTerms.length && sortedTerms[i].startsWith(prefix); i++) {
+    matches.push(sortedTerms[i]);
+  }
+  return matches;
+}
+
+/**
+ * Logs matching any term of `query`, best first.
+ */
+export function searchLogIndex(index: LogSearchIndex, query: string, limit = 50): LogSearchHit[] {
+  const total = index.logs.length;
+  const scores = new Map<number, { score: number; terms: Set<string> }>();
+  let bestIdf = 0;
+
+  for (const [queryTerm, weight] of queryTerms(query)) {
+    for (const term of termsWithPrefix(index.terms, queryTerm)) {
+      const posting = index.postings.get(term);
+      if (!posting) {
+        continue;
+      }
+      const idf = Math.log(1 + (total - posting.size + 0.5) / (posting.size + 0.5));
+      const termWeight = weight * (term === queryTerm ? 1 : PREFIX_WEIGHT);
+      bestIdf = Math.max(bestIdf, idf);
+      for (const [logIndex, frequency] of posting) {
+        const entry = scores.get(logIndex) ?? { score: 0, terms: new Set<string>() };
+        entry.score += termWeight * idf * (frequency / (K1 + frequency));
+        entry.terms.add(queryTerm);
+        scores.set(logIndex, entry);
+      }
+    }
+  }
+
+  // The whole query found as is, the strongest signal on the PHP side too
+  const phrase = query.trim().toLowerCase();
+  const hits: LogSearchHit[] = [];
+  for (const [logIndex, { score, terms }] of scores) {
+    const log = index.logs[logIndex];
+    const phraseBonus = phrase.includes(' ') && log.message.toLowerCase().includes(phrase) ? PHRASE_WEIGHT * bestIdf : 0;
+    hits.push({ log, score: score + phraseBonus, terms: [...terms] });
+  }
+
+  return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+/**
+ * Splits `text` around the words that match `terms` (the terms of a hit).
+ */
+export function highlightTerms(text: string, terms: string[]): HighlightSegment[] {
+  if (terms.length === 0) {
+    return [{ text, match: false }];
+  }
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+  for (const word of text.matchAll(WORD_PATTERN)) {
+    const term = normalizeTerm(word[0]);
+    if (!terms.some(queryTerm => term.startsWith(queryTerm))) {
+      continue;
+    }
+    const start = word.index ?? 0;
+    if (start > last) {
+      segments.push({ text: text.slice(last, start), match: false });
+    }
+    segments.push({ text: word[0], match: true });
+    last = start + word[0].length;
+  }
+  if (last < text.length) {
+    segments.push({ text: text.slice(last), match: false });
+  }
+  return segments;
+}
@@ -0,0 +1,158 @@
+import type { LogEntry } from '@site/src/api';
+import { buildLogHistogram } from './histogram';
+import { TRACE_CONTEXT_KEYS, extractIdentifiers, identifiersFromContext } from './identifiers';
+
+/**
+ * Questions worth asking about the logs that are loaded, instead of a fixed
+ * list that only makes sense with the sample files.
+ */
+
+export interface SuggestedQuestion {
+  label: string;
+  icon: string;
+}
+
+/**
+ * Levels of failing logs, those of RequestContextTool::FAILURE_LEVELS; the
+ * suggestions are built from these, as sent to `/logs`.
+ */
+export const FAILING_LEVELS = ['error', 'critical', 'alert', 'emergency', 'fatal'];
+
+const SPIKE_BUCKETS = 24;
+/** A bucket is a spike with this many times the average errors per bucket, and at least SPIKE_MIN_ERRORS. */
+const SPIKE_RATIO = 2;
+const SPIKE_MIN_ERRORS = 3;
+
+/**
+ * Class names ending in Exception or Error, namespaced or not:
+ * PDOException, Stripe\Exception\CardException, TypeError...
+ */
+const EXCEPTION_PATTERN = /\b(?:[A-Z][A-Za-z0-9]*\\+)*[A-Z][A-Za-z0-9]*(?:Exception|Error)\b/g;
+
+export function categoryIcon(category?: string): string {
+  switch (category) {
+    case 'payment': return '💳';
+    case 'database': return '🗄️';
+    case 'security': return '🛡️';
+    case 'application': return '🐛';
+    case 'performance': return '⚡';
+    case 'laravel': return '🔴';
+    case 'kubernetes': return '☸️';
+    case 'microservices': return '🔗';
+    default: return '📋';
+  }
+}
+
+/** Short names, "CardException" for Stripe\Exception\CardException. */
+export function extractExceptionClasses(text: string): string[] {
+  return [...new Set((text.match(EXCEPTION_PATTERN) ?? []).map(name => name.split('\\').pop() ?? name))];
+}
+
+/** Identifiers in `text`, without the key names themselves ("request_id" in a message). */
+function identifiersIn(text: string): string[] {
+  return extractIdentifiers(text).filter(identifier => !TRACE_CONTEXT_KEYS.includes(identifier.toLowerCase()));
+}
+
+function contextText(log: LogEntry): string {
+  return log.context ? JSON.stringify(log.context) : '';
+}
+
+/** Keys by count, highest first; ties keep the order they were first seen in. */
+function mostFrequent(values: string[], limit: number): string[] {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([value]) => value);
+}
+
+/** Start of the latest bucket with far more errors than usual. */
+function latestSpike(failing: LogEntry[]): { from: string; count: number } | null {
+  const histogram = buildLogHistogram(failing, SPIKE_BUCKETS);
+  if (!histogram || histogram.buckets.length < 2) {
+    return null;
+  }
+  const totals = histogram.buckets.map(bucket => Object.values(bucket.counts).reduce((sum, n) => sum + n, 0));
+  const average = failing.length / totals.length;
+  for (let i = totals.length - 1; i >= 0; i--) {
+    if (totals[i] >= SPIKE_MIN_ERRORS && totals[i] >= average * SPIKE_RATIO) {
+      return { from: histogram.buckets[i].start, count: totals[i] };
+    }
+  }
+  return null;
+}
+
+/**
+ * Suggestions from the failing logs of the session: the categories with the
+ * most errors, the most frequent exception classes, requests that failed and
+ * the latest spike of errors. General questions fill in when there is little
+ * to go on.
+ */
+export function suggestQuestions(failing: LogEntry[], limit = 8): SuggestedQuestion[] {
+  const questions: SuggestedQuestion[] = [];
+
+  const spike = latestSpike(failing);
+  if (spike) {
+    questions.push({ label: `What caused the ${spike.count} errors around ${spike.from}?`, icon: '📈' });
+  }
+
+  for (const category of mostFrequent(failing.map(log => log.category ?? 'general'), 3)) {
+    questions.push({ label: `Why are there ${category} errors?`, icon: categoryIcon(category) });
+  }
+
+  const exceptions = failing.flatMap(log => extractExceptionClasses(`${log.message} ${contextText(log)}`));
+  for (const exception of mostFrequent(exceptions, 2)) {
+    questions.push({ label: `What causes the ${exception}?`, icon: '💥' });
+  }
+
+  const identifiers = failing.flatMap(log => [
+    ...identifiersFromContext(log.context),
+    ...identifiersIn(log.message),
+  ]);
+  for (const identifier of mostFrequent(identifiers, 2)) {
+    questions.push({ label: `Why did ${identifier} fail?`, icon: '🔎' });
+  }
+
+  if (failing.length === 0) {
+    questions.push({ label: 'Are there any warnings worth a look?', icon: '⚠️' });
+  }
+  questions.push({ label: 'Summarize the most important issues in these logs', icon: '🧭' });
+
+  return questions.slice(0, limit);
+}
+
+/**
+ * Follow-up questions on an answer: trace the identifiers it mentions, date
+ * the exceptions it names, and widen to the categories of its evidence.
+ */
+export function suggestFollowUps(answer: string, evidence: LogEntry[] = [], limit = 3): SuggestedQuestion[] {
+  const evidenceText = evidence.map(log => `${log.message} ${contextText(log)}`).join(' ');
+  const questions: SuggestedQuestion[] = [];
+
+  const identifiers = [
+    ...identifiersIn(answer),
+    ...evidence.flatMap(log => identifiersFromContext(log.context)),
+  ];
+  const identifier = [...new Set(identifiers)][0];
+  if (identifier) {
+    questions.push({ label: `Trace ${identifier} across all services`, icon: '🧵' });
+  }
+
+  const exception = extractExceptionClasses(`${answer} ${evidenceText}`)[0];
+  if (exception) {
+    questions.push({ label: `When did ${exception} first appear, and how often since?`, icon: '💥' });
+  }
+
+  const category = mostFrequent(
+    evidence.map(log => log.category).filter((value): value is string => Boolean(value)),
+    1,
+  )[0];
+  if (category) {
+    questions.push({ label: `Are other ${category} logs affected around the same time?`, icon: categoryIcon(category) });
+  }
+
+  questions.push({ label: 'What should we fix first, and how do we prevent it?', icon: '🛠️' });
+
+  return questions.slice(0, limit);
+}
@@ -0,0 +1,500 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import Layout from '@theme/Layout';
+import {
+  createPlaygroundClient,
+  describeError,
+  isAbortError,
+  type PlatformCatalogResponse,
+  type PlatformId,
+} from '@site/src/api';
+import CredentialProfiles from '@site/src/components/CredentialProfiles';
+import {
+  SAMPLE_SUITE,
+  parseEvaluationSuite,
+  runEvaluation,
+  summarizeResults,
+  type CaseResult,
+  type EvaluationRun,
+  type EvaluationSuite,
+  type RunSummary,
+} from '@site/src/evaluation';
+import {
+  deleteEvaluationRun,
+  listEvaluationRuns,
+  saveEvaluationRun,
+  type CredentialProfile,
+} from '@site/src/storage';
+import styles from './evaluation.module.css';
+
+const PLATFORMS: Array<{ id: PlatformId; name: string; icon: string }> = [
+  { id: 'openai', name: 'OpenAI', icon: '🟢' },
+  { id: 'anthropic', name: 'Anthropic', icon: '🟤' },
+  { id: 'ollama', name: 'Ollama', icon: '🦙' },
+];
+
+const DEFAULT_OLLAMA_HOST = 'http://localhost:11434';
+
+function formatPercent(value: number | null): string {
+  return value === null ? '—' : `${Math.round(value * 100)}%`;
+}
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms}ms`;
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+function formatTokens(tokens: number | null): string {
+  return tokens === null ? 'n/a' : tokens.toLocaleString();
+}
+
+/** Green from 80%, red under 50%. */
+function scoreClass(value: number | null): string {
+  if (value === null) return '';
+  if (value >= 0.8) return styles.good;
+  return value < 0.5 ? styles.bad : styles.fair;
+}
+
+function SummaryCells({ summary }: { summary: RunSummary }) {
+  return (
+    <>
+      <td className={scoreClass(summary.precision)}>{formatPercent(summary.precision)}</td>
+      <td className={scoreClass(summary.recall)}>{formatPercent(summary.recall)}</td>
+      <td className={scoreClass(summary.keywordHitRate)}>{formatPercent(summary.keywordHitRate)}</td>
+      <td>{formatDuration(Math.round(summary.averageDurationMs))}</td>
+      <td>{formatTokens(summary.totalTokens)}</td>
+      <td className={summary.failures > 0 ? styles.bad : ''}>
+        {summary.failures} / {summary.cases}
+      </td>
+    </>
+  );
+}
+
+/**
+ * Asks a suite of questions with known answers to a platform and model, and
+ * scores the answers: evidence precision and recall, expected keywords,
+ * latency and failures. Runs are kept in this browser to compare models and
+ * prompt changes over time.
+ */
+export default function Evaluation(): React.ReactNode {
+  const api = useMemo(() => createPlaygroundClient(), []);
+  const [catalog, setCatalog] = useState<PlatformCatalogResponse | null>(null);
+  const [platform, setPlatform] = useState<PlatformId>('openai');
+  const [brainModel, setBrainModel] = useState('');
+  const [embeddingModel, setEmbeddingModel] = useState('');
+  const [apiKey, setApiKey] = useState('');
+  const [ollamaHost, setOllamaHost] = useState(DEFAULT_OLLAMA_HOST);
+  const [label, setLabel] = useState('');
+
+  const [suite, setSuite] = useState<EvaluationSuite>(SAMPLE_SUITE);
+  const [suiteError, setSuiteError] = useState<string | null>(null);
+  const [showCases, setShowCases] = useState(false);
+  const suiteInputRef = useRef<HTMLInputElement>(null);
+
+  const [results, setResults] = useState<CaseResult[]>([]);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [runError, setRunError] = useState<string | null>(null);
+  const [runs, setRuns] = useState<EvaluationRun[]>([]);
+  const [viewedRun, setViewedRun] = useState<EvaluationRun | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const catalogEntry = catalog?.platforms.find(entry => entry.id === platform);
+  const requiresApiKey = catalogEntry?.requires_api_key ?? platform !== 'ollama';
+  const running = progress !== null;
+
+  const refreshRuns = () => {
+    listEvaluationRuns()
+      .then(setRuns)
+      .catch(() => setRuns([]));
+  };
+
+  useEffect(() => {
+    refreshRuns();
+    return () => controllerRef.current?.abort();
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    api
+      .platforms(platform === 'ollama' ? ollamaHost.trim() : undefined, { signal: controller.signal })
+      .then(setCatalog)
+      .catch(() => undefined);
+    return () => controller.abort();
+  }, [api, platform, ollamaHost]);
+
+  // The catalog defaults, unless a model was already picked for this platform
+  useEffect(() => {
+    if (catalogEntry) {
+      setBrainModel(current => current || catalogEntry.default_brain_model);
+      setEmbeddingModel(current => current || (catalogEntry.default_embedding_model ?? ''));
+    }
+  }, [catalogEntry]);
+
+  const selectPlatform = (id: PlatformId) => {
+    setPlatform(id);
+    setBrainModel('');
+    setEmbeddingModel('');
+  };
+
+  const applyCredentialProfile = (profile: CredentialProfile) => {
+    setPlatform(profile.platform);
+    setBrainModel(profile.brainModel);
+    setEmbeddingModel(profile.embeddingModel);
+    setApiKey(profile.apiKey);
+    if (profile.ollamaHost) {
+      setOllamaHost(profile.ollamaHost);
+    }
+  };
+
+  const loadSuite = async (file: File) => {
+    try {
+      setSuite(parseEvaluationSuite(await file.text(), file.name));
+      setSuiteError(null);
+    } catch (error) {
+      setSuiteError(`Could not read "${file.name}": ${describeError(error, 'invalid suite')}`);
+    }
+  };
+
+  const startRun = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const startedAt = new Date().toISOString();
+    const collected: CaseResult[] = [];
+    setResults([]);
+    setViewedRun(null);
+    setRunError(null);
+    setProgress('Indexing the sample logs...');
+
+    try {
+      await runEvaluation(
+        api,
+        suite,
+        {
+          platform,
+          brain_model: brainModel.trim(),
+          embedding_model: embeddingModel.trim(),
+          api_key: requiresApiKey ? apiKey.trim() : '',
+          ollama_host: requiresApiKey ? '' : ollamaHost.trim(),
+        },
+        {
+          signal: controller.signal,
+          onProgress: setProgress,
+          onResult: result => {
+            collected.push(result);
+            setResults([...collected]);
+          },
+        },
+      );
+      const run: EvaluationRun = {
+        id: `run-${Date.now()}`,
+        label: label.trim(),
+        suiteName: suite.name,
+        platform,
+        brainModel: brainModel.trim(),
+        embeddingModel: embeddingModel.trim(),
+        apiUrl: api.baseUrl,
+        startedAt,
+        finishedAt: new Date().toISOString(),
+        results: collected,
+        summary: summarizeResults(collected),
+      };
+      await saveEvaluationRun(run).catch(() => undefined);
+      setViewedRun(run);
+      refreshRuns();
+    } catch (error) {
+      setRunError(
+        isAbortError(error) ? '⏹️ Run stopped; it was not saved.' : `❌ ${describeError(error, 'The run failed')}`,
+      );
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+      }
+      setProgress(null);
+    }
+  };
+
+  const removeRun = (id: string) => {
+    deleteEvaluationRun(id)
+      .then(refreshRuns)
+      .catch(() => undefined);
+    if (viewedRun?.id === id) {
+      setViewedRun(null);
+      setResults([]);
+    }
+  };
+
+  const shownResults = viewedRun?.results ?? results;
+  const canRun = !running && brainModel.trim() !== '' && (!requiresApiKey || apiKey.trim() !== '');
+
+  return (
+    <Layout title="Evaluation" description="Score the AI Log Inspector agent against questions with known answers">
+      <main className={styles.page}>
+        <header className={styles.header}>
+          <h1>🧪 Evaluation</h1>
+          <p>
+            Asks every question of a suite over the sample logs of <code>test/fixtures/logs</code>, through the
+            playground API at <code>{api.baseUrl}</code>, and scores the answers against the expected evidence ids and
+            keywords.
+          </p>
+        </header>
+
+        <section className={styles.panel}>
+          <h2>Model</h2>
+          <div className={styles.fields}>
+            <label>
+              Platform
+              <select value={platform} onChange={e => selectPlatform(e.target.value as PlatformId)} disabled={running}>
+                {PLATFORMS.map(option => (
+                  <option key={option.id} value={option.id}>
+                    {option.icon} {option.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Brain model
+              <input
+                list="evaluation-brain-models"
+                value={brainModel}
+                onChange={e => setBrainModel(e.target.value)}
+                disabled={running}
+              />
+              <datalist id="evaluation-brain-models">
+                {catalogEntry?.brain_models.map(model => <option key={model.name} value={model.name} />)}
+              </datalist>
+            </label>
+            <label>
+              Embedding model
+              <input
+                list="evaluation-embedding-models"
+                value={embeddingModel}
+                onChange={e => setEmbeddingModel(e.target.value)}
+                disabled={running}
+              />
+              <datalist id="evaluation-embedding-models">
+                {catalogEntry?.embedding_models.map(model => <option key={model.name} value={model.name} />)}
+              </datalist>
+            </label>
+            {requiresApiKey ? (
+              <label>
+                API key
+                <input type="password" value={apiKey} onChange={e => setApiKey(e.target.value)} disabled={running} />
+              </label>
+            ) : (
+              <label>
+                Ollama host
+                <input value={ollamaHost} onChange={e => setOllamaHost(e.target.value)} disabled={running} />
+              </label>
+            )}
+            <label>
+              Run label
+              <input
+                value={label}
+                onChange={e => setLabel(e.target.value)}
+                placeholder="e.g. prompt v2"
+                disabled={running}
+              />
+            </label>
+          </div>
+          <CredentialProfiles
+            current={{
+              platform,
+              brainModel,
+              embeddingModel,
+              apiKey: requiresApiKey ? apiKey.trim() : '',
+              ollamaHost: requiresApiKey ? '' : ollamaHost.trim(),
+            }}
+            platformIcons={Object.fromEntries(PLATFORMS.map(option => [option.id, option.icon]))}
+            defaultName={`${PLATFORMS.find(option => option.id === platform)?.name} ${brainModel}`}
+            onUnlock={applyCredentialProfile}
+            onForgetAll={() => setApiKey('')}
+          />
+        </section>
+
+        <section className={styles.panel}>
+          <h2>Suite</h2>
+          <div className={styles.suiteBar}>
+            <span>
+              <strong>{suite.name}</strong> · {suite.cases.length} question{suite.cases.length === 1 ? '' : 's'}
+            </span>
+            <button type="button" className={styles.secondaryButton} onClick={() => setShowCases(!showCases)}>
+              {showCases ? 'Hide questions' : 'Show questions'}
+            </button>
+            <button
+              type="button"
+              className={styles.secondaryButton}
+              onClick={() => suiteInputRef.current?.click()}
+              disabled={running}
+              title="JSON suite, or a feedback dataset exported from the playground (JSONL)"
+            >
+              📂 Load suite
+            </button>
+            {suite !== SAMPLE_SUITE && (
+              <button
+                type="button"
+                className={styles.secondaryButton}
+                onClick={() => setSuite(SAMPLE_SUITE)}
+                disabled={running}
+              >
+                Back to the sample suite
+              </button>
+            )}
+            <input
+              ref={suiteInputRef}
+              type="file"
+              accept=".json,.jsonl,application/json"
+              className={styles.fileInput}
+              onChange={event => {
+                const file = event.target.files?.[0];
+                event.target.value = '';
+                if (file) {
+                  loadSuite(file);
+                }
+              }}
+            />
+          </div>
+          {suiteError && <div className={styles.error}>{suiteError}</div>}
+          {showCases && (
+            <ol className={styles.cases}>
+              {suite.cases.map(evaluationCase => (
+                <li key={evaluationCase.id}>
+                  {evaluationCase.question}
+                  <small>
+                    {evaluationCase.expectedEvidenceIds.length > 0 &&
+                      ` · evidence ${evaluationCase.expectedEvidenceIds.join(', ')}`}
+                    {evaluationCase.expectedKeywords.length > 0 &&
+                      ` · keywords ${evaluationCase.expectedKeywords.join(', ')}`}
+                  </small>
+                </li>
+              ))}
+            </ol>
+          )}
+        </section>
+
+        <div className={styles.runBar}>
+          {running ? (
+            <button type="button" className={styles.stopButton} onClick={() => controllerRef.current?.abort()}>
+              ⏹️ Stop
+            </button>
+          ) : (
+            <button type="button" className={styles.runButton} onClick={startRun} disabled={!canRun}>
+              ▶️ Run {suite.cases.length} questions
+            </button>
+          )}
+          {progress && <span className={styles.progress}>⏳ {progress}</span>}
+          {runError && <span className={styles.error}>{runError}</span>}
+        </div>
+
+        {shownResults.length > 0 && (
+          <section className={styles.panel}>
+            <h2>
+              Results
+              {viewedRun && (
+                <small>
+                  {' '}
+                  · {viewedRun.brainModel}
+                  {viewedRun.label && ` (${viewedRun.label})`} · {new Date(viewedRun.startedAt).toLocaleString()}
+                </small>
+              )}
+            </h2>
+            <div className={styles.tableWrapper}>
+              <table className={styles.table}>
+                <thead>
+                  <tr>
+                    <th>Question</th>
+                    <th>Precision</th>
+                    <th>Recall</th>
+                    <th>Keywords</th>
+                    <th>Latency</th>
+                    <th>Tokens</th>
+                    <th>Evidence</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {shownResults.map(result => (
+                    <tr key={result.caseId}>
+                      <td title={result.answer}>{result.question}</td>
+                      {result.error ? (
+                        <td colSpan={6} className={styles.bad}>
+                          ❌ {result.error}
+                        </td>
+                      ) : (
+                        <>
+                          <td className={scoreClass(result.precision)}>{formatPercent(result.precision)}</td>
+                          <td className={scoreClass(result.recall)}>{formatPercent(result.recall)}</td>
+                          <td
+                            title={result.missingKeywords.length > 0 ? `Missing: ${result.missingKeywords.join(', ')}` : ''}
+                          >
+                            {result.keywordHits.length} / {result.keywordHits.length + result.missingKeywords.length}
+                          </td>
+                          <td>{formatDuration(result.durationMs)}</td>
+                          <td>{formatTokens(result.usage?.total_tokens ?? null)}</td>
+                          <td className={styles.ids}>
+                            {result.evidenceIds.map(id => (
+                              <span
+                                key={id}
+                                className={result.expectedEvidenceIds.includes(id) ? styles.expectedId : styles.extraId}
+                              >
+                                {id}
+                              </span>
+                            ))}
+                          </td>
+                        </>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        )}
+
+        <section className={styles.panel}>
+          <h2>Saved runs</h2>
+          {runs.length === 0 ? (
+            <p className={styles.empty}>Finished runs are saved in this browser, to compare with the next ones.</p>
+          ) : (
+            <div className={styles.tableWrapper}>
+              <table className={styles.table}>
+                <thead>
+                  <tr>
+                    <th>Date</th>
+                    <th>Model</th>
+                    <th>Suite</th>
+                    <th>Precision</th>
+                    <th>Recall</th>
+                    <th>Keywords</th>
+                    <th>Avg latency</th>
+                    <th>Tokens</th>
+                    <th>Failures</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {runs.map(run => (
+                    <tr key={run.id} className={viewedRun?.id === run.id ? styles.selectedRow : ''}>
+                      <td>{new Date(run.startedAt).toLocaleString()}</td>
+                      <td title={`${run.platform} · ${run.embeddingModel} · ${run.apiUrl}`}>
+                        {run.brainModel}
+                        {run.label && <small> ({run.label})</small>}
+                      </td>
+                      <td>{run.suiteName}</td>
+                      <SummaryCells summary={run.summary} />
+                      <td className={styles.rowActions}>
+                        <button type="button" onClick={() => setViewedRun(run)} title="Show the answers of this run">
+                          👁️
+                        </button>
+                        <button type="button" onClick={() => removeRun(run.id)} title="Delete this run">
+                          🗑️
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+      </main>
+    </Layout>
+  );
+}
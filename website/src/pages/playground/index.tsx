@@ -1,5 +1,105 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
 import Layout from '@theme/Layout';
+import { usePluginData } from '@docusaurus/useGlobalData';
+import {
+  createPlaygroundClient,
+  describeError,
+  formatEta,
+  isAbortError,
+  uploadInChunks,
+  waitForIndexing,
+  type InitStatusResponse,
+  type LogEntry,
+  type CatalogModel,
+  type CompareCandidate,
+  type LogsQuery,
+  type PlatformCatalogEntry,
+  type PlatformCatalogResponse,
+  type PlatformCredentials,
+  type PlatformId,
+  type TokenUsage,
+  type ToolCall,
+} from '@site/src/api';
+import LogDetailDrawer from '@site/src/components/LogDetailDrawer';
+import LogExplorer from '@site/src/components/LogExplorer';
+import LogSearch from '@site/src/components/LogSearch';
+import LogPatterns from '@site/src/components/LogPatterns';
+import SuggestedQuestions from '@site/src/components/SuggestedQuestions';
+import InvestigationList from '@site/src/components/InvestigationList';
+import CredentialProfiles from '@site/src/components/CredentialProfiles';
+import ModelComparison from '@site/src/components/ModelComparison';
+import PriceTable from '@site/src/components/PriceTable';
+import InsightsPanel from '@site/src/components/InsightsPanel';
+import LogParsePreview from '@site/src/components/LogParsePreview';
+import Markdown from '@site/src/components/Markdown';
+import ReportMenu from '@site/src/components/ReportMenu';
+import FeedbackControls from '@site/src/components/FeedbackControls';
+import ToolCallsPanel from '@site/src/components/ToolCallsPanel';
+import RequestTrace from '@site/src/components/RequestTrace';
+import {
+  FAILING_LEVELS,
+  categoryIcon,
+  extractIdentifiers,
+  fetchAllLogs,
+  findLogNeighbours,
+  patternQuestion,
+  queryLogEntries,
+  suggestFollowUps,
+  suggestQuestions,
+  type SuggestedQuestion,
+} from '@site/src/logs';
+import {
+  RECORDED_BRAIN_MODEL,
+  createDemoClient,
+  isDemoRequested,
+  loadSampleLogEntries,
+  type SampleLogFile,
+} from '@site/src/demo';
+import {
+  FEEDBACK_DATASET_FILE_TYPE,
+  REPORT_FILE_TYPES,
+  REPORT_FORMAT,
+  REPORT_VERSION,
+  parseIncidentReport,
+  reportFileName,
+  toFeedbackJsonl,
+  toHtml,
+  toJson,
+  toMarkdown,
+  type IncidentReport,
+  type ReportFormat,
+} from '@site/src/reports';
+import {
+  EMPTY_PINNED_QUESTIONS,
+  SETTINGS,
+  deleteFeedback,
+  deleteInvestigation,
+  feedbackId,
+  getInvestigation,
+  hasFeedback,
+  listFeedback,
+  listInvestigations,
+  loadPinnedQuestions,
+  loadSetting,
+  saveFeedback,
+  saveInvestigation,
+  savePinnedQuestions,
+  saveSetting,
+  titleFromQuestion,
+  type AnswerFeedback,
+  type CredentialProfile,
+  type Investigation,
+  type PinnedQuestions,
+} from '@site/src/storage';
+import {
+  DEFAULT_PRICES,
+  addTokenUsage,
+  describeTokenUsage,
+  estimateCost,
+  formatCost,
+  formatTokenCount,
+  type PriceTable as Prices,
+} from '@site/src/usage';
 import styles from './playground.module.css';
 
 interface Message {
@@ -9,49 +109,42 @@ interface Message {
   timestamp: Date;
   duration?: number;
   evidenceLogs?: LogEntry[];
+  /** Tools the agent called for this answer. */
+  toolCalls?: ToolCall[];
+  /** Tokens the answer used, null with servers that do not report them. */
+  usage?: TokenUsage | null;
+  isStreaming?: boolean;
+  stopped?: boolean;
+  /** Time window from the log timeline that was sent along with the question. */
+  timeWindow?: TimeWindow;
 }
 
-interface LogEntry {
-  id: string;
-  level: string;
-  message: string;
-  timestamp: string;
-  category?: string;
-  context?: Record<string, any>;
+interface TimeWindow {
+  from: string;
+  to: string;
 }
 
-interface ApiResponse {
-  success: boolean;
-  content: string;
-  evidence_logs?: LogEntry[];
-  duration_ms?: number;
-  model?: string;
-  error?: string;
+interface ModelOption {
+  value: string;
+  label: string;
+  /** From the catalog: whether Ollama has pulled the model, null when unknown. */
+  installed?: boolean | null;
 }
 
 interface PlatformConfig {
-  id: string;
+  id: PlatformId;
   name: string;
   icon: string;
-  brainModels: { value: string; label: string }[];
-  embeddingModels: { value: string; label: string }[];
+  brainModels: ModelOption[];
+  embeddingModels: ModelOption[];
   placeholder: string;
   helpUrl: string;
   requiresApiKey: boolean;
 }
 
-// API URL - can be configured via query param: ?api=https://your-api.com
-const getApiUrl = (): string => {
-  if (typeof window !== 'undefined') {
-    const params = new URLSearchParams(window.location.search);
-    const customApi = params.get('api');
-    if (customApi) {
-      return customApi;
-    }
-  }
-  return 'http://localhost:8080';
-};
+const KEYWORD_SEARCH_OPTION: ModelOption = { value: 'none', label: 'No embedding (keyword search)' };
 
+// Built-in model lists, replaced by the server's /platforms catalog once it answers
 const PLATFORMS: PlatformConfig[] = [
   {
     id: 'openai',
@@ -81,9 +174,7 @@ const PLATFORMS: PlatformConfig[] = [
       { value: 'claude-3-7-sonnet-latest', label: 'Claude 3.7 Sonnet' },
       { value: 'claude-3-5-haiku-latest', label: 'Claude 3.5 Haiku (Fast)' },
     ],
-    embeddingModels: [
-      { value: 'none', label: 'No embedding (keyword search)' },
-    ],
+    embeddingModels: [KEYWORD_SEARCH_OPTION],
     placeholder: 'sk-ant-...',
     helpUrl: 'https://console.anthropic.com/settings/keys',
     requiresApiKey: true,
@@ -110,18 +201,48 @@ const PLATFORMS: PlatformConfig[] = [
   },
 ];
 
-const QUICK_QUESTIONS = [
-  { label: ' order number req_bb002  issue why', icon: '📦' },
-  { label: 'what is the email  status of this order ord_9002', icon: '📧' },
-  { label: 'the user with name  "dave"  reset password failed', icon: '👤' },
-  { label: 'whey user with request id = req_lg101 login failed', icon: '🔐' },
-  { label: 'whey this request req_fp201  blocked', icon: '🚫' },
-  { label: 'Why did payments fail?', icon: '💳' },
-  { label: 'give me any Database issues?', icon: '🗄️' },
-  { label: 'Is there any Security threats?', icon: '🛡️' },
-  { label: 'list all the  Application errors?', icon: '🐛' },
-  { label: 'give me any Performance problems?', icon: '⚡' },
-];
+/**
+ * `platform` with the models of its catalog entry: the recommended one first, then
+ * the ones pulled on the Ollama server. Built-in labels are kept for known models.
+ */
+function applyCatalog(platform: PlatformConfig, entry: PlatformCatalogEntry | undefined): PlatformConfig {
+  if (!entry) {
+    return platform;
+  }
+
+  const toOptions = (models: CatalogModel[], builtIn: ModelOption[], recommended: string | null): ModelOption[] => {
+    const rank = (model: CatalogModel) =>
+      model.name === recommended ? 0 : model.installed === true ? 1 : model.installed === null ? 2 : 3;
+    return [...models]
+      .sort((a, b) => rank(a) - rank(b))
+      .map(model => {
+        const label = builtIn.find(option => option.value === model.name)?.label
+          ?? `${model.name}${model.name === recommended ? ' (Recommended)' : ''}`;
+        return {
+          value: model.name,
+          label: model.installed === false ? `${label} — not installed` : label,
+          installed: model.installed,
+        };
+      });
+  };
+
+  const brainModels = toOptions(entry.brain_models, platform.brainModels, entry.default_brain_model);
+  const embeddingModels = entry.supports_embeddings
+    ? toOptions(entry.embedding_models, platform.embeddingModels, entry.default_embedding_model)
+    : [KEYWORD_SEARCH_OPTION];
+  return {
+    ...platform,
+    brainModels: brainModels.length > 0 ? brainModels : platform.brainModels,
+    embeddingModels: embeddingModels.length > 0 ? embeddingModels : platform.embeddingModels,
+    requiresApiKey: entry.requires_api_key,
+  };
+}
+
+const PHASE_LABELS = {
+  parsing: '📄 Parsed',
+  embedding: '🧮 Embedded',
+  storing: '💾 Stored',
+} as const;
 
 function formatTimestamp(date: Date): string {
   return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
@@ -132,16 +253,68 @@ function formatDuration(ms: number): string {
   return `${(ms / 1000).toFixed(1)}s`;
 }
 
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function downloadFile(fileName: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
 // Session storage helpers (client-side only, never sent to server storage)
 const SESSION_KEY = 'log-inspector-config';
 
-function saveToSession(data: { platform: string; brainModel: string; embeddingModel: string; apiKey: string; ollamaHost?: string }) {
+interface SavedConfig {
+  platform: PlatformId;
+  brainModel: string;
+  embeddingModel: string;
+  apiKey: string;
+  ollamaHost?: string;
+  /** Session to resume after a reload. */
+  sessionId?: string;
+}
+
+const SAMPLE_LOGS_SOURCE = 'Sample logs';
+
+/** A file picked on the configuration screen and the source name its logs get. */
+interface SelectedFile {
+  file: File;
+  source: string;
+}
+
+// Rotated logs like app.log.1 are fine too
+function isLogFileName(name: string): boolean {
+  return /\.(log|txt|out)(\.\d+)?$/i.test(name);
+}
+
+/** `name`, or `name (2)`, `name (3)`... when another file already uses it. */
+function uniqueSourceName(name: string, taken: string[]): string {
+  let candidate = name;
+  for (let i = 2; taken.includes(candidate); i++) {
+    candidate = `${name} (${i})`;
+  }
+  return candidate;
+}
+
+function describeSources(status: InitStatusResponse, fallback: string): string {
+  const sources = Object.keys(status.sources ?? {});
+  return sources.length > 0 ? sources.join(', ') : fallback;
+}
+
+function saveToSession(data: SavedConfig) {
   if (typeof window !== 'undefined') {
     sessionStorage.setItem(SESSION_KEY, JSON.stringify(data));
   }
 }
 
-function loadFromSession(): { platform: string; brainModel: string; embeddingModel: string; apiKey: string; ollamaHost?: string } | null {
+function loadFromSession(): SavedConfig | null {
   if (typeof window !== 'undefined') {
     const data = sessionStorage.getItem(SESSION_KEY);
     if (data) {
@@ -167,7 +340,8 @@ export default function Playground(): JSX.Element {
   const [isInitializing, setIsInitializing] = useState(false);
   const [initProgress, setInitProgress] = useState(0);
   const [initMessage, setInitMessage] = useState('');
-  const [selectedPlatform, setSelectedPlatform] = useState<string>('openai');
+  const [initStatus, setInitStatus] = useState<InitStatusResponse | null>(null);
+  const [selectedPlatform, setSelectedPlatform] = useState<PlatformId>('openai');
   const [selectedBrainModel, setSelectedBrainModel] = useState<string>('gpt-4o-mini');
   const [selectedEmbeddingModel, setSelectedEmbeddingModel] = useState<string>('text-embedding-3-small');
   const [apiKey, setApiKey] = useState<string>('');
@@ -176,26 +350,65 @@ export default function Playground(): JSX.Element {
   const [logsCount, setLogsCount] = useState(0);
 
   // File upload state
-  const [uploadedFile, setUploadedFile] = useState<File | null>(null);
+  const [uploadedFiles, setUploadedFiles] = useState<SelectedFile[]>([]);
+  const [uploadingFile, setUploadingFile] = useState('');
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [uploadMessage, setUploadMessage] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const appendInputRef = useRef<HTMLInputElement>(null);
+  const [appendStatus, setAppendStatus] = useState<string | null>(null);
+  const uploadAbortRef = useRef<AbortController | null>(null);
 
   // Chat state
   const [messages, setMessages] = useState<Message[]>([]);
-  const [sampleLogs, setSampleLogs] = useState<LogEntry[]>([]);
+  const [logsReloadKey, setLogsReloadKey] = useState(0);
+  const [logCounts, setLogCounts] = useState({ filtered: 0, total: 0 });
+  const [timeWindow, setTimeWindow] = useState<TimeWindow | null>(null);
+  const [useTimeWindow, setUseTimeWindow] = useState(false);
+  const [selectedLog, setSelectedLog] = useState<LogEntry | null>(null);
+  const [traceIdentifier, setTraceIdentifier] = useState<string | null>(null);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [showLogs, setShowLogs] = useState(true);
-  const [sessionId] = useState(() => `session-${Date.now()}`);
+  const [sidebarTab, setSidebarTab] = useState<'logs' | 'patterns'>('logs');
+  const [sessionId, setSessionId] = useState(() => `session-${Date.now()}`);
+  const [logSource, setLogSource] = useState(SAMPLE_LOGS_SOURCE);
+  const [investigations, setInvestigations] = useState<Investigation[]>([]);
+  const [showInvestigations, setShowInvestigations] = useState(false);
+  const [showCompare, setShowCompare] = useState(false);
+  /** Tokens used by the session: indexing, then every answer. */
+  const [sessionUsage, setSessionUsage] = useState<TokenUsage | null>(null);
+  const [prices, setPrices] = useState<Prices>(DEFAULT_PRICES);
+  const [showPrices, setShowPrices] = useState(false);
+  const [showInsights, setShowInsights] = useState(false);
+  /** Questions built from the failing logs of the session. */
+  const [suggestions, setSuggestions] = useState<SuggestedQuestion[]>([]);
+  const [pinnedQuestions, setPinnedQuestions] = useState<PinnedQuestions>(EMPTY_PINNED_QUESTIONS);
+  /** Feedback on the answers of this session, and how many answers got some over all sessions. */
+  const [feedback, setFeedback] = useState<AnswerFeedback[]>([]);
+  const [feedbackCount, setFeedbackCount] = useState(0);
   const [expandedEvidence, setExpandedEvidence] = useState<Set<string>>(new Set());
-  const [apiUrl, setApiUrl] = useState<string>('http://localhost:8080');
+  /** Source each message's evidence is narrowed to, by message id. */
+  const [evidenceSources, setEvidenceSources] = useState<Record<string, string>>({});
+  const sampleLogFiles = usePluginData('sample-logs') as SampleLogFile[];
+  const sampleLogs = useMemo(() => loadSampleLogEntries(sampleLogFiles), [sampleLogFiles]);
+  /** Recorded answers over the sample logs, without a server or an API key. */
+  const [demoMode, setDemoMode] = useState(false);
+  const api = useMemo(() => (demoMode ? createDemoClient(sampleLogFiles) : createPlaygroundClient()), [demoMode]);
   const [apiConnected, setApiConnected] = useState<boolean | null>(null);
+  const [catalog, setCatalog] = useState<PlatformCatalogResponse | null>(null);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  /** Models of an unlocked profile, applied instead of the defaults when its platform gets selected. */
+  const pendingModelsRef = useRef<{ brainModel: string; embeddingModel: string } | null>(null);
+  const chatAbortRef = useRef<AbortController | null>(null);
 
-  const currentPlatform = PLATFORMS.find(p => p.id === selectedPlatform) || PLATFORMS[0];
+  const platforms = useMemo(
+    () => PLATFORMS.map(platform => applyCatalog(platform, catalog?.platforms.find(entry => entry.id === platform.id))),
+    [catalog],
+  );
+  const currentPlatform = platforms.find(p => p.id === selectedPlatform) || platforms[0];
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -205,12 +418,21 @@ export default function Playground(): JSX.Element {
     scrollToBottom();
   }, [messages]);
 
-  // Load saved config and check API on mount
   useEffect(() => {
-    setApiUrl(getApiUrl());
+    loadSetting<Prices>(SETTINGS.prices)
+      .then(saved => saved && setPrices(saved))
+      .catch(() => undefined);
+    loadPinnedQuestions()
+      .then(setPinnedQuestions)
+      .catch(() => undefined);
+  }, []);
 
+  // Load saved config on mount; demo sessions are not saved
+  useEffect(() => {
     const saved = loadFromSession();
-    if (saved && (saved.apiKey || saved.ollamaHost)) {
+    if (isDemoRequested()) {
+      setDemoMode(true);
+    } else if (saved && (saved.apiKey || saved.ollamaHost)) {
       setSelectedPlatform(saved.platform);
       setSelectedBrainModel(saved.brainModel);
       setSelectedEmbeddingModel(saved.embeddingModel);
@@ -219,15 +441,56 @@ export default function Playground(): JSX.Element {
         setOllamaHost(saved.ollamaHost);
       }
       setIsConfigured(true);
+      if (saved.sessionId) {
+        const resumedId = saved.sessionId;
+        setSessionId(resumedId);
+        restoreConversation(resumedId, null);
+        getInvestigation(resumedId)
+          .then(investigation => {
+            if (investigation) {
+              setLogSource(investigation.source);
+              setSessionUsage(investigation.usage ?? null);
+            }
+          })
+          .catch(() => undefined);
+      }
     }
 
-    checkApiConnection();
     loadLogs();
   }, []);
 
+  useEffect(() => {
+    checkApiConnection();
+  }, [api]);
+
+  // Catalog of the configuration screen; Ollama models are checked against the host being typed
+  useEffect(() => {
+    if (isConfigured) {
+      return;
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      api
+        .platforms(ollamaHost.trim() || undefined, { signal: controller.signal })
+        .then(setCatalog)
+        .catch(() => undefined);
+    }, 400);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [api, ollamaHost, isConfigured]);
+
   // Update models when platform changes
   useEffect(() => {
-    const platform = PLATFORMS.find(p => p.id === selectedPlatform);
+    const pending = pendingModelsRef.current;
+    pendingModelsRef.current = null;
+    if (pending) {
+      setSelectedBrainModel(pending.brainModel);
+      setSelectedEmbeddingModel(pending.embeddingModel);
+      return;
+    }
+    const platform = platforms.find(p => p.id === selectedPlatform);
     if (platform) {
       if (platform.brainModels.length > 0) {
         setSelectedBrainModel(platform.brainModels[0].value);
@@ -238,189 +501,389 @@ export default function Playground(): JSX.Element {
     }
   }, [selectedPlatform]);
 
+  // A new catalog can drop the selected models; fall back to the recommended ones
+  useEffect(() => {
+    if (!currentPlatform.brainModels.some(model => model.value === selectedBrainModel)) {
+      setSelectedBrainModel(currentPlatform.brainModels[0].value);
+    }
+    if (!currentPlatform.embeddingModels.some(model => model.value === selectedEmbeddingModel)) {
+      setSelectedEmbeddingModel(currentPlatform.embeddingModels[0].value);
+    }
+  }, [currentPlatform]);
+
+  // Selected Ollama models the server has not pulled
+  const missingModels = [
+    currentPlatform.brainModels.find(model => model.value === selectedBrainModel),
+    currentPlatform.embeddingModels.find(model => model.value === selectedEmbeddingModel),
+  ].flatMap(model => (model?.installed === false ? [model.value] : []));
+
+  const credentials = (): PlatformCredentials => ({
+    platform: selectedPlatform,
+    brain_model: selectedBrainModel,
+    embedding_model: selectedEmbeddingModel,
+    api_key: apiKey.trim(),
+    ollama_host: ollamaHost.trim(),
+  });
+
   const checkApiConnection = async () => {
     try {
-      const response = await fetch(`${getApiUrl()}/health`);
-      setApiConnected(response.ok);
+      await api.health();
+      setApiConnected(true);
     } catch {
       setApiConnected(false);
     }
   };
 
-  const loadLogs = async () => {
-    try {
-      const response = await fetch(`${getApiUrl()}/logs`);
-      if (response.ok) {
-        const data = await response.json();
-        setSampleLogs(data.logs || []);
+  const loadLogs = () => {
+    setLogsReloadKey(key => key + 1);
+  };
+
+  // Kept in the URL, so that a reload stays in (or out of) the demo
+  const switchDemoMode = (enabled: boolean) => {
+    const url = new URL(window.location.href);
+    if (enabled) {
+      url.searchParams.set('demo', '1');
+    } else {
+      url.searchParams.delete('demo');
+    }
+    window.history.replaceState(window.history.state, '', url);
+    setDemoMode(enabled);
+  };
+
+  // Pages of the log explorer; the bundled sample stands in when the API is unreachable
+  const fetchLogsPage = useCallback(
+    async (query: LogsQuery, signal: AbortSignal) => {
+      try {
+        return await api.logs(sessionId, query, { signal });
+      } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
+        }
+        return queryLogEntries(sampleLogs, query);
       }
-    } catch {
-      setSampleLogs(getFallbackLogs());
+    },
+    [api, sessionId, sampleLogs],
+  );
+
+  const fetchLogNeighbours = useCallback(
+    async (log: LogEntry, signal: AbortSignal) => {
+      try {
+        return await api.logNeighbours(sessionId, log.id, 5, { signal });
+      } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
+        }
+        return findLogNeighbours(sampleLogs, log.id);
+      }
+    },
+    [api, sessionId, sampleLogs],
+  );
+
+  const closeLogDetail = useCallback(() => setSelectedLog(null), []);
+
+  const fetchTrace = useCallback(
+    (identifier: string, signal: AbortSignal) =>
+      api.trace({ session_id: sessionId, identifier, ...credentials() }, { signal }),
+    // credentials() reads the current config, which cannot change while the chat is shown
+    [api, sessionId],
+  );
+
+  const openTrace = useCallback((identifier: string) => {
+    setSelectedLog(null);
+    setTraceIdentifier(identifier);
+  }, []);
+
+  const closeTrace = useCallback(() => setTraceIdentifier(null), []);
+
+  const runComparison = useCallback(
+    (candidate: CompareCandidate, question: string, signal: AbortSignal) =>
+      api.compare({ session_id: sessionId, question, ...credentials(), candidate }, { signal }),
+    // Same as fetchTrace: the session config is fixed while the chat is shown
+    [api, sessionId],
+  );
+
+  // One call to the session's brain model with LogSearchTool's analysis prompt
+  const summarizeLogs = useCallback(
+    (lines: string[], signal: AbortSignal) => {
+      const { platform, brain_model, api_key, ollama_host } = credentials();
+      return api
+        .analyze({ platform, brain_model, api_key, ollama_host, logs: lines }, { signal })
+        .then(response => response.content);
+    },
+    // Same as fetchTrace: the session config is fixed while the chat is shown
+    [api],
+  );
+
+  const closeInsights = useCallback(() => setShowInsights(false), []);
+
+  const closeCompare = useCallback(() => setShowCompare(false), []);
+
+  const closePrices = useCallback(() => setShowPrices(false), []);
+
+  const updatePrices = (next: Prices) => {
+    setPrices(next);
+    saveSetting(SETTINGS.prices, next).catch(() => undefined);
+  };
+
+  const refreshFeedbackCount = () => {
+    listFeedback()
+      .then(all => setFeedbackCount(all.length))
+      .catch(() => setFeedbackCount(0));
+  };
+
+  useEffect(() => {
+    listFeedback(sessionId)
+      .then(setFeedback)
+      .catch(() => setFeedback([]));
+    refreshFeedbackCount();
+  }, [sessionId]);
+
+  // Restored answers get new message ids: their feedback is found by its answer
+  const feedbackFor = (message: Message): AnswerFeedback | null =>
+    feedback.find(entry => entry.messageId === message.id) ??
+    feedback.find(entry => entry.answer === message.content) ??
+    null;
+
+  const updateFeedback = (message: Message, fields: Partial<Pick<AnswerFeedback, 'rating' | 'tags' | 'comment' | 'relevantIds'>>) => {
+    const existing = feedbackFor(message);
+    const index = messages.findIndex(m => m.id === message.id);
+    const question = messages.slice(0, index).filter(m => m.role === 'user').at(-1)?.content ?? '';
+    const next: AnswerFeedback = {
+      ...(existing ?? {
+        id: feedbackId(sessionId, message.id),
+        sessionId,
+        messageId: message.id,
+        rating: null,
+        tags: [],
+        comment: '',
+        question,
+        answer: message.content,
+        evidenceIds: (message.evidenceLogs ?? []).map(log => log.id),
+        relevantIds: [],
+        platform: selectedPlatform,
+        brainModel: selectedBrainModel,
+        embeddingModel: selectedEmbeddingModel,
+        source: logSource,
+      }),
+      ...fields,
+      updatedAt: new Date().toISOString(),
+    };
+    const keep = hasFeedback(next);
+    setFeedback(prev => [...prev.filter(entry => entry.id !== next.id), ...(keep ? [next] : [])]);
+    (keep ? saveFeedback(next) : deleteFeedback(next.id)).then(refreshFeedbackCount).catch(() => undefined);
+  };
+
+  const toggleRelevant = (message: Message, logId: string) => {
+    const relevantIds = feedbackFor(message)?.relevantIds ?? [];
+    updateFeedback(message, {
+      relevantIds: relevantIds.includes(logId) ? relevantIds.filter(id => id !== logId) : [...relevantIds, logId],
+    });
+  };
+
+  const exportFeedback = async () => {
+    const all = await listFeedback().catch(() => []);
+    const fileName = `feedback-dataset-${new Date().toISOString().slice(0, 10)}.${FEEDBACK_DATASET_FILE_TYPE.extension}`;
+    downloadFile(fileName, toFeedbackJsonl(all), FEEDBACK_DATASET_FILE_TYPE.mimeType);
+  };
+
+  const updatePinnedQuestions = (next: PinnedQuestions) => {
+    setPinnedQuestions(next);
+    savePinnedQuestions(next).catch(() => undefined);
+  };
+
+  // Suggestions follow the logs: rebuilt whenever files get indexed
+  useEffect(() => {
+    if (!isConfigured) {
+      return;
     }
+    const controller = new AbortController();
+    fetchAllLogs(fetchLogsPage, controller.signal, { levels: FAILING_LEVELS })
+      .then(logs => setSuggestions(suggestQuestions(logs)))
+      .catch(() => undefined);
+    return () => controller.abort();
+  }, [isConfigured, fetchLogsPage, logsReloadKey]);
+
+  const lastAnswer = messages.filter(message => message.role !== 'system').at(-1);
+  const followUps = useMemo(
+    () =>
+      lastAnswer?.role === 'assistant' && !lastAnswer.isStreaming && !lastAnswer.stopped
+        ? suggestFollowUps(lastAnswer.content, lastAnswer.evidenceLogs)
+        : [],
+    [lastAnswer],
+  );
+
+  // Ollama runs locally: its models are not missing a price
+  const freeModels = useMemo(() => {
+    const ollama = platforms.find(platform => platform.id === 'ollama');
+    return ollama ? [...ollama.brainModels, ...ollama.embeddingModels].map(model => model.value) : [];
+  }, [platforms]);
+
+  // "2.1k tokens · $0.0012", with "+" when some models have no price
+  const describeUsage = (usage: TokenUsage): string => {
+    const { cost, unpriced } = estimateCost(usage, prices, freeModels);
+    return `${formatTokenCount(usage.total_tokens)} tokens · ${formatCost(cost)}${unpriced.length > 0 ? '+' : ''}`;
   };
 
-  const getFallbackLogs = (): LogEntry[] => [
-    { id: 'pay_001', level: 'ERROR', message: 'PaymentException: Gateway timeout for order #12345', timestamp: '2024-01-15 14:23:45', category: 'payment' },
-    { id: 'pay_002', level: 'ERROR', message: 'Stripe\\Exception\\CardException: Your card was declined.', timestamp: '2024-01-15 14:24:12', category: 'payment' },
-    { id: 'db_001', level: 'ERROR', message: 'Doctrine\\DBAL\\Exception: Connection timed out', timestamp: '2024-01-15 15:30:22', category: 'database' },
-    { id: 'sec_001', level: 'CRITICAL', message: 'Brute force detected: 156 failed attempts from IP 192.168.1.100', timestamp: '2024-01-15 16:05:00', category: 'security' },
-    { id: 'app_001', level: 'ERROR', message: 'OutOfMemoryError: Allowed memory size exhausted', timestamp: '2024-01-15 17:00:00', category: 'application' },
-    { id: 'perf_001', level: 'WARNING', message: 'API response time exceeded threshold: 4.2s', timestamp: '2024-01-15 18:00:00', category: 'performance' },
-  ];
+  // The session's model against the next one the platform offers
+  const compareCandidates = (): CompareCandidate[] => {
+    const current = { platform: selectedPlatform, brain_model: selectedBrainModel, api_key: apiKey, ollama_host: ollamaHost };
+    const other = currentPlatform.brainModels.find(model => model.value !== selectedBrainModel);
+    return [current, { ...current, brain_model: other?.value ?? selectedBrainModel }];
+  };
+
+  const handleLogCounts = useCallback((filtered: number, total: number) => {
+    setLogCounts({ filtered, total });
+  }, []);
+
+  // A new range selected on the timeline is offered as context for the next question
+  const handleTimeRange = useCallback((range: TimeWindow | null) => {
+    setTimeWindow(range);
+    setUseTimeWindow(range !== null);
+  }, []);
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      // Validate file type
-      if (!file.name.endsWith('.log') && !file.name.endsWith('.txt')) {
-        alert('Please select a .log or .txt file');
-        return;
-      }
-      // Validate file size (max 10MB)
-      if (file.size > 10 * 1024 * 1024) {
-        alert('File size must be less than 10MB');
-        return;
-      }
-      setUploadedFile(file);
+    const files = Array.from(event.target.files ?? []);
+    // Cleared so that picking the same file again still fires a change
+    event.target.value = '';
+    const rejected = files.filter(file => !isLogFileName(file.name));
+    if (rejected.length > 0) {
+      alert(`Please select .log, .txt or .out files (skipped ${rejected.map(file => file.name).join(', ')})`);
     }
+    setUploadedFiles(prev => {
+      const next = [...prev];
+      for (const file of files.filter(file => isLogFileName(file.name))) {
+        next.push({ file, source: uniqueSourceName(file.name, next.map(selected => selected.source)) });
+      }
+      return next;
+    });
   };
 
   const handleUploadClick = () => {
     fileInputRef.current?.click();
   };
 
-  const handleRemoveFile = () => {
-    setUploadedFile(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
+  const handleRemoveFile = (index: number) => {
+    setUploadedFiles(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const renameSource = (index: number, source: string) => {
+    setUploadedFiles(prev => prev.map((selected, i) => (i === index ? { ...selected, source } : selected)));
+  };
+
+  const cancelUpload = () => {
+    uploadAbortRef.current?.abort();
   };
 
   const handleConfigure = async () => {
-    if (currentPlatform.requiresApiKey && !apiKey.trim()) {
+    if (!demoMode && currentPlatform.requiresApiKey && !apiKey.trim()) {
       alert('Please enter your API key');
       return;
     }
 
-    if (!currentPlatform.requiresApiKey && !ollamaHost.trim()) {
+    if (!demoMode && !currentPlatform.requiresApiKey && !ollamaHost.trim()) {
       alert('Please enter your Ollama host URL');
       return;
     }
 
     setIsInitializing(true);
     setInitProgress(0);
-    setInitMessage('Connecting to API...');
-
-    // Progress animation steps
-    const progressSteps = uploadedFile
-      ? [
-          { progress: 5, message: 'Connecting to API...' },
-          { progress: 15, message: 'Uploading log file...' },
-          { progress: 30, message: 'Parsing log entries...' },
-          { progress: 45, message: 'Generating embeddings...' },
-          { progress: 60, message: 'Indexing logs...' },
-          { progress: 75, message: 'Building vector store...' },
-          { progress: 90, message: 'Finalizing...' },
-        ]
-      : [
-          { progress: 10, message: 'Connecting to API...' },
-          { progress: 25, message: 'Loading sample logs...' },
-          { progress: 40, message: 'Parsing payment logs...' },
-          { progress: 50, message: 'Parsing database logs...' },
-          { progress: 60, message: 'Parsing security logs...' },
-          { progress: 70, message: 'Parsing application logs...' },
-          { progress: 80, message: 'Indexing logs...' },
-          { progress: 90, message: 'Finalizing...' },
-        ];
-
-    // Run animation with minimum time per step (300ms each)
-    const runAnimation = async (): Promise<void> => {
-      for (const step of progressSteps) {
-        setInitProgress(step.progress);
-        setInitMessage(step.message);
-        await new Promise(resolve => setTimeout(resolve, 300));
-      }
+    setInitMessage(uploadedFiles.length > 0 ? 'Uploading log files...' : 'Connecting to API...');
+    setInitStatus(null);
+    const controller = new AbortController();
+    uploadAbortRef.current = controller;
+
+    const applyStatus = (status: InitStatusResponse) => {
+      setInitStatus(status);
+      setInitProgress(status.progress);
+      setInitMessage(status.message);
+      setLogsCount(status.logs_count);
     };
 
-    // Start animation and API call in parallel
-    const animationPromise = runAnimation();
-
-    let apiResult: any = null;
-    let apiError: Error | null = null;
-
-    const apiPromise = (async () => {
-      try {
-        // If file is uploaded, send it first
-        if (uploadedFile) {
-          const formData = new FormData();
-          formData.append('file', uploadedFile);
-          formData.append('session_id', sessionId);
-          formData.append('platform', selectedPlatform);
-          formData.append('brain_model', selectedBrainModel);
-          formData.append('embedding_model', selectedEmbeddingModel);
-          formData.append('api_key', apiKey.trim());
-          formData.append('ollama_host', ollamaHost.trim());
-
-          const uploadResponse = await fetch(`${apiUrl}/upload`, {
-            method: 'POST',
-            body: formData,
-          });
-          apiResult = await uploadResponse.json();
-          if (apiResult.error) {
-            throw new Error(apiResult.error);
-          }
-        } else {
-          // Standard init without file upload
-          const response = await fetch(`${apiUrl}/init`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              session_id: sessionId,
-              platform: selectedPlatform,
-              brain_model: selectedBrainModel,
-              embedding_model: selectedEmbeddingModel,
-              api_key: apiKey.trim(),
-              ollama_host: ollamaHost.trim(),
-            }),
+    let finalStatus: InitStatusResponse;
+    let indexingUsage: TokenUsage | null = null;
+    try {
+      const request = { session_id: sessionId, ...credentials() };
+      if (uploadedFiles.length > 0) {
+        const uploadFile = async ({ file, source }: SelectedFile, index: number) => {
+          // Sent in chunks, so large files survive dropped connections and can be cancelled
+          setIsUploading(true);
+          setUploadProgress(0);
+          setUploadingFile(uploadedFiles.length > 1 ? `${file.name} (${index + 1}/${uploadedFiles.length})` : file.name);
+          const started = await uploadInChunks(
+            api,
+            { ...request, file, source: source.trim() || file.name, append: index > 0 },
+            {
+              signal: controller.signal,
+              onProgress: (sent, total) => {
+                setUploadProgress(total > 0 ? Math.round((sent / total) * 100) : 100);
+                setUploadMessage(`${formatBytes(sent)} / ${formatBytes(total)}`);
+              },
+            },
+          );
+          setIsUploading(false);
+
+          // Indexing runs on the server; follow its real progress
+          const status = await waitForIndexing(api, sessionId, started, {
+            onProgress: applyStatus,
+            signal: controller.signal,
           });
-          apiResult = await response.json();
-          if (apiResult.error) {
-            throw new Error(apiResult.error);
-          }
+          indexingUsage = addTokenUsage(indexingUsage, status.usage);
+          return status;
+        };
+
+        // The first file replaces the session logs, the next ones are added to them
+        finalStatus = await uploadFile(uploadedFiles[0], 0);
+        for (let index = 1; index < uploadedFiles.length; index++) {
+          finalStatus = await uploadFile(uploadedFiles[index], index);
         }
-      } catch (err) {
-        apiError = err instanceof Error ? err : new Error('Failed to initialize');
+      } else {
+        const started = await api.init(request, { signal: controller.signal });
+        finalStatus = await waitForIndexing(api, sessionId, started, {
+          onProgress: applyStatus,
+          signal: controller.signal,
+        });
+        indexingUsage = finalStatus.usage ?? null;
       }
-    })();
-
-    // Wait for BOTH animation and API to complete
-    await Promise.all([animationPromise, apiPromise]);
-
-    // Handle result
-    if (apiError) {
+    } catch (error) {
       setIsInitializing(false);
+      setIsUploading(false);
+      setUploadProgress(0);
+      setUploadMessage('');
       setInitProgress(0);
       setInitMessage('');
-      alert(`Error: ${apiError.message}. Please check your configuration.`);
+      setInitStatus(null);
+      if (!isAbortError(error)) {
+        alert(`Error: ${describeError(error, 'Failed to initialize')}. Please check your configuration.`);
+      }
       return;
+    } finally {
+      if (uploadAbortRef.current === controller) {
+        uploadAbortRef.current = null;
+      }
     }
 
     // Show completion
     setInitProgress(100);
-    const logCount = apiResult?.logs_count || 80;
+    const logCount = finalStatus.logs_count;
     setInitMessage(`Ready! ${logCount} logs indexed.`);
     setLogsCount(logCount);
 
     // Brief pause to show 100%
     await new Promise(resolve => setTimeout(resolve, 500));
 
-    saveToSession({
-      platform: selectedPlatform,
-      brainModel: selectedBrainModel,
-      embeddingModel: selectedEmbeddingModel,
-      apiKey: apiKey.trim(),
-      ollamaHost: ollamaHost.trim(),
-    });
+    if (!demoMode) {
+      saveToSession({
+        platform: selectedPlatform,
+        brainModel: selectedBrainModel,
+        embeddingModel: selectedEmbeddingModel,
+        apiKey: apiKey.trim(),
+        ollamaHost: ollamaHost.trim(),
+        sessionId,
+      });
+    }
+    const source = uploadedFiles.length > 0 ? describeSources(finalStatus, uploadedFiles.map(f => f.source).join(', ')) : SAMPLE_LOGS_SOURCE;
+    setLogSource(source);
+    setSessionUsage(indexingUsage);
 
     setIsInitializing(false);
     setIsConfigured(true);
@@ -428,16 +891,98 @@ export default function Playground(): JSX.Element {
     // Reload logs after configuration
     loadLogs();
 
-    const uploadNote = uploadedFile ? ` from "${uploadedFile.name}"` : '';
+    const uploadNote = uploadedFiles.length > 0 ? ` from ${source}` : '';
+    if (demoMode) {
+      addSystemMessage(
+        `🎭 Offline demo: ${logCount} logs${uploadNote} loaded in your browser. The suggested questions replay answers recorded with ${RECORDED_BRAIN_MODEL} on the sample logs; other questions get a keyword search.`,
+      );
+      return;
+    }
     addSystemMessage(`🟢 Connected to ${currentPlatform.name} (Brain: ${selectedBrainModel}, Embeddings: ${selectedEmbeddingModel}). ${logCount} logs${uploadNote} loaded and ready for analysis!`);
   };
 
+  const applyCredentialProfile = (profile: CredentialProfile) => {
+    if (profile.platform === selectedPlatform) {
+      setSelectedBrainModel(profile.brainModel);
+      setSelectedEmbeddingModel(profile.embeddingModel);
+    } else {
+      pendingModelsRef.current = { brainModel: profile.brainModel, embeddingModel: profile.embeddingModel };
+      setSelectedPlatform(profile.platform);
+    }
+    setApiKey(profile.apiKey);
+    setOllamaHost(profile.ollamaHost || 'http://localhost:11434');
+  };
+
+  // The tab's own copy of the key goes too
+  const forgetAllCredentials = () => {
+    clearSession();
+    setApiKey('');
+  };
+
   const handleReconfigure = () => {
+    stopGenerating();
     clearSession();
     setIsConfigured(false);
     setApiKey('');
     setMessages([]);
-    setUploadedFile(null);
+    setUploadedFiles([]);
+    setSessionUsage(null);
+    // The previous conversation stays in the investigations list
+    setSessionId(`session-${Date.now()}`);
+  };
+
+  // Adds a file to the running session; only its logs are indexed
+  const appendLogFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+    if (!isLogFileName(file.name)) {
+      alert('Please select a .log, .txt or .out file');
+      return;
+    }
+
+    const replacesSample = logSource === SAMPLE_LOGS_SOURCE;
+    const controller = new AbortController();
+    uploadAbortRef.current = controller;
+    setAppendStatus(`Uploading ${file.name}...`);
+    try {
+      const started = await uploadInChunks(
+        api,
+        { session_id: sessionId, ...credentials(), file, source: file.name, append: true },
+        {
+          signal: controller.signal,
+          onProgress: (sent, total) => setAppendStatus(`Uploading ${file.name}: ${formatBytes(sent)} / ${formatBytes(total)}`),
+        },
+      );
+      const status = await waitForIndexing(api, sessionId, started, {
+        onProgress: progress => setAppendStatus(progress.message),
+        signal: controller.signal,
+      });
+
+      const source = describeSources(status, file.name);
+      setLogSource(source);
+      setSessionUsage(prev => addTokenUsage(prev, status.usage));
+      getInvestigation(sessionId)
+        .then(investigation => investigation && saveInvestigation({ ...investigation, source }))
+        .catch(() => undefined);
+      loadLogs();
+      addSystemMessage(
+        replacesSample
+          ? `📎 ${status.logs_count} logs from "${status.source ?? file.name}" replace the sample logs.`
+          : `📎 ${status.added_count ?? status.logs_count} logs from "${status.source ?? file.name}" added, ${status.logs_count} logs in total.`,
+      );
+    } catch (error) {
+      if (!isAbortError(error)) {
+        addSystemMessage(`❌ Could not add ${file.name}: ${describeError(error, 'Upload failed')}.`);
+      }
+    } finally {
+      if (uploadAbortRef.current === controller) {
+        uploadAbortRef.current = null;
+      }
+      setAppendStatus(null);
+    }
   };
 
   const addSystemMessage = (content: string) => {
@@ -463,77 +1008,281 @@ export default function Playground(): JSX.Element {
       return;
     }
 
+    const askedWindow = useTimeWindow ? timeWindow : null;
     const userMessage: Message = {
       id: `user-${Date.now()}`,
       role: 'user',
       content: question,
       timestamp: new Date(),
+      timeWindow: askedWindow ?? undefined,
     };
 
     setMessages(prev => [...prev, userMessage]);
     setIsLoading(true);
+    setUseTimeWindow(false);
+
+    const assistantId = `assistant-${Date.now()}`;
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+    let streamedContent = '';
+
+    // Creates the assistant bubble on the first chunk, then updates it in place
+    const upsertAssistant = (patch: Partial<Message>) => {
+      setMessages(prev => {
+        if (prev.some(m => m.id === assistantId)) {
+          return prev.map(m => (m.id === assistantId ? { ...m, ...patch } : m));
+        }
+        return [...prev, { id: assistantId, role: 'assistant', content: '', timestamp: new Date(), ...patch }];
+      });
+    };
 
     try {
-      const response = await fetch(`${apiUrl}/chat`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      const data = await api.chatStream(
+        {
           session_id: sessionId,
-          question: question,
-          platform: selectedPlatform,
-          brain_model: selectedBrainModel,
-          embedding_model: selectedEmbeddingModel,
-          api_key: apiKey,
-          ollama_host: ollamaHost,
-        }),
-      });
-
-      const data: ApiResponse = await response.json();
-
-      if (data.error) {
-        throw new Error(data.error);
-      }
+          question: askedWindow
+            ? `${question}\n\nOnly consider logs between ${askedWindow.from} and ${askedWindow.to}.`
+            : question,
+          ...credentials(),
+        },
+        {
+          onDelta: chunk => {
+            streamedContent += chunk;
+            upsertAssistant({ content: streamedContent, isStreaming: true });
+          },
+        },
+        { signal: controller.signal },
+      );
 
-      const assistantMessage: Message = {
-        id: `assistant-${Date.now()}`,
-        role: 'assistant',
+      upsertAssistant({
         content: data.content,
-        timestamp: new Date(),
+        isStreaming: false,
         duration: data.duration_ms,
         evidenceLogs: data.evidence_logs,
-      };
-
-      setMessages(prev => [...prev, assistantMessage]);
+        toolCalls: data.tool_calls,
+        usage: data.usage,
+      });
+      setSessionUsage(prev => addTokenUsage(prev, data.usage));
+      recordTurn(question, data.usage);
     } catch (error) {
+      if (streamedContent) {
+        upsertAssistant({ isStreaming: false, stopped: isAbortError(error) });
+      }
+      if (isAbortError(error)) {
+        if (!streamedContent) {
+          addSystemMessage('⏹️ Stopped before the agent answered.');
+        }
+        return;
+      }
       const errorMessage: Message = {
         id: `error-${Date.now()}`,
         role: 'system',
-        content: `❌ Error: ${error instanceof Error ? error.message : 'Failed to get response'}. Please check your configuration and try again.`,
+        content: `❌ Error: ${describeError(error, 'Failed to get response')}. Please check your configuration and try again.`,
         timestamp: new Date(),
       };
       setMessages(prev => [...prev, errorMessage]);
     } finally {
+      if (chatAbortRef.current === controller) {
+        chatAbortRef.current = null;
+      }
       setIsLoading(false);
     }
   };
 
+  const stopGenerating = () => {
+    chatAbortRef.current?.abort();
+  };
+
   const handleQuickQuestion = (question: string) => {
     if (isLoading || !isConfigured) return;
     sendMessage(question);
   };
 
-  const resetChat = async () => {
+  const refreshInvestigations = () => {
+    listInvestigations()
+      .then(setInvestigations)
+      .catch(() => setInvestigations([]));
+  };
+
+  // Saves the conversation in this browser after each answer
+  const recordTurn = async (question: string, usage: TokenUsage | null) => {
+    const now = new Date().toISOString();
     try {
-      await fetch(`${apiUrl}/reset`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ session_id: sessionId }),
+      const existing = await getInvestigation(sessionId);
+      await saveInvestigation({
+        id: sessionId,
+        title: existing?.title ?? titleFromQuestion(question),
+        platform: selectedPlatform,
+        brainModel: selectedBrainModel,
+        embeddingModel: selectedEmbeddingModel,
+        source: logSource,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+        messageCount: (existing?.messageCount ?? 0) + 2,
+        usage: addTokenUsage(existing?.usage ?? null, usage) ?? undefined,
+      });
+      refreshInvestigations();
+    } catch {
+      // IndexedDB can be unavailable (e.g. private browsing); the chat works without it
+    }
+  };
+
+  // Shows the conversation the server kept for `id`; `title` is null when restoring after a reload
+  const restoreConversation = async (id: string, title: string | null) => {
+    try {
+      const history = await api.history(id);
+      const timestamp = history.updated_at ? new Date(history.updated_at.replace(' ', 'T')) : new Date();
+      setMessages(
+        history.messages.map((message, i) => ({
+          id: `history-${i}`,
+          role: message.role,
+          content: message.content,
+          timestamp,
+        })),
+      );
+      if (!history.exists && title) {
+        addSystemMessage(`⚠️ The server no longer has "${title}". New questions start a fresh conversation.`);
+      } else if (history.messages.length > 0) {
+        addSystemMessage(`📂 Resumed ${title ? `"${title}"` : 'your investigation'} (${history.messages.length} messages).`);
+      }
+    } catch (error) {
+      if (title) {
+        addSystemMessage(`❌ Could not load the conversation: ${describeError(error, 'History unavailable')}.`);
+      }
+    }
+  };
+
+  const openInvestigations = () => {
+    refreshInvestigations();
+    setShowInvestigations(true);
+  };
+
+  const closeInvestigations = useCallback(() => setShowInvestigations(false), []);
+
+  const getResumeBlockedReason = (investigation: Investigation): string | null => {
+    if (investigation.platform === selectedPlatform) {
+      return null;
+    }
+    const platform = platforms.find(p => p.id === investigation.platform);
+    // Its logs were embedded with that platform's model
+    return `Switch to ${platform?.name ?? investigation.platform} to resume`;
+  };
+
+  const resumeInvestigation = async (investigation: Investigation) => {
+    stopGenerating();
+    setShowInvestigations(false);
+    setSessionId(investigation.id);
+    setSelectedBrainModel(investigation.brainModel);
+    setSelectedEmbeddingModel(investigation.embeddingModel);
+    setLogSource(investigation.source);
+    setSessionUsage(investigation.usage ?? null);
+    setExpandedEvidence(new Set());
+    const saved = loadFromSession();
+    if (saved) {
+      saveToSession({
+        ...saved,
+        brainModel: investigation.brainModel,
+        embeddingModel: investigation.embeddingModel,
+        sessionId: investigation.id,
       });
+    }
+    loadLogs();
+    await restoreConversation(investigation.id, investigation.title);
+  };
+
+  const renameInvestigation = async (investigation: Investigation, title: string) => {
+    try {
+      await saveInvestigation({ ...investigation, title });
+    } finally {
+      refreshInvestigations();
+    }
+  };
+
+  const removeInvestigation = async (investigation: Investigation) => {
+    if (!confirm(`Delete "${investigation.title}"? Its conversation is removed from the server too.`)) {
+      return;
+    }
+    if (investigation.id === sessionId) {
+      await resetChat();
+    } else {
+      await api.reset(investigation.id).catch(() => undefined);
+      await deleteInvestigation(investigation.id).catch(() => undefined);
+    }
+    refreshInvestigations();
+  };
+
+  const buildReport = async (): Promise<IncidentReport> => {
+    const saved = await getInvestigation(sessionId).catch(() => null);
+    const firstQuestion = messages.find(m => m.role === 'user');
+    return {
+      format: REPORT_FORMAT,
+      version: REPORT_VERSION,
+      title: saved?.title ?? (firstQuestion ? titleFromQuestion(firstQuestion.content) : 'Log investigation'),
+      exportedAt: new Date().toISOString(),
+      sessionId,
+      platform: currentPlatform.name,
+      brainModel: selectedBrainModel,
+      embeddingModel: selectedEmbeddingModel,
+      source: logSource,
+      messages: messages
+        .filter(m => !m.isStreaming)
+        .map(m => ({
+          role: m.role,
+          content: m.content,
+          timestamp: m.timestamp.toISOString(),
+          durationMs: m.duration,
+          evidenceLogs: m.evidenceLogs,
+          timeWindow: m.timeWindow,
+        })),
+    };
+  };
+
+  const exportReport = async (format: ReportFormat) => {
+    const report = await buildReport();
+    const render = { markdown: toMarkdown, html: toHtml, json: toJson }[format];
+    downloadFile(reportFileName(report, format), render(report), REPORT_FILE_TYPES[format].mimeType);
+  };
+
+  const importReport = async (file: File) => {
+    let report: IncidentReport;
+    try {
+      report = parseIncidentReport(await file.text());
+    } catch (error) {
+      addSystemMessage(`❌ Could not import "${file.name}": ${describeError(error, 'Invalid report')}.`);
+      return;
+    }
+
+    stopGenerating();
+    setExpandedEvidence(new Set());
+    setMessages(
+      report.messages.map((message, i) => ({
+        id: `imported-${i}`,
+        role: message.role,
+        content: message.content,
+        timestamp: new Date(message.timestamp),
+        duration: message.durationMs,
+        evidenceLogs: message.evidenceLogs,
+        timeWindow: message.timeWindow,
+      })),
+    );
+    addSystemMessage(
+      `📥 Imported "${report.title}" (${report.platform}, ${report.brainModel}, ${report.source}). ` +
+        'New questions are answered without this conversation as context.',
+    );
+  };
+
+  const resetChat = async () => {
+    stopGenerating();
+    try {
+      await api.reset(sessionId);
     } catch {
       // Ignore reset errors
     }
+    await deleteInvestigation(sessionId).catch(() => undefined);
     setMessages([]);
     setExpandedEvidence(new Set());
+    setEvidenceSources({});
+    setSessionUsage(null);
     if (isConfigured) {
       addSystemMessage('🔄 Chat cleared. Ask me anything about the logs!');
     }
@@ -551,6 +1300,13 @@ export default function Playground(): JSX.Element {
     });
   };
 
+  const filterEvidence = (messageId: string, source: string | null) => {
+    setEvidenceSources(prev => {
+      const { [messageId]: _, ...rest } = prev;
+      return source === null ? rest : { ...rest, [messageId]: source };
+    });
+  };
+
   const getLevelColor = (level: string): string => {
     switch (level.toUpperCase()) {
       case 'ERROR': return styles.logError;
@@ -560,48 +1316,6 @@ export default function Playground(): JSX.Element {
     }
   };
 
-  const getCategoryIcon = (category?: string): string => {
-    switch (category) {
-      case 'payment': return '💳';
-      case 'database': return '🗄️';
-      case 'security': return '🛡️';
-      case 'application': return '🐛';
-      case 'performance': return '⚡';
-      case 'laravel': return '🔴';
-      case 'kubernetes': return '☸️';
-      case 'microservices': return '🔗';
-      default: return '📋';
-    }
-  };
-
-  const renderMessageContent = (content: string) => {
-    return content.split('\n').map((line, i) => {
-      if (line.startsWith('## ')) {
-        return <h4 key={i} className={styles.mdHeader}>{line.slice(3)}</h4>;
-      }
-      if (line.startsWith('**') && line.endsWith('**')) {
-        return <strong key={i} className={styles.mdBold}>{line.slice(2, -2)}</strong>;
-      }
-      const parts = line.split(/(\*\*.*?\*\*)/g);
-      return (
-        <React.Fragment key={i}>
-          {parts.map((part, j) => {
-            if (part.startsWith('**') && part.endsWith('**')) {
-              return <strong key={j}>{part.slice(2, -2)}</strong>;
-            }
-            return part.split(/(`[^`]+`)/g).map((codePart, k) => {
-              if (codePart.startsWith('`') && codePart.endsWith('`')) {
-                return <code key={k} className={styles.inlineCode}>{codePart.slice(1, -1)}</code>;
-              }
-              return codePart;
-            });
-          })}
-          {i < content.split('\n').length - 1 && <br />}
-        </React.Fragment>
-      );
-    });
-  };
-
   // Configuration screen
   if (!isConfigured) {
     return (
@@ -615,10 +1329,23 @@ export default function Playground(): JSX.Element {
               <p>Configure your AI platform to start analyzing logs</p>
             </div>
 
+            {demoMode && (
+              <div className={styles.demoBanner}>
+                <strong>🎭 Offline demo</strong>
+                <p>
+                  No server and no API key needed: the logs stay in your browser and the suggested questions
+                  replay answers recorded with a real model. The platform and key below are not used.
+                </p>
+                <button type="button" onClick={() => switchDemoMode(false)} className={styles.demoButton}>
+                  Use the API server instead
+                </button>
+              </div>
+            )}
+
             <div className={styles.configSection}>
               <label className={styles.configLabel}>Select AI Platform</label>
               <div className={styles.platformGrid}>
-                {PLATFORMS.map(platform => (
+                {platforms.map(platform => (
                   <button
                     key={platform.id}
                     className={`${styles.platformButton} ${selectedPlatform === platform.id ? styles.platformSelected : ''}`}
@@ -661,6 +1388,20 @@ export default function Playground(): JSX.Element {
               </select>
             </div>
 
+            {currentPlatform.id === 'ollama' && catalog?.ollama && !catalog.ollama.reachable && (
+              <div className={styles.modelWarning}>
+                ⚠️ Could not reach Ollama at <code>{catalog.ollama.host}</code> to check the installed models.
+              </div>
+            )}
+            {currentPlatform.id === 'ollama' && missingModels.length > 0 && (
+              <div className={styles.modelWarning}>
+                ⚠️ Not installed on this Ollama server:{' '}
+                {missingModels.map(model => (
+                  <code key={model}>ollama pull {model}</code>
+                ))}
+              </div>
+            )}
+
             {currentPlatform.requiresApiKey ? (
               <div className={styles.configSection}>
                 <label className={styles.configLabel}>
@@ -717,6 +1458,26 @@ export default function Playground(): JSX.Element {
               </div>
             )}
 
+            <div className={styles.configSection}>
+              <label className={styles.configLabel}>
+                Saved Credentials
+                <span className={styles.optionalBadge}>Optional</span>
+              </label>
+              <CredentialProfiles
+                current={{
+                  platform: selectedPlatform,
+                  brainModel: selectedBrainModel,
+                  embeddingModel: selectedEmbeddingModel,
+                  apiKey: currentPlatform.requiresApiKey ? apiKey.trim() : '',
+                  ollamaHost: currentPlatform.requiresApiKey ? '' : ollamaHost.trim(),
+                }}
+                platformIcons={Object.fromEntries(platforms.map(platform => [platform.id, platform.icon]))}
+                defaultName={`${currentPlatform.name} ${selectedBrainModel}`}
+                onUnlock={applyCredentialProfile}
+                onForgetAll={forgetAllCredentials}
+              />
+            </div>
+
             {/* File Upload Section */}
             <div className={styles.configSection}>
               <label className={styles.configLabel}>
@@ -727,27 +1488,43 @@ export default function Playground(): JSX.Element {
                 <input
                   ref={fileInputRef}
                   type="file"
-                  accept=".log,.txt"
+                  accept=".log,.txt,.out,text/plain"
+                  multiple
                   onChange={handleFileSelect}
                   className={styles.hiddenInput}
                 />
-                {uploadedFile ? (
-                  <div className={styles.uploadedFile}>
-                    <span className={styles.fileIcon}>📄</span>
-                    <div className={styles.fileInfo}>
-                      <span className={styles.fileName}>{uploadedFile.name}</span>
-                      <span className={styles.fileSize}>
-                        {(uploadedFile.size / 1024).toFixed(1)} KB
-                      </span>
-                    </div>
-                    <button
-                      type="button"
-                      onClick={handleRemoveFile}
-                      className={styles.removeFileButton}
-                    >
-                      ✕
+                {uploadedFiles.length > 0 ? (
+                  <>
+                    {uploadedFiles.map(({ file, source }, index) => (
+                      <div key={`${file.name}-${index}`} className={styles.uploadedFile}>
+                        <span className={styles.fileIcon}>📄</span>
+                        <div className={styles.fileInfo}>
+                          <span className={styles.fileName}>{file.name}</span>
+                          <span className={styles.fileSize}>
+                            {formatBytes(file.size)}
+                          </span>
+                          <input
+                            type="text"
+                            value={source}
+                            onChange={e => renameSource(index, e.target.value)}
+                            placeholder={file.name}
+                            className={styles.sourceInput}
+                            title="Source name, shown on each log of this file"
+                          />
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() => handleRemoveFile(index)}
+                          className={styles.removeFileButton}
+                        >
+                          ✕
+                        </button>
+                      </div>
+                    ))}
+                    <button type="button" onClick={handleUploadClick} className={styles.addFileButton}>
+                      ➕ Add another file
                     </button>
-                  </div>
+                  </>
                 ) : (
                   <button
                     type="button"
@@ -755,13 +1532,17 @@ export default function Playground(): JSX.Element {
                     className={styles.uploadButton}
                   >
                     <span className={styles.uploadIcon}>📁</span>
-                    <span>Choose a log file (.log, .txt)</span>
+                    <span>Choose log files (.log, .txt, .out)</span>
                     <span className={styles.uploadHint}>or use sample logs</span>
                   </button>
                 )}
               </div>
+              {uploadedFiles.length > 0 && !isInitializing && (
+                <LogParsePreview file={uploadedFiles[uploadedFiles.length - 1].file} />
+              )}
               <p className={styles.configHint}>
-                Upload your own log file to analyze, or leave empty to use sample logs. Max 10MB.
+                Upload your own log files to analyze, or leave empty to use sample logs. Each file is tagged with its
+                source name, e.g. one per service. Large files are sent in resumable chunks.
               </p>
             </div>
 
@@ -769,7 +1550,7 @@ export default function Playground(): JSX.Element {
               <span className={styles.securityIcon}>🔒</span>
               <span>
                 {currentPlatform.requiresApiKey
-                  ? 'Your API key is stored only in your browser session and is never saved on our servers. It will be cleared when you close this tab.'
+                  ? 'Your API key is stored only in your browser session and is never saved on our servers. It will be cleared when you close this tab, unless you remember it on this device, encrypted with your passphrase.'
                   : 'Ollama runs locally on your machine. No data is sent to external servers.'}
               </span>
             </div>
@@ -779,13 +1560,36 @@ export default function Playground(): JSX.Element {
                 <div className={styles.progressBar}>
                   <div
                     className={styles.progressFill}
-                    style={{ width: `${initProgress}%` }}
+                    style={{ width: `${isUploading ? uploadProgress : initProgress}%` }}
                   />
                 </div>
                 <div className={styles.loadingMessage}>
-                  <span className={styles.loadingSpinner}>⏳</span>
-                  {initMessage}
+                  <span className={styles.loadingSpinner}>{isUploading ? '📤' : '⏳'}</span>
+                  {isUploading ? `Uploading ${uploadingFile}: ${uploadMessage}` : initMessage}
                 </div>
+                {isUploading && (
+                  <button type="button" onClick={cancelUpload} className={styles.cancelUploadButton}>
+                    ✕ Cancel upload
+                  </button>
+                )}
+                {initStatus?.phases && (
+                  <div className={styles.phaseList}>
+                    {(['parsing', 'embedding', 'storing'] as const).map(phase => {
+                      const counts = initStatus.phases?.[phase];
+                      return (
+                        <span
+                          key={phase}
+                          className={`${styles.phaseItem} ${initStatus.phase === phase ? styles.phaseActive : ''}`}
+                        >
+                          {PHASE_LABELS[phase]} {counts ? `${counts.done}/${counts.total}` : '–'}
+                        </span>
+                      );
+                    })}
+                    {initStatus.eta_seconds != null && (
+                      <span className={styles.phaseItem}>ETA {formatEta(initStatus.eta_seconds)}</span>
+                    )}
+                  </div>
+                )}
                 {logsCount > 0 && (
                   <div className={styles.logsCountBadge}>
                     📋 {logsCount} logs indexed
@@ -796,17 +1600,21 @@ export default function Playground(): JSX.Element {
               <button
                 onClick={handleConfigure}
                 className={styles.startButton}
-                disabled={currentPlatform.requiresApiKey ? !apiKey.trim() : !ollamaHost.trim()}
+                disabled={!demoMode && (currentPlatform.requiresApiKey ? !apiKey.trim() : !ollamaHost.trim())}
               >
-                🚀 Start Analyzing Logs
+                {demoMode ? '🎭 Start the Demo' : '🚀 Start Analyzing Logs'}
               </button>
             )}
 
-            {apiConnected === false && (
+            {apiConnected === false && !demoMode && (
               <div className={styles.apiWarning}>
                 <strong>⚠️ API Server Not Running</strong>
                 <p>Start the playground API server:</p>
-                <code>php -S localhost:8080 examples/playground-api.php</code>
+                <code>PHP_CLI_SERVER_WORKERS=4 php -S localhost:8080 examples/playground-api.php</code>
+                <p>Or try it without a server, with recorded answers:</p>
+                <button type="button" onClick={() => switchDemoMode(true)} className={styles.demoButton}>
+                  🎭 Try the offline demo
+                </button>
               </div>
             )}
           </div>
@@ -824,7 +1632,28 @@ export default function Playground(): JSX.Element {
         {/* Sidebar with sample logs */}
         <aside className={`${styles.sidebar} ${showLogs ? styles.sidebarOpen : ''}`}>
           <div className={styles.sidebarHeader}>
-            <h3>📋 Logs ({sampleLogs.length})</h3>
+            <h3>
+              📋 Logs ({logCounts.filtered === logCounts.total
+                ? logCounts.total
+                : `${logCounts.filtered} / ${logCounts.total}`})
+            </h3>
+            {showLogs && (
+              <button
+                className={styles.addLogButton}
+                onClick={() => appendInputRef.current?.click()}
+                disabled={appendStatus !== null}
+                title={logSource === SAMPLE_LOGS_SOURCE ? 'Upload a log file in place of the sample logs' : 'Add a log file to this session'}
+              >
+                ➕ Add log file
+              </button>
+            )}
+            <input
+              ref={appendInputRef}
+              type="file"
+              accept=".log,.txt,.out,text/plain"
+              onChange={appendLogFile}
+              className={styles.hiddenInput}
+            />
             <button
               className={styles.toggleButton}
               onClick={() => setShowLogs(!showLogs)}
@@ -833,13 +1662,64 @@ export default function Playground(): JSX.Element {
               {showLogs ? '◀' : '▶'}
             </button>
           </div>
+          {showLogs && appendStatus && (
+            <div className={styles.appendStatus}>
+              <span>⏳ {appendStatus}</span>
+              <button type="button" onClick={cancelUpload} className={styles.removeFileButton} title="Cancel">
+                ✕
+              </button>
+            </div>
+          )}
           {showLogs && (
-            <div className={styles.logsList}>
-              {sampleLogs.map((log, index) => (
-                <div key={log.id || index} className={`${styles.logEntry} ${getLevelColor(log.level)}`}>
+            <div className={styles.sidebarTabs} role="tablist">
+              <button
+                type="button"
+                role="tab"
+                aria-selected={sidebarTab === 'logs'}
+                className={`${styles.sidebarTab} ${sidebarTab === 'logs' ? styles.sidebarTabActive : ''}`}
+                onClick={() => setSidebarTab('logs')}
+              >
+                📋 Logs
+              </button>
+              <button
+                type="button"
+                role="tab"
+                aria-selected={sidebarTab === 'patterns'}
+                className={`${styles.sidebarTab} ${sidebarTab === 'patterns' ? styles.sidebarTabActive : ''}`}
+                onClick={() => setSidebarTab('patterns')}
+                title="Messages grouped by template"
+              >
+                🧩 Patterns
+              </button>
+            </div>
+          )}
+          {showLogs && sidebarTab === 'patterns' && (
+            <LogPatterns
+              fetchPage={fetchLogsPage}
+              reloadKey={logsReloadKey}
+              onSelect={setSelectedLog}
+              onAsk={pattern => handleQuickQuestion(patternQuestion(pattern))}
+              askDisabled={isLoading}
+            />
+          )}
+          {showLogs && sidebarTab === 'logs' && (
+            <LogSearch fetchPage={fetchLogsPage} reloadKey={logsReloadKey} onSelect={setSelectedLog} />
+          )}
+          {showLogs && sidebarTab === 'logs' && (
+            <LogExplorer
+              fetchPage={fetchLogsPage}
+              reloadKey={logsReloadKey}
+              onCountsChange={handleLogCounts}
+              onTimeRangeChange={handleTimeRange}
+              renderEntry={log => (
+                <div
+                  className={`${styles.logEntry} ${styles.clickable} ${getLevelColor(log.level)}`}
+                  onClick={() => setSelectedLog(log)}
+                  title="Show details"
+                >
                   <div className={styles.logHeader}>
                     <span className={styles.logCategory}>
-                      {getCategoryIcon(log.category)} {log.category || 'general'}
+                      {categoryIcon(log.category)} {log.category || 'general'}
                     </span>
                     <span className={styles.logLevel}>{log.level}</span>
                   </div>
@@ -849,8 +1729,8 @@ export default function Playground(): JSX.Element {
                     <span className={styles.logTime}>{log.timestamp}</span>
                   </div>
                 </div>
-              ))}
-            </div>
+              )}
+            />
           )}
         </aside>
 
@@ -863,8 +1743,46 @@ export default function Playground(): JSX.Element {
                 {currentPlatform.icon} {currentPlatform.name}
               </span>
               <span className={styles.modelTag} title="Brain Model">{selectedBrainModel}</span>
+              {demoMode && (
+                <span className={styles.demoTag} title={`Recorded answers of ${RECORDED_BRAIN_MODEL}, no model is called`}>
+                  🎭 Offline demo
+                </span>
+              )}
+              <button
+                type="button"
+                onClick={() => setShowPrices(true)}
+                className={styles.usageTag}
+                title={`${sessionUsage ? describeTokenUsage(sessionUsage) : 'No tokens used yet'}\n\nClick to edit the token prices`}
+              >
+                🪙 {sessionUsage ? describeUsage(sessionUsage) : '0 tokens'}
+              </button>
             </div>
             <div className={styles.headerActions}>
+              <button onClick={openInvestigations} className={styles.clearButton}>
+                📂 Investigations
+              </button>
+              <button
+                onClick={() => setShowInsights(true)}
+                className={styles.clearButton}
+                title="Errors per category and level, recurring messages and how error rates moved"
+              >
+                📊 Insights
+              </button>
+              <button
+                onClick={() => setShowCompare(true)}
+                className={styles.clearButton}
+                title="Ask the same question to several models"
+              >
+                ⚖️ Compare
+              </button>
+              <ReportMenu
+                disabled={!messages.some(m => m.role === 'assistant' && !m.isStreaming)}
+                onExport={exportReport}
+                onImport={importReport}
+                feedbackCount={feedbackCount}
+                onExportFeedback={exportFeedback}
+                buttonClassName={styles.clearButton}
+              />
               <button onClick={resetChat} className={styles.clearButton}>
                 🔄 Clear
               </button>
@@ -895,9 +1813,26 @@ export default function Playground(): JSX.Element {
                 </div>
                 <div className={styles.messageContent}>
                   <div className={styles.messageText}>
-                    {renderMessageContent(message.content)}
+                    {message.role === 'user' ? message.content : <Markdown>{message.content}</Markdown>}
+                    {message.isStreaming && <span className={styles.streamCursor} />}
                   </div>
 
+                  {message.role !== 'system' && !message.isStreaming && extractIdentifiers(message.content).length > 0 && (
+                    <div className={styles.traceLinks}>
+                      {extractIdentifiers(message.content).map(identifier => (
+                        <button
+                          key={identifier}
+                          type="button"
+                          className={styles.traceLink}
+                          onClick={() => openTrace(identifier)}
+                          title="Show every log related to this identifier"
+                        >
+                          🔗 Trace {identifier}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+
                   {message.evidenceLogs && message.evidenceLogs.length > 0 && (
                     <div className={styles.evidenceSection}>
                       <button
@@ -912,36 +1847,103 @@ export default function Playground(): JSX.Element {
 
                       {expandedEvidence.has(message.id) && (
                         <div className={styles.evidenceLogs}>
-                          {message.evidenceLogs.map((log, idx) => (
-                            <div key={idx} className={`${styles.evidenceLog} ${getLevelColor(log.level)}`}>
-                              <div className={styles.evidenceLogHeader}>
-                                <span className={styles.evidenceLogId}>
-                                  {getCategoryIcon(log.category)} {log.id}
-                                </span>
-                                <span className={`${styles.evidenceLogLevel} ${getLevelColor(log.level)}`}>
-                                  {log.level}
-                                </span>
-                              </div>
-                              <div className={styles.evidenceLogMessage}>{log.message}</div>
-                              <div className={styles.evidenceLogTime}>{log.timestamp}</div>
+                          {new Set(message.evidenceLogs.map(log => log.source ?? '')).size > 1 && (
+                            <div className={styles.evidenceSources}>
+                              <button
+                                type="button"
+                                className={`${styles.traceLink} ${!evidenceSources[message.id] ? styles.evidenceSourceActive : ''}`}
+                                onClick={() => filterEvidence(message.id, null)}
+                              >
+                                All
+                              </button>
+                              {[...new Set(message.evidenceLogs.map(log => log.source ?? ''))].filter(Boolean).map(source => (
+                                <button
+                                  key={source}
+                                  type="button"
+                                  className={`${styles.traceLink} ${evidenceSources[message.id] === source ? styles.evidenceSourceActive : ''}`}
+                                  onClick={() => filterEvidence(message.id, source)}
+                                >
+                                  📄 {source}
+                                </button>
+                              ))}
                             </div>
-                          ))}
+                          )}
+                          {message.evidenceLogs
+                            .filter(log => !evidenceSources[message.id] || log.source === evidenceSources[message.id])
+                            .map((log, idx) => (
+                              <div
+                                key={idx}
+                                className={`${styles.evidenceLog} ${styles.clickable} ${getLevelColor(log.level)}`}
+                                onClick={() => setSelectedLog(log)}
+                                title="Show details"
+                              >
+                                <div className={styles.evidenceLogHeader}>
+                                  <span className={styles.evidenceLogId}>
+                                    {categoryIcon(log.category)} {log.id}
+                                  </span>
+                                  <span className={`${styles.evidenceLogLevel} ${getLevelColor(log.level)}`}>
+                                    {log.level}
+                                  </span>
+                                  <button
+                                    type="button"
+                                    className={`${styles.relevantToggle} ${feedbackFor(message)?.relevantIds.includes(log.id) ? styles.relevantActive : ''}`}
+                                    onClick={event => {
+                                      event.stopPropagation();
+                                      toggleRelevant(message, log.id);
+                                    }}
+                                    title="Mark whether this log really supports the answer"
+                                  >
+                                    {feedbackFor(message)?.relevantIds.includes(log.id) ? '✓ Relevant' : 'Relevant?'}
+                                  </button>
+                                </div>
+                                <div className={styles.evidenceLogMessage}>{log.message}</div>
+                                <div className={styles.evidenceLogTime}>
+                                  {log.timestamp}
+                                  {log.source && <span className={styles.evidenceLogSource}>📄 {log.source}</span>}
+                                </div>
+                              </div>
+                            ))}
                         </div>
                       )}
                     </div>
                   )}
 
+                  {message.toolCalls && message.toolCalls.length > 0 && (
+                    <ToolCallsPanel calls={message.toolCalls} onTrace={openTrace} />
+                  )}
+
                   <div className={styles.messageFooter}>
                     <span className={styles.messageTime}>{formatTimestamp(message.timestamp)}</span>
                     {message.duration && (
                       <span className={styles.messageDuration}>⏱️ {formatDuration(message.duration)}</span>
                     )}
+                    {message.usage && (
+                      <span className={styles.messageDuration} title={describeTokenUsage(message.usage)}>
+                        🪙 {describeUsage(message.usage)}
+                      </span>
+                    )}
+                    {message.stopped && (
+                      <span className={styles.messageStopped}>⏹️ Stopped</span>
+                    )}
+                    {message.timeWindow && (
+                      <span className={styles.messageDuration}>
+                        🕒 {message.timeWindow.from} → {message.timeWindow.to}
+                      </span>
+                    )}
                   </div>
+
+                  {message.role === 'assistant' && !message.isStreaming && (
+                    <FeedbackControls
+                      feedback={feedbackFor(message)}
+                      evidenceCount={message.evidenceLogs?.length ?? 0}
+                      onChange={fields => updateFeedback(message, fields)}
+                    />
+                  )}
                 </div>
               </div>
             ))}
 
-            {isLoading && (
+            {isLoading && !messages.some(m => m.isStreaming) && (
               <div className={`${styles.message} ${styles.assistant}`}>
                 <div className={styles.messageAvatar}>🤖</div>
                 <div className={styles.messageContent}>
@@ -957,19 +1959,28 @@ export default function Playground(): JSX.Element {
             <div ref={messagesEndRef} />
           </div>
 
-          {/* Quick questions */}
-          <div className={styles.quickQuestions}>
-            {QUICK_QUESTIONS.map(q => (
-              <button
-                key={q.label}
-                onClick={() => handleQuickQuestion(q.label)}
-                className={styles.quickButton}
-                disabled={isLoading}
-              >
-                {q.icon} {q.label}
-              </button>
-            ))}
-          </div>
+          <SuggestedQuestions
+            suggestions={suggestions}
+            followUps={followUps}
+            pinned={pinnedQuestions}
+            draft={input}
+            disabled={isLoading}
+            onAsk={handleQuickQuestion}
+            onPinnedChange={updatePinnedQuestions}
+          />
+
+          {timeWindow && (
+            <div className={styles.timeWindowBar}>
+              <label className={styles.timeWindowToggle}>
+                <input
+                  type="checkbox"
+                  checked={useTimeWindow}
+                  onChange={e => setUseTimeWindow(e.target.checked)}
+                />
+                🕒 Ask about {timeWindow.from} → {timeWindow.to}
+              </label>
+            </div>
+          )}
 
           {/* Input form */}
           <form onSubmit={handleSubmit} className={styles.inputForm}>
@@ -981,16 +1992,81 @@ export default function Playground(): JSX.Element {
               className={styles.input}
               disabled={isLoading}
             />
-            <button
-              type="submit"
-              className={styles.sendButton}
-              disabled={!input.trim() || isLoading}
-            >
-              {isLoading ? '⏳' : '📤'} Send
-            </button>
+            {isLoading ? (
+              <button
+                type="button"
+                onClick={stopGenerating}
+                className={styles.stopButton}
+              >
+                ⏹️ Stop
+              </button>
+            ) : (
+              <button
+                type="submit"
+                className={styles.sendButton}
+                disabled={!input.trim()}
+              >
+                📤 Send
+              </button>
+            )}
           </form>
         </main>
       </div>
+
+      {selectedLog && (
+        <LogDetailDrawer
+          log={selectedLog}
+          loadNeighbours={fetchLogNeighbours}
+          onSelect={setSelectedLog}
+          onTrace={openTrace}
+          onClose={closeLogDetail}
+        />
+      )}
+
+      {showInvestigations && (
+        <InvestigationList
+          investigations={investigations}
+          currentId={sessionId}
+          getBlockedReason={getResumeBlockedReason}
+          onResume={resumeInvestigation}
+          onRename={renameInvestigation}
+          onDelete={removeInvestigation}
+          onClose={closeInvestigations}
+        />
+      )}
+
+      {showCompare && (
+        <ModelComparison
+          platforms={platforms}
+          initialCandidates={compareCandidates()}
+          initialQuestion={input.trim() || ([...messages].reverse().find(m => m.role === 'user')?.content ?? '')}
+          runCandidate={runComparison}
+          onClose={closeCompare}
+        />
+      )}
+
+      {showInsights && (
+        <InsightsPanel
+          fetchPage={fetchLogsPage}
+          reloadKey={logsReloadKey}
+          summarize={summarizeLogs}
+          onClose={closeInsights}
+        />
+      )}
+
+      {showPrices && (
+        <PriceTable
+          prices={prices}
+          usage={sessionUsage}
+          freeModels={freeModels}
+          onChange={updatePrices}
+          onClose={closePrices}
+        />
+      )}
+
+      {traceIdentifier && (
+        <RequestTrace identifier={traceIdentifier} loadTrace={fetchTrace} onClose={closeTrace} />
+      )}
     </Layout>
   );
 }
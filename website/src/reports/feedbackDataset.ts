@@ -0,0 +1,47 @@
+import type { AnswerFeedback } from '@site/src/storage';
+
+export const FEEDBACK_DATASET_FILE_TYPE = { extension: 'jsonl', mimeType: 'application/x-ndjson' };
+
+/**
+ * One line of the dataset: a question with the answer it got and the log ids
+ * a correct answer should cite, to replay against other prompts or models.
+ */
+export interface FeedbackDatasetRow {
+  session_id: string;
+  question: string;
+  answer: string;
+  evidence_ids: string[];
+  /** Evidence marked as relevant; empty when nobody went through the evidence. */
+  correct_ids: string[];
+  rating: 'up' | 'down' | null;
+  tags: string[];
+  comment: string;
+  platform: string;
+  brain_model: string;
+  embedding_model: string;
+  source: string;
+  updated_at: string;
+}
+
+export function toFeedbackDatasetRow(feedback: AnswerFeedback): FeedbackDatasetRow {
+  return {
+    session_id: feedback.sessionId,
+    question: feedback.question,
+    answer: feedback.answer,
+    evidence_ids: feedback.evidenceIds,
+    correct_ids: feedback.relevantIds,
+    rating: feedback.rating,
+    tags: feedback.tags,
+    comment: feedback.comment.trim(),
+    platform: feedback.platform,
+    brain_model: feedback.brainModel,
+    embedding_model: feedback.embeddingModel,
+    source: feedback.source,
+    updated_at: feedback.updatedAt,
+  };
+}
+
+/** JSON Lines: one row per answer, newline terminated. */
+export function toFeedbackJsonl(feedback: AnswerFeedback[]): string {
+  return feedback.map(entry => `${JSON.stringify(toFeedbackDatasetRow(entry))}\n`).join('');
+}
@@ -0,0 +1,150 @@
+import type { ReactNode } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import Markdown from '@site/src/components/Markdown';
+import { formatReportDuration, groupReportTurns, type IncidentReport } from './incidentReport';
+
+const LEVEL_COLORS: Record<string, string> = {
+  INFO: '#0d6efd',
+  WARNING: '#ffc107',
+  ERROR: '#dc3545',
+  CRITICAL: '#880808',
+};
+
+/** Inlined so the file renders the same wherever it is opened. */
+const REPORT_STYLES = `
+  body { max-width: 860px; margin: 2rem auto; padding: 0 1rem; font: 15px/1.6 system-ui, -apple-system, sans-serif; color: #1c1e21; }
+  h1 { font-size: 1.6rem; margin-bottom: 0.5rem; }
+  h2 { margin-top: 2.5rem; padding-top: 1rem; border-top: 1px solid #dadde1; font-size: 1.2rem; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; font-size: 0.9rem; }
+  dt { font-weight: 600; }
+  dd { margin: 0; }
+  blockquote { margin: 0.5rem 0; padding: 0.5rem 1rem; border-left: 4px solid #2e8555; background: #f5f6f7; white-space: pre-wrap; }
+  .note { color: #606770; font-size: 0.85rem; }
+  .answer pre { padding: 0.75rem; overflow-x: auto; background: #f6f8fa; border-radius: 6px; font-size: 0.85rem; }
+  .answer code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; }
+  .answer table, .evidence { border-collapse: collapse; font-size: 0.85rem; }
+  .answer th, .answer td, .evidence th, .evidence td { padding: 0.3rem 0.6rem; border: 1px solid #dadde1; text-align: left; vertical-align: top; }
+  .level { font-weight: 700; }
+`;
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function Turn({ question, replies, index }: ReturnType<typeof groupReportTurns>[number] & { index: number }): ReactNode {
+  return (
+    <section>
+      {question && (
+        <>
+          <h2>
+            {index + 1}. {question.content.trim().split('\n')[0]}
+          </h2>
+          <p className="note">
+            Asked {question.timestamp}
+            {question.timeWindow && ` · logs between ${question.timeWindow.from} and ${question.timeWindow.to}`}
+          </p>
+          <blockquote>{question.content}</blockquote>
+        </>
+      )}
+      {replies.map((reply, i) =>
+        reply.role === 'system' ? (
+          <p key={i} className="note">
+            ℹ️ {reply.content}
+          </p>
+        ) : (
+          <div key={i}>
+            <h3>Answer</h3>
+            <div className="answer">
+              <Markdown
+                renderCode={(code, language) => (
+                  <pre>
+                    <code className={language ? `language-${language}` : undefined}>{code}</code>
+                  </pre>
+                )}
+              >
+                {reply.content}
+              </Markdown>
+            </div>
+            {reply.durationMs !== undefined && (
+              <p className="note">Answered in {formatReportDuration(reply.durationMs)}</p>
+            )}
+            {reply.evidenceLogs && reply.evidenceLogs.length > 0 && (
+              <>
+                <h4>Evidence ({reply.evidenceLogs.length})</h4>
+                <table className="evidence">
+                  <thead>
+                    <tr>
+                      <th>ID</th>
+                      <th>Level</th>
+                      <th>Timestamp</th>
+                      <th>Message</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {reply.evidenceLogs.map(log => (
+                      <tr key={log.id}>
+                        <td>
+                          <code>{log.id}</code>
+                        </td>
+                        <td className="level" style={{ color: LEVEL_COLORS[log.level] }}>
+                          {log.level}
+                        </td>
+                        <td>{log.timestamp}</td>
+                        <td>{log.message}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </>
+            )}
+          </div>
+        ),
+      )}
+    </section>
+  );
+}
+
+/**
+ * Standalone HTML page for sharing. Answers go through the same sanitizing
+ * Markdown renderer as the chat, so the file carries no script from the model.
+ */
+export function toHtml(report: IncidentReport): string {
+  const body = renderToStaticMarkup(
+    <>
+      <h1>Incident report: {report.title}</h1>
+      <dl>
+        <dt>Exported</dt>
+        <dd>{report.exportedAt}</dd>
+        <dt>Platform</dt>
+        <dd>{report.platform}</dd>
+        <dt>Brain model</dt>
+        <dd>{report.brainModel}</dd>
+        <dt>Embedding model</dt>
+        <dd>{report.embeddingModel}</dd>
+        <dt>Logs</dt>
+        <dd>{report.source}</dd>
+        <dt>Session</dt>
+        <dd>
+          <code>{report.sessionId}</code>
+        </dd>
+      </dl>
+      {groupReportTurns(report.messages).map((turn, index) => (
+        <Turn key={index} index={index} {...turn} />
+      ))}
+    </>,
+  );
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Incident report: ${escapeHtml(report.title)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,190 @@
+import type { LogEntry } from '@site/src/api';
+import {
+  DecodeError,
+  decodeLogEntries,
+  expectArray,
+  expectObject,
+  expectString,
+  optionalNumber,
+  optionalString,
+} from '@site/src/api/validation';
+
+/** Marks JSON files the playground can import again. */
+export const REPORT_FORMAT = 'ai-log-inspector/incident-report';
+export const REPORT_VERSION = 1;
+
+export interface ReportMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  /** ISO 8601. */
+  timestamp: string;
+  durationMs?: number;
+  evidenceLogs?: LogEntry[];
+  timeWindow?: { from: string; to: string };
+}
+
+export interface IncidentReport {
+  format: typeof REPORT_FORMAT;
+  version: number;
+  title: string;
+  exportedAt: string;
+  sessionId: string;
+  platform: string;
+  brainModel: string;
+  embeddingModel: string;
+  /** Uploaded file name, or "Sample logs". */
+  source: string;
+  messages: ReportMessage[];
+}
+
+export type ReportFormat = 'markdown' | 'html' | 'json';
+
+export const REPORT_FILE_TYPES: Record<ReportFormat, { extension: string; mimeType: string }> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  html: { extension: 'html', mimeType: 'text/html' },
+  json: { extension: 'json', mimeType: 'application/json' },
+};
+
+export function formatReportDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+/** Pairs each question with the answer and notes that followed it. */
+export function groupReportTurns(messages: ReportMessage[]): Array<{ question: ReportMessage | null; replies: ReportMessage[] }> {
+  const turns: Array<{ question: ReportMessage | null; replies: ReportMessage[] }> = [];
+  for (const message of messages) {
+    if (message.role === 'user') {
+      turns.push({ question: message, replies: [] });
+    } else if (turns.length === 0) {
+      turns.push({ question: null, replies: [message] });
+    } else {
+      turns[turns.length - 1].replies.push(message);
+    }
+  }
+  return turns;
+}
+
+export function reportFileName(report: IncidentReport, format: ReportFormat): string {
+  const slug = report.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 50) || 'investigation';
+  return `incident-${slug}-${report.exportedAt.slice(0, 10)}.${REPORT_FILE_TYPES[format].extension}`;
+}
+
+function escapeTableCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+function firstLine(text: string): string {
+  return text.trim().split('\n')[0];
+}
+
+/**
+ * Markdown for tickets: one section per question, with the answer quoted
+ * as is and its evidence as a table.
+ */
+export function toMarkdown(report: IncidentReport): string {
+  const lines = [
+    `# Incident report: ${report.title}`,
+    '',
+    `- **Exported:** ${report.exportedAt}`,
+    `- **Platform:** ${report.platform}`,
+    `- **Brain model:** ${report.brainModel}`,
+    `- **Embedding model:** ${report.embeddingModel}`,
+    `- **Logs:** ${report.source}`,
+    `- **Session:** \`${report.sessionId}\``,
+    '',
+  ];
+
+  groupReportTurns(report.messages).forEach(({ question, replies }, index) => {
+    if (question) {
+      lines.push(`## ${index + 1}. ${firstLine(question.content)}`, '');
+      lines.push(`*Asked ${question.timestamp}*`);
+      if (question.timeWindow) {
+        lines.push(`*Logs between ${question.timeWindow.from} and ${question.timeWindow.to}*`);
+      }
+      lines.push('', ...question.content.split('\n').map(line => `> ${line}`), '');
+    }
+
+    for (const reply of replies) {
+      if (reply.role === 'system') {
+        lines.push(`> ℹ️ ${reply.content.replace(/\n/g, ' ')}`, '');
+        continue;
+      }
+      lines.push('### Answer', '', reply.content, '');
+      if (reply.durationMs !== undefined) {
+        lines.push(`*Answered in ${formatReportDuration(reply.durationMs)}*`, '');
+      }
+      if (reply.evidenceLogs && reply.evidenceLogs.length > 0) {
+        lines.push(`#### Evidence (${reply.evidenceLogs.length})`, '');
+        lines.push('| ID | Level | Timestamp | Message |', '| --- | --- | --- | --- |');
+        for (const log of reply.evidenceLogs) {
+          lines.push(
+            `| \`${log.id}\` | ${log.level} | ${log.timestamp} | ${escapeTableCell(log.message)} |`,
+          );
+        }
+        lines.push('');
+      }
+    }
+  });
+
+  return lines.join('\n');
+}
+
+export function toJson(report: IncidentReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+function decodeReportMessage(value: unknown, path: string): ReportMessage {
+  const data = expectObject(value, path);
+  const role = expectString(data.role, `${path}.role`);
+  if (role !== 'user' && role !== 'assistant' && role !== 'system') {
+    throw new DecodeError(`${path}.role must be "user", "assistant" or "system"`);
+  }
+  const timeWindow = data.timeWindow === undefined ? undefined : expectObject(data.timeWindow, `${path}.timeWindow`);
+  return {
+    role,
+    content: expectString(data.content, `${path}.content`),
+    timestamp: expectString(data.timestamp, `${path}.timestamp`),
+    durationMs: optionalNumber(data.durationMs, `${path}.durationMs`),
+    evidenceLogs:
+      data.evidenceLogs === undefined ? undefined : decodeLogEntries(data.evidenceLogs, `${path}.evidenceLogs`),
+    timeWindow: timeWindow && {
+      from: expectString(timeWindow.from, `${path}.timeWindow.from`),
+      to: expectString(timeWindow.to, `${path}.timeWindow.to`),
+    },
+  };
+}
+
+/**
+ * Reads a report exported with toJson(). Throws a DecodeError describing
+ * the first problem when the file is not a report.
+ */
+export function parseIncidentReport(text: string): IncidentReport {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new DecodeError('the file is not valid JSON');
+  }
+
+  const data = expectObject(value, 'report');
+  if (data.format !== REPORT_FORMAT) {
+    throw new DecodeError('the file is not an incident report exported from the playground');
+  }
+  const version = optionalNumber(data.version, 'version') ?? REPORT_VERSION;
+  if (version > REPORT_VERSION) {
+    throw new DecodeError(`report version ${version} is newer than this playground supports`);
+  }
+
+  return {
+    format: REPORT_FORMAT,
+    version,
+    title: expectString(data.title, 'title'),
+    exportedAt: expectString(data.exportedAt, 'exportedAt'),
+    sessionId: expectString(data.sessionId, 'sessionId'),
+    platform: expectString(data.platform, 'platform'),
+    brainModel: expectString(data.brainModel, 'brainModel'),
+    embeddingModel: expectString(data.embeddingModel, 'embeddingModel'),
+    source: optionalString(data.source, 'source') ?? 'Unknown',
+    messages: expectArray(data.messages, 'messages').map((item, i) => decodeReportMessage(item, `messages[${i}]`)),
+  };
+}
@@ -0,0 +1,3 @@
+export * from './incidentReport';
+export { toHtml } from './html';
+export * from './feedbackDataset';
@@ -0,0 +1,149 @@
+import type { PlatformId } from '@site/src/api';
+
+/**
+ * Credentials remembered on this device, as the configuration screen uses them.
+ */
+export interface CredentialProfile {
+  name: string;
+  platform: PlatformId;
+  brainModel: string;
+  embeddingModel: string;
+  apiKey: string;
+  ollamaHost: string;
+}
+
+/** What can be listed without the passphrase. */
+export interface CredentialProfileSummary {
+  name: string;
+  platform: PlatformId;
+  updatedAt: string;
+}
+
+interface StoredProfile extends CredentialProfileSummary {
+  /** Base64 PBKDF2 salt, AES-GCM iv and ciphertext of the secret fields. */
+  salt: string;
+  iv: string;
+  data: string;
+}
+
+type SecretFields = Omit<CredentialProfile, 'name' | 'platform'>;
+
+export class WrongPassphraseError extends Error {
+  constructor(name: string) {
+    super(`Wrong passphrase for "${name}"`);
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+const STORAGE_KEY = 'log-inspector-credentials';
+const PBKDF2_ITERATIONS = 600_000;
+
+export function isCredentialStorageAvailable(): boolean {
+  return typeof localStorage !== 'undefined' && typeof crypto !== 'undefined' && crypto.subtle !== undefined;
+}
+
+function readProfiles(): StoredProfile[] {
+  if (!isCredentialStorageAvailable()) {
+    return [];
+  }
+  try {
+    const profiles: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(profiles) ? (profiles as StoredProfile[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeProfiles(profiles: StoredProfile[]): void {
+  if (profiles.length === 0) {
+    localStorage.removeItem(STORAGE_KEY);
+  } else {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, [
+    'deriveKey',
+  ]);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+/** Most recently saved first. */
+export function listCredentialProfiles(): CredentialProfileSummary[] {
+  return readProfiles()
+    .map(({ name, platform, updatedAt }) => ({ name, platform, updatedAt }))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Encrypts the key, host and models of `profile` with `passphrase` (AES-GCM,
+ * key derived with PBKDF2) and stores them, replacing a profile of the same name.
+ */
+export async function saveCredentialProfile(profile: CredentialProfile, passphrase: string): Promise<void> {
+  const { name, platform, ...secrets } = profile;
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt);
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(secrets satisfies SecretFields)),
+  );
+
+  const stored: StoredProfile = {
+    name,
+    platform,
+    updatedAt: new Date().toISOString(),
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    data: toBase64(new Uint8Array(encrypted)),
+  };
+  writeProfiles([...readProfiles().filter(p => p.name !== name), stored]);
+}
+
+/**
+ * @throws WrongPassphraseError when `passphrase` does not decrypt the profile
+ */
+export async function unlockCredentialProfile(name: string, passphrase: string): Promise<CredentialProfile> {
+  const stored = readProfiles().find(p => p.name === name);
+  if (!stored) {
+    throw new Error(`No saved credentials named "${name}"`);
+  }
+
+  let decrypted: ArrayBuffer;
+  try {
+    const key = await deriveKey(passphrase, fromBase64(stored.salt));
+    decrypted = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(stored.iv) }, key, fromBase64(stored.data));
+  } catch {
+    // AES-GCM authentication fails on a wrong key: nothing else tells them apart
+    throw new WrongPassphraseError(name);
+  }
+
+  const secrets = JSON.parse(new TextDecoder().decode(decrypted)) as SecretFields;
+  return { name: stored.name, platform: stored.platform, ...secrets };
+}
+
+export function deleteCredentialProfile(name: string): void {
+  writeProfiles(readProfiles().filter(p => p.name !== name));
+}
+
+export function forgetAllCredentialProfiles(): void {
+  if (isCredentialStorageAvailable()) {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+}
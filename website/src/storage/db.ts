@@ -0,0 +1,70 @@
+const DB_NAME = 'ai-log-inspector';
+const DB_VERSION = 4;
+
+export const STORES = {
+  investigations: 'investigations',
+  settings: 'settings',
+  feedback: 'feedback',
+  evaluations: 'evaluations',
+} as const;
+
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let database: Promise<IDBDatabase> | null = null;
+
+export function isStorageAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!isStorageAvailable()) {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = event => {
+      const db = request.result;
+      // One step per version, so older databases catch up
+      if (event.oldVersion < 1) {
+        db.createObjectStore(STORES.investigations, { keyPath: 'id' });
+      }
+      if (event.oldVersion < 2) {
+        db.createObjectStore(STORES.settings, { keyPath: 'key' });
+      }
+      if (event.oldVersion < 3) {
+        db.createObjectStore(STORES.feedback, { keyPath: 'id' }).createIndex('sessionId', 'sessionId');
+      }
+      if (event.oldVersion < 4) {
+        db.createObjectStore(STORES.evaluations, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('The database is open in an older version of the page'));
+  }).catch(error => {
+    database = null;
+    throw error;
+  });
+
+  return database;
+}
+
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Runs one request against `store` in its own transaction.
+ */
+export async function withStore<T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  run: (objectStore: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  return settle(run(db.transaction(store, mode).objectStore(store)));
+}
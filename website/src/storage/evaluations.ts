@@ -0,0 +1,19 @@
+import type { EvaluationRun } from '@site/src/evaluation';
+import { STORES, isStorageAvailable, withStore } from './db';
+
+/** Most recent first; empty when IndexedDB is unavailable. */
+export async function listEvaluationRuns(): Promise<EvaluationRun[]> {
+  if (!isStorageAvailable()) {
+    return [];
+  }
+  const runs = await withStore(STORES.evaluations, 'readonly', store => store.getAll() as IDBRequest<EvaluationRun[]>);
+  return runs.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+export async function saveEvaluationRun(run: EvaluationRun): Promise<void> {
+  await withStore(STORES.evaluations, 'readwrite', store => store.put(run));
+}
+
+export async function deleteEvaluationRun(id: string): Promise<void> {
+  await withStore(STORES.evaluations, 'readwrite', store => store.delete(id));
+}
@@ -0,0 +1,61 @@
+import type { PlatformId } from '@site/src/api';
+import { STORES, isStorageAvailable, withStore } from './db';
+
+export type FeedbackRating = 'up' | 'down';
+
+/** Tags offered on an answer; the dataset keeps them as written. */
+export const FEEDBACK_TAGS = ['wrong root cause', 'missing evidence', 'hallucinated log ID', 'irrelevant evidence'];
+
+/**
+ * What someone thought of one answer, with what is needed to ask the same
+ * question again: the feedback is the start of an evaluation dataset.
+ */
+export interface AnswerFeedback {
+  /** `${sessionId}/${messageId}`. */
+  id: string;
+  sessionId: string;
+  messageId: string;
+  rating: FeedbackRating | null;
+  tags: string[];
+  comment: string;
+  question: string;
+  answer: string;
+  /** Ids of the evidence logs returned with the answer. */
+  evidenceIds: string[];
+  /** Evidence ids marked as actually relevant. */
+  relevantIds: string[];
+  platform: PlatformId;
+  brainModel: string;
+  embeddingModel: string;
+  /** Uploaded file name, or "Sample logs". */
+  source: string;
+  updatedAt: string;
+}
+
+export function feedbackId(sessionId: string, messageId: string): string {
+  return `${sessionId}/${messageId}`;
+}
+
+/** Feedback that says something; an answer reset to neutral is not worth keeping. */
+export function hasFeedback(feedback: AnswerFeedback): boolean {
+  return feedback.rating !== null || feedback.tags.length > 0 || feedback.comment.trim() !== '' || feedback.relevantIds.length > 0;
+}
+
+/** Feedback of one session, or of every session; empty when IndexedDB is unavailable. */
+export async function listFeedback(sessionId?: string): Promise<AnswerFeedback[]> {
+  if (!isStorageAvailable()) {
+    return [];
+  }
+  const feedback = await withStore(STORES.feedback, 'readonly', store =>
+    (sessionId === undefined ? store.getAll() : store.index('sessionId').getAll(sessionId)) as IDBRequest<AnswerFeedback[]>,
+  );
+  return feedback.sort((a, b) => a.updatedAt.localeCompare(b.updatedAt));
+}
+
+export async function saveFeedback(feedback: AnswerFeedback): Promise<void> {
+  await withStore(STORES.feedback, 'readwrite', store => store.put(feedback));
+}
+
+export async function deleteFeedback(id: string): Promise<void> {
+  await withStore(STORES.feedback, 'readwrite', store => store.delete(id));
+}
@@ -0,0 +1,7 @@
+export { isStorageAvailable } from './db';
+export * from './investigations';
+export * from './settings';
+export * from './credentials';
+export * from './questions';
+export * from './feedback';
+export * from './evaluations';
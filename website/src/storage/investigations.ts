@@ -0,0 +1,55 @@
+import type { PlatformId, TokenUsage } from '@site/src/api';
+import { STORES, isStorageAvailable, withStore } from './db';
+
+/**
+ * A conversation saved in the browser. The messages themselves stay on the
+ * server (SessionMessageStore) and come back through `/history`.
+ */
+export interface Investigation {
+  /** Server session id. */
+  id: string;
+  title: string;
+  platform: PlatformId;
+  brainModel: string;
+  embeddingModel: string;
+  /** Uploaded file name, or "Sample logs". */
+  source: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+  /** Tokens used so far by the answers of the conversation. */
+  usage?: TokenUsage;
+}
+
+const TITLE_LENGTH = 60;
+
+export function titleFromQuestion(question: string): string {
+  const line = question.trim().split('\n')[0];
+  return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH - 1)}…` : line;
+}
+
+/** Most recently updated first; empty when IndexedDB is unavailable. */
+export async function listInvestigations(): Promise<Investigation[]> {
+  if (!isStorageAvailable()) {
+    return [];
+  }
+  const investigations = await withStore(STORES.investigations, 'readonly', store =>
+    store.getAll() as IDBRequest<Investigation[]>,
+  );
+  return investigations.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function getInvestigation(id: string): Promise<Investigation | null> {
+  const investigation = await withStore(STORES.investigations, 'readonly', store =>
+    store.get(id) as IDBRequest<Investigation | undefined>,
+  );
+  return investigation ?? null;
+}
+
+export async function saveInvestigation(investigation: Investigation): Promise<void> {
+  await withStore(STORES.investigations, 'readwrite', store => store.put(investigation));
+}
+
+export async function deleteInvestigation(id: string): Promise<void> {
+  await withStore(STORES.investigations, 'readwrite', store => store.delete(id));
+}
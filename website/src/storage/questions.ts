@@ -0,0 +1,39 @@
+import { SETTINGS, loadSetting, saveSetting } from './settings';
+
+/**
+ * Questions each team pinned, and the team this browser asks for.
+ */
+export interface PinnedQuestions {
+  team: string;
+  teams: Record<string, string[]>;
+}
+
+export const DEFAULT_TEAM = 'My team';
+
+export const EMPTY_PINNED_QUESTIONS: PinnedQuestions = { team: DEFAULT_TEAM, teams: {} };
+
+export async function loadPinnedQuestions(): Promise<PinnedQuestions> {
+  return (await loadSetting<PinnedQuestions>(SETTINGS.pinnedQuestions)) ?? EMPTY_PINNED_QUESTIONS;
+}
+
+export async function savePinnedQuestions(pinned: PinnedQuestions): Promise<void> {
+  await saveSetting(SETTINGS.pinnedQuestions, pinned);
+}
+
+/** The team being typed may be blank for a moment. */
+function teamName(pinned: PinnedQuestions): string {
+  return pinned.team.trim() || DEFAULT_TEAM;
+}
+
+export function pinnedQuestionsOf(pinned: PinnedQuestions): string[] {
+  return pinned.teams[teamName(pinned)] ?? [];
+}
+
+/** Pins `question` for the current team, or unpins it when already pinned. */
+export function togglePinnedQuestion(pinned: PinnedQuestions, question: string): PinnedQuestions {
+  const current = pinnedQuestionsOf(pinned);
+  const next = current.includes(question) ? current.filter(q => q !== question) : [...current, question];
+  const team = teamName(pinned);
+  const { [team]: _, ...others } = pinned.teams;
+  return { team, teams: next.length > 0 ? { ...others, [team]: next } : others };
+}
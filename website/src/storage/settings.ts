@@ -0,0 +1,35 @@
+import { STORES, isStorageAvailable, withStore } from './db';
+
+interface Setting<T> {
+  key: string;
+  value: T;
+}
+
+/**
+ * Preferences kept in the browser, such as the price table.
+ */
+export const SETTINGS = {
+  prices: 'prices',
+  pinnedQuestions: 'pinned-questions',
+} as const;
+
+export type SettingKey = (typeof SETTINGS)[keyof typeof SETTINGS];
+
+/** Null when never saved or when IndexedDB is unavailable. */
+export async function loadSetting<T>(key: SettingKey): Promise<T | null> {
+  if (!isStorageAvailable()) {
+    return null;
+  }
+  const setting = await withStore(STORES.settings, 'readonly', store =>
+    store.get(key) as IDBRequest<Setting<T> | undefined>,
+  );
+  return setting?.value ?? null;
+}
+
+export async function saveSetting<T>(key: SettingKey, value: T): Promise<void> {
+  await withStore(STORES.settings, 'readwrite', store => store.put({ key, value } satisfies Setting<T>));
+}
+
+export async function deleteSetting(key: SettingKey): Promise<void> {
+  await withStore(STORES.settings, 'readwrite', store => store.delete(key));
+}
@@ -0,0 +1,68 @@
+import type { TokenUsage } from '@site/src/api';
+
+/**
+ * USD per million tokens. Embedding models only have an input price.
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/** By model name, as the platform reports it. */
+export type PriceTable = Record<string, ModelPrice>;
+
+/**
+ * List prices when this table was written; they change, hence the editable
+ * table in the playground. Local Ollama models cost nothing per token.
+ */
+export const DEFAULT_PRICES: PriceTable = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-3-large': { input: 0.13, output: 0 },
+  'claude-sonnet-4-20250514': { input: 3, output: 15 },
+  'claude-opus-4-20250514': { input: 15, output: 75 },
+  'claude-3-5-haiku-latest': { input: 0.8, output: 4 },
+};
+
+export interface CostEstimate {
+  /** USD, for the models with a price. */
+  cost: number;
+  /** Models that used tokens but are missing from the price table. */
+  unpriced: string[];
+}
+
+/**
+ * Cost of `usage` with `prices`. Models of a free platform (Ollama) are
+ * neither priced nor reported as unpriced.
+ */
+export function estimateCost(usage: TokenUsage, prices: PriceTable, freeModels: string[] = []): CostEstimate {
+  let cost = 0;
+  const unpriced: string[] = [];
+  for (const [model, modelUsage] of Object.entries(usage.models)) {
+    const price = prices[model];
+    if (!price) {
+      if (!freeModels.includes(model)) {
+        unpriced.push(model);
+      }
+      continue;
+    }
+    const inputTokens = modelUsage.prompt_tokens + modelUsage.embedding_tokens;
+    cost += (inputTokens * price.input + modelUsage.completion_tokens * price.output) / 1_000_000;
+  }
+  return { cost, unpriced };
+}
+
+/** "$0.0042", "$1.27"; small amounts keep enough digits to compare answers. */
+export function formatCost(cost: number): string {
+  if (cost === 0) {
+    return '$0';
+  }
+  if (cost < 0.0001) {
+    return '<$0.0001';
+  }
+  return cost < 0.01 ? `$${cost.toPrecision(2)}` : `$${cost.toFixed(2)}`;
+}
@@ -0,0 +1,74 @@
+import type { ModelTokenUsage, TokenUsage } from '@site/src/api';
+
+export function emptyTokenUsage(): TokenUsage {
+  return {
+    prompt_tokens: 0,
+    completion_tokens: 0,
+    embedding_tokens: 0,
+    total_tokens: 0,
+    calls: 0,
+    estimated: false,
+    models: {},
+  };
+}
+
+/**
+ * Sum of two usages, model by model; used for the running session total.
+ */
+export function addTokenUsage(total: TokenUsage | null, usage: TokenUsage | null | undefined): TokenUsage | null {
+  if (!usage) {
+    return total;
+  }
+  const sum = total ?? emptyTokenUsage();
+  const models: Record<string, ModelTokenUsage> = { ...sum.models };
+  for (const [model, modelUsage] of Object.entries(usage.models)) {
+    const previous = models[model];
+    models[model] = previous
+      ? {
+          prompt_tokens: previous.prompt_tokens + modelUsage.prompt_tokens,
+          completion_tokens: previous.completion_tokens + modelUsage.completion_tokens,
+          embedding_tokens: previous.embedding_tokens + modelUsage.embedding_tokens,
+          calls: previous.calls + modelUsage.calls,
+        }
+      : modelUsage;
+  }
+  return {
+    prompt_tokens: sum.prompt_tokens + usage.prompt_tokens,
+    completion_tokens: sum.completion_tokens + usage.completion_tokens,
+    embedding_tokens: sum.embedding_tokens + usage.embedding_tokens,
+    total_tokens: sum.total_tokens + usage.total_tokens,
+    calls: sum.calls + usage.calls,
+    estimated: sum.estimated || usage.estimated,
+    models,
+  };
+}
+
+/** "850", "12.3k", "123k", "1.2M". */
+export function formatTokenCount(tokens: number): string {
+  if (tokens < 1000) {
+    return String(tokens);
+  }
+  const thousands = (tokens / 1000).toFixed(tokens < 100_000 ? 1 : 0);
+  // 999 999 rounds to 1000k: that is already 1.0M
+  if (Number(thousands) < 1000) {
+    return `${thousands}k`;
+  }
+  return `${(tokens / 1_000_000).toFixed(1)}M`;
+}
+
+/**
+ * Multi-line breakdown for tooltips: tokens by kind, then by model.
+ */
+export function describeTokenUsage(usage: TokenUsage): string {
+  const lines = [
+    `Prompt: ${usage.prompt_tokens.toLocaleString()}`,
+    `Completion: ${usage.completion_tokens.toLocaleString()}`,
+    `Embedding: ${usage.embedding_tokens.toLocaleString()}${usage.estimated ? ' (partly estimated)' : ''}`,
+    `${usage.calls} platform calls`,
+  ];
+  for (const [model, modelUsage] of Object.entries(usage.models)) {
+    const tokens = modelUsage.prompt_tokens + modelUsage.completion_tokens + modelUsage.embedding_tokens;
+    lines.push(`  ${model}: ${tokens.toLocaleString()} tokens in ${modelUsage.calls} calls`);
+  }
+  return lines.join('\n');
+}